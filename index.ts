@@ -1,3 +1,5 @@
+// Installs crypto.getRandomValues on Hermes; must run before anything generates skill IDs
+import 'react-native-get-random-values';
 import { registerRootComponent } from 'expo';
 
 import App from './App';
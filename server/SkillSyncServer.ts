@@ -0,0 +1,630 @@
+/**
+ * SkillSyncServer - Local Authoritative Skill Sync Server
+ *
+ * A Node WebSocket server that speaks the SkillWebSocketManager protocol so the
+ * client sync path can be developed and integration-tested entirely offline:
+ * - skill_update / batch_update: versioned writes into an authoritative store
+ * - ack: every message with requiresAck is acknowledged (success or error)
+ * - sync_request: diff_sync (selected skillIds) and full_sync (everything a player can see)
+ * - sync_response: skills returned for a sync_request
+ * - error: malformed or unknown messages
+ * - ping / pong: heartbeats; pings are echoed back as pongs
+ *
+ * Deletes arrive as updates with `deleted: true` and are kept as tombstones.
+ * Accepted updates are broadcast to every other connected client. Updates to
+ * an owned skill must carry its ownerId. Stale updates (version <= stored
+ * version) are rejected and the owner receives the authoritative copy so it
+ * can reconcile.
+ *
+ * The same port also serves the WebSocketBattleLogTransport protocol on
+ * `battleLogPath`:
+ * - battle_messages: each message gets the next per-battle `serverSeq`
+ * - battle_ack: one ack per message; resent message ids get their original
+ *   serverSeq back instead of a new one
+ */
+
+import fs from 'fs';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import type { SkillSummary, SkillEngineData, SkillUpdate, BatchUpdate } from '../src/services/SkillsDB';
+import type { WebSocketMessage, AckMessage } from '../src/services/SkillWebSocketManager';
+import type { BattleMessage } from '../src/services/UnifiedBattleLogSystem';
+import type { BattleMessageAck } from '../src/services/BattleLogTransport';
+
+// ===== CONFIGURATION =====
+
+export interface SkillSyncServerConfig {
+  port: number;
+  path: string;
+  battleLogPath: string;
+  dataFile?: string; // Persist the store to this JSON file when set
+  saveDebounceMs: number;
+  debug: boolean;
+}
+
+const DEFAULT_CONFIG: SkillSyncServerConfig = {
+  port: 8080,
+  path: '/skills',
+  battleLogPath: '/battle-log',
+  saveDebounceMs: 500,
+  debug: false,
+};
+
+// Fields that belong to SkillEngineData when an update has type 'both'
+const ENGINE_FIELDS = new Set(['formulas', 'cooldowns', 'charges', 'internalCalculations', 'lastModified']);
+
+// ===== INTERFACES =====
+
+export interface StoredSkill {
+  skillId: string;
+  version: number;
+  summary: Partial<SkillSummary>;
+  engineData: Partial<SkillEngineData>;
+  updatedAt: string;
+  deleted?: boolean; // Tombstone kept so stale writes are still rejected
+}
+
+export interface SyncRequest {
+  type: 'diff_sync' | 'full_sync';
+  playerUUID: string;
+  changedSkillIds?: string[];
+  timestamp: string;
+}
+
+export interface SyncResponse {
+  type: 'diff_sync' | 'full_sync';
+  playerUUID: string;
+  skills: StoredSkill[];
+  missingSkillIds: string[];
+  timestamp: string;
+}
+
+export interface ApplyResult {
+  applied: SkillUpdate[];
+  rejected: Array<{ update: SkillUpdate; reason: string; current?: StoredSkill }>;
+}
+
+export interface StoredBattleLog {
+  battleId: string;
+  lastSeq: number;
+  sequenced: Record<string, { serverSeq: number; serverTimestamp: number }>; // By message id
+}
+
+// Messages sent by the server; battle_ack is not part of the skill protocol
+type ServerMessage = Omit<WebSocketMessage, 'type'> & { type: WebSocketMessage['type'] | 'battle_ack' };
+
+// ===== AUTHORITATIVE STORE =====
+
+export class SkillStore {
+  private skills = new Map<string, StoredSkill>();
+
+  get(skillId: string): StoredSkill | undefined {
+    return this.skills.get(skillId);
+  }
+
+  getAll(): StoredSkill[] {
+    return Array.from(this.skills.values());
+  }
+
+  /**
+   * Skills a player is allowed to see: their own plus global templates
+   */
+  getVisibleTo(playerUUID: string): StoredSkill[] {
+    return this.getAll().filter(skill =>
+      !skill.deleted && (!skill.summary.ownerId || skill.summary.ownerId === playerUUID)
+    );
+  }
+
+  /**
+   * Apply an update if it comes from the skill's owner and its version is
+   * newer than the stored one. `current` is only returned to the owner.
+   */
+  apply(update: SkillUpdate): { ok: true } | { ok: false; reason: string; current?: StoredSkill } {
+    if (!update || typeof update.skillId !== 'string' || typeof update.version !== 'number') {
+      return { ok: false, reason: 'Malformed skill update' };
+    }
+
+    const existing = this.skills.get(update.skillId);
+
+    // Ownership first: a non-owner must not learn the stored version or contents
+    if (existing?.summary.ownerId && existing.summary.ownerId !== update.ownerId) {
+      return { ok: false, reason: `Unauthorized update to ${update.skillId}` };
+    }
+
+    if (existing && update.version <= existing.version) {
+      return {
+        ok: false,
+        reason: `Stale version ${update.version} for ${update.skillId} (server has ${existing.version})`,
+        current: existing,
+      };
+    }
+
+    const skill: StoredSkill = existing
+      ? { ...existing, summary: { ...existing.summary }, engineData: { ...existing.engineData } }
+      : { skillId: update.skillId, version: 0, summary: {}, engineData: {}, updatedAt: update.timestamp };
+
+    const data = (update.data || {}) as Record<string, any>;
+    if (update.deleted) {
+      skill.summary = { ownerId: skill.summary.ownerId };
+      skill.engineData = {};
+      skill.deleted = true;
+    } else {
+      delete skill.deleted;
+    }
+
+    if (update.type === 'summary') {
+      Object.assign(skill.summary, data);
+    } else if (update.type === 'engine') {
+      Object.assign(skill.engineData, data);
+    } else {
+      for (const [key, value] of Object.entries(data)) {
+        if (key === 'version') continue; // update.version is authoritative
+        if (ENGINE_FIELDS.has(key)) {
+          (skill.engineData as Record<string, any>)[key] = value;
+        } else {
+          (skill.summary as Record<string, any>)[key] = value;
+        }
+      }
+    }
+
+    // The creating update decides the owner; later data cannot reassign it
+    const ownerId = existing ? existing.summary.ownerId : update.ownerId;
+    if (ownerId) {
+      skill.summary.ownerId = ownerId;
+    } else {
+      delete skill.summary.ownerId;
+    }
+
+    skill.summary.id = update.skillId;
+    skill.engineData.id = update.skillId;
+    skill.engineData.version = update.version;
+    skill.version = update.version;
+    skill.updatedAt = update.timestamp || new Date().toISOString();
+
+    this.skills.set(update.skillId, skill);
+    return { ok: true };
+  }
+
+  applyBatch(updates: SkillUpdate[]): ApplyResult {
+    const result: ApplyResult = { applied: [], rejected: [] };
+    for (const update of updates) {
+      const outcome = this.apply(update);
+      if (outcome.ok) {
+        result.applied.push(update);
+      } else {
+        result.rejected.push({ update, reason: outcome.reason, current: outcome.current });
+      }
+    }
+    return result;
+  }
+
+  load(skills: StoredSkill[]): void {
+    this.skills.clear();
+    for (const skill of skills) {
+      this.skills.set(skill.skillId, skill);
+    }
+  }
+
+  clear(): void {
+    this.skills.clear();
+  }
+
+  size(): number {
+    return this.skills.size;
+  }
+}
+
+// ===== BATTLE LOG SEQUENCER =====
+
+export class BattleLogStore {
+  private battles = new Map<string, StoredBattleLog>();
+
+  get(battleId: string): StoredBattleLog | undefined {
+    return this.battles.get(battleId);
+  }
+
+  getAll(): StoredBattleLog[] {
+    return Array.from(this.battles.values());
+  }
+
+  /**
+   * Assign the next serverSeq of the message's battle. A message id that was
+   * already sequenced (a resend after a lost ack) gets its original position.
+   */
+  sequence(message: BattleMessage): BattleMessageAck {
+    if (!message || typeof message.id !== 'string' || typeof message.battleId !== 'string') {
+      return { messageId: message?.id, success: false, error: 'Malformed battle message' };
+    }
+
+    let battle = this.battles.get(message.battleId);
+    if (!battle) {
+      battle = { battleId: message.battleId, lastSeq: 0, sequenced: {} };
+      this.battles.set(message.battleId, battle);
+    }
+
+    let entry = battle.sequenced[message.id];
+    if (!entry) {
+      entry = { serverSeq: ++battle.lastSeq, serverTimestamp: Date.now() };
+      battle.sequenced[message.id] = entry;
+    }
+
+    return { messageId: message.id, success: true, ...entry };
+  }
+
+  load(battles: StoredBattleLog[]): void {
+    this.battles.clear();
+    for (const battle of battles) {
+      this.battles.set(battle.battleId, battle);
+    }
+  }
+
+  clear(): void {
+    this.battles.clear();
+  }
+
+  size(): number {
+    return this.battles.size;
+  }
+}
+
+// ===== SERVER =====
+
+export class SkillSyncServer {
+  private config: SkillSyncServerConfig;
+  private store = new SkillStore();
+  private battleLogs = new BattleLogStore();
+  private wss?: WebSocketServer;
+  private skillClients = new Set<WebSocket>(); // Battle-log sockets never receive skill broadcasts
+  private saveTimer?: NodeJS.Timeout;
+  private messageIdCounter = 0;
+
+  constructor(config: Partial<SkillSyncServerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ===== LIFECYCLE =====
+
+  async start(): Promise<void> {
+    if (this.wss) return;
+
+    this.loadFromDisk();
+
+    await new Promise<void>((resolve, reject) => {
+      // No `path` option: one port serves both protocols, routed per connection
+      const wss = new WebSocketServer({ port: this.config.port });
+      wss.once('listening', () => resolve());
+      wss.once('error', reject);
+      wss.on('connection', (socket, request) => this.handleConnection(socket, request.url));
+      this.wss = wss;
+    });
+
+    console.log(`🔌 Skill sync server listening on ws://localhost:${this.getPort()}${this.config.path}`);
+    console.log(`🔌 Battle log server listening on ws://localhost:${this.getPort()}${this.config.battleLogPath}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.wss) return;
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.saveToDisk();
+    }
+
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    this.skillClients.clear();
+
+    const wss = this.wss;
+    this.wss = undefined;
+    await new Promise<void>(resolve => wss.close(() => resolve()));
+  }
+
+  /**
+   * Actual listening port (useful when started with port 0 in tests)
+   */
+  getPort(): number {
+    const address = this.wss?.address();
+    return typeof address === 'object' && address ? address.port : this.config.port;
+  }
+
+  getStore(): SkillStore {
+    return this.store;
+  }
+
+  getBattleLogStore(): BattleLogStore {
+    return this.battleLogs;
+  }
+
+  getClientCount(): number {
+    return this.wss?.clients.size || 0;
+  }
+
+  // ===== CONNECTION HANDLING =====
+
+  private handleConnection(socket: WebSocket, url = '/'): void {
+    const path = new URL(url, 'ws://localhost').pathname;
+
+    if (path === this.config.path) {
+      this.skillClients.add(socket);
+      socket.on('message', raw => this.handleMessage(socket, raw));
+      socket.on('close', () => this.skillClients.delete(socket));
+    } else if (path === this.config.battleLogPath) {
+      socket.on('message', raw => this.handleBattleLogMessage(socket, raw));
+    } else {
+      socket.close(1008, 'Unknown path');
+      return;
+    }
+
+    this.log(`Client connected to ${path} (${this.getClientCount()} total)`);
+    socket.on('close', () => this.log(`Client disconnected (${this.getClientCount()} total)`));
+    socket.on('error', error => console.warn('⚠️ Client socket error:', error));
+  }
+
+  private handleMessage(socket: WebSocket, raw: RawData): void {
+    let message: WebSocketMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.sendError(socket, 'Invalid JSON');
+      return;
+    }
+
+    if (!message || typeof message.type !== 'string' || typeof message.messageId !== 'string') {
+      this.sendError(socket, 'Message must have a type and messageId');
+      return;
+    }
+
+    this.log('⬅️', message.type, message.messageId);
+
+    switch (message.type) {
+      case 'skill_update':
+        this.handleUpdates(socket, message, [message.data as SkillUpdate]);
+        break;
+      case 'batch_update': {
+        const batch = message.data as BatchUpdate;
+        if (!batch || !Array.isArray(batch.updates)) {
+          this.sendAck(socket, message, false, 'batch_update requires data.updates');
+          return;
+        }
+        this.handleUpdates(socket, message, batch.updates);
+        break;
+      }
+      case 'sync_request':
+        this.handleSyncRequest(socket, message);
+        break;
+      case 'ack':
+        // Server-originated messages never require acks; nothing to reconcile
+        break;
+      case 'ping':
+        // Echo the payload so the client can measure round-trip time
+        this.send(socket, this.createMessage('pong', message.data));
+        break;
+      case 'pong':
+        break;
+      default:
+        this.sendError(socket, `Unsupported message type: ${message.type}`, message.messageId);
+        if (message.requiresAck) {
+          this.sendAck(socket, message, false, `Unsupported message type: ${message.type}`);
+        }
+    }
+  }
+
+  private handleUpdates(socket: WebSocket, message: WebSocketMessage, updates: SkillUpdate[]): void {
+    const result = this.store.applyBatch(updates);
+
+    if (result.applied.length > 0) {
+      this.scheduleSave();
+      this.broadcast(socket, result.applied);
+    }
+
+    // Send the authoritative copy back for anything we refused so the client can reconcile
+    for (const rejection of result.rejected) {
+      if (rejection.current) {
+        this.send(socket, this.createMessage('skill_update', this.toSkillUpdate(rejection.current)));
+      }
+    }
+
+    if (message.requiresAck) {
+      const error = result.rejected.length > 0
+        ? result.rejected.map(r => r.reason).join('; ')
+        : undefined;
+      this.sendAck(socket, message, result.rejected.length === 0, error);
+    }
+  }
+
+  private handleSyncRequest(socket: WebSocket, message: WebSocketMessage): void {
+    const request = message.data as SyncRequest;
+    if (!request || typeof request.playerUUID !== 'string' ||
+        (request.type !== 'diff_sync' && request.type !== 'full_sync')) {
+      this.sendError(socket, 'Invalid sync_request', message.messageId);
+      if (message.requiresAck) {
+        this.sendAck(socket, message, false, 'Invalid sync_request');
+      }
+      return;
+    }
+
+    let skills: StoredSkill[];
+    const missingSkillIds: string[] = [];
+
+    if (request.type === 'diff_sync') {
+      const visible = new Set(this.store.getVisibleTo(request.playerUUID).map(s => s.skillId));
+      skills = [];
+      for (const skillId of request.changedSkillIds || []) {
+        const skill = this.store.get(skillId);
+        if (skill && visible.has(skillId)) {
+          skills.push(skill);
+        } else {
+          missingSkillIds.push(skillId);
+        }
+      }
+    } else {
+      skills = this.store.getVisibleTo(request.playerUUID);
+    }
+
+    const response: SyncResponse = {
+      type: request.type,
+      playerUUID: request.playerUUID,
+      skills,
+      missingSkillIds,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.send(socket, this.createMessage('sync_response', response));
+    if (message.requiresAck) {
+      this.sendAck(socket, message, true);
+    }
+  }
+
+  // ===== BATTLE LOG =====
+
+  private handleBattleLogMessage(socket: WebSocket, raw: RawData): void {
+    let message: { type?: unknown; messageId?: string; data?: any };
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.sendError(socket, 'Invalid JSON');
+      return;
+    }
+
+    this.log('⬅️', message?.type, message?.messageId);
+
+    if (message?.type !== 'battle_messages') {
+      this.sendError(socket, `Unsupported message type: ${message?.type}`, message?.messageId);
+      return;
+    }
+
+    const messages: BattleMessage[] = message.data?.messages;
+    if (!Array.isArray(messages)) {
+      this.sendError(socket, 'battle_messages requires data.messages', message.messageId);
+      return;
+    }
+
+    // Messages without an id cannot be acked; the client retries them on timeout
+    const acks = messages
+      .map(battleMessage => this.battleLogs.sequence(battleMessage))
+      .filter(ack => typeof ack.messageId === 'string');
+
+    if (acks.some(ack => ack.success)) {
+      this.scheduleSave();
+    }
+    this.send(socket, this.createMessage('battle_ack', { acks }));
+  }
+
+  // ===== OUTBOUND =====
+
+  private broadcast(origin: WebSocket, updates: SkillUpdate[]): void {
+    if (!this.wss) return;
+
+    const message = updates.length === 1
+      ? this.createMessage('skill_update', updates[0])
+      : this.createMessage('batch_update', {
+          updates,
+          batchId: this.generateMessageId(),
+          timestamp: new Date().toISOString(),
+        } as BatchUpdate);
+
+    for (const client of this.skillClients) {
+      if (client !== origin && client.readyState === WebSocket.OPEN) {
+        this.send(client, message);
+      }
+    }
+  }
+
+  private sendAck(socket: WebSocket, message: WebSocketMessage, success: boolean, error?: string): void {
+    const ack: AckMessage = {
+      messageId: message.messageId,
+      success,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    this.send(socket, this.createMessage('ack', ack));
+  }
+
+  private sendError(socket: WebSocket, error: string, messageId?: string): void {
+    this.send(socket, this.createMessage('error', { error, messageId }));
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify(message));
+    this.log('➡️', message.type, message.messageId);
+  }
+
+  private createMessage(type: ServerMessage['type'], data: any): ServerMessage {
+    return {
+      type,
+      data,
+      messageId: this.generateMessageId(),
+      timestamp: new Date().toISOString(),
+      requiresAck: false,
+    };
+  }
+
+  private toSkillUpdate(skill: StoredSkill): SkillUpdate {
+    return {
+      skillId: skill.skillId,
+      type: 'both',
+      data: { ...skill.summary, ...skill.engineData },
+      version: skill.version,
+      timestamp: skill.updatedAt,
+      ownerId: skill.summary.ownerId,
+      deleted: skill.deleted,
+    };
+  }
+
+  // ===== PERSISTENCE =====
+
+  private loadFromDisk(): void {
+    const { dataFile } = this.config;
+    if (!dataFile || !fs.existsSync(dataFile)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+      this.store.load(Array.isArray(data.skills) ? data.skills : []);
+      this.battleLogs.load(Array.isArray(data.battleLogs) ? data.battleLogs : []);
+      console.log(`📚 Loaded ${this.store.size()} skills and ${this.battleLogs.size()} battle logs from ${dataFile}`);
+    } catch (error) {
+      console.error(`❌ Failed to load ${dataFile}, starting empty:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.dataFile) return;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveToDisk();
+    }, this.config.saveDebounceMs);
+  }
+
+  private saveToDisk(): void {
+    const { dataFile } = this.config;
+    if (!dataFile) return;
+
+    try {
+      const tmpFile = `${dataFile}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify({
+        skills: this.store.getAll(),
+        battleLogs: this.battleLogs.getAll(),
+        savedAt: new Date().toISOString(),
+      }, null, 2));
+      fs.renameSync(tmpFile, dataFile);
+    } catch (error) {
+      console.error(`❌ Failed to save ${dataFile}:`, error);
+    }
+  }
+
+  // ===== UTILITY METHODS =====
+
+  private generateMessageId(): string {
+    return `srv_${++this.messageIdCounter}_${Date.now()}`;
+  }
+
+  private log(...args: any[]): void {
+    if (this.config.debug) {
+      console.log('[SkillSyncServer]', ...args);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Entry point for the local skill sync server.
+ *
+ * Usage:
+ *   npm run skill-server
+ *   npm run skill-server -- --port 8080 --data ./skills-data.json --debug
+ */
+
+import { SkillSyncServer } from './SkillSyncServer';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const server = new SkillSyncServer({
+  port: Number(readFlag('port') || process.env.SKILL_SERVER_PORT || 8080),
+  dataFile: readFlag('data') || process.env.SKILL_SERVER_DATA,
+  debug: process.argv.includes('--debug'),
+});
+
+server.start().catch(error => {
+  console.error('❌ Failed to start skill sync server:', error);
+  process.exit(1);
+});
+
+const shutdown = async () => {
+  console.log('🛑 Shutting down skill sync server...');
+  await server.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
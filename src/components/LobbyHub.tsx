@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, TouchableOpacity, Text, TextInput, ScrollView } from 'react-native';
+import { useAuth } from '../providers/AuthProvider';
+import { skillLoadouts, SkillLoadout, LoadoutValidationError } from '../services/SkillLoadoutService';
 
 interface LobbyHubProps {
   theme: 'blue' | 'red';
@@ -55,6 +57,10 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
   const [players, setPlayers] = useState<Player[]>([]);
   const [selectedFriends, setSelectedFriends] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const { user } = useAuth();
+  const [loadouts, setLoadouts] = useState<SkillLoadout[]>([]);
+  const [selectedLoadoutId, setSelectedLoadoutId] = useState<string | null>(null);
+  const [loadoutError, setLoadoutError] = useState<string | null>(null);
   const [mockPlayers, setMockPlayers] = useState<Player[]>([
     { id: '1', username: 'LobbyCreator', team: 'team1', slot: 0, isReady: true }, // Lobby creator automatically ready
     { id: '2', username: 'PlayerTwo', team: 'team1', slot: 1, isReady: false }, // Changed to false for testing
@@ -107,6 +113,40 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
 
 
 
+  // Load the player's skill loadouts, preselecting the one last used
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    Promise.all([skillLoadouts.getLoadouts(user.id), skillLoadouts.getActiveLoadout(user.id)])
+      .then(([saved, active]) => {
+        if (cancelled) return;
+        setLoadouts(saved);
+        setSelectedLoadoutId(active?.id ?? saved[0]?.id ?? null);
+      })
+      .catch(error => console.error('❌ Failed to load skill loadouts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Equip the chosen loadout before entering the lobby
+  const activateSelectedLoadout = async (): Promise<boolean> => {
+    if (!user || !selectedLoadoutId) return true;
+
+    try {
+      await skillLoadouts.activateLoadout(user.id, selectedLoadoutId);
+      setLoadoutError(null);
+      return true;
+    } catch (error) {
+      setLoadoutError(error instanceof LoadoutValidationError
+        ? error.issues.map(issue => issue.message).join('\n')
+        : 'Failed to equip loadout');
+      return false;
+    }
+  };
+
   // Calculate total expected players based on team configuration
   const totalExpectedPlayers = parseInt(lobbyDetails.team1Size) + parseInt(lobbyDetails.team2Size);
   
@@ -129,10 +169,12 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
     });
   };
 
-  const onNextStep = () => {
+  const onNextStep = async () => {
     switch (currentStep) {
       case 'lobby-info':
-        setCurrentStep('player-invitation');
+        if (await activateSelectedLoadout()) {
+          setCurrentStep('player-invitation');
+        }
         break;
       case 'player-invitation':
         setCurrentStep('player-lobby');
@@ -222,6 +264,54 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
     </View>
   );
 
+  const renderLoadoutPicker = () => (
+    <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+      <Text style={[styles.sectionTitle, { color: themeColors.text }]}>
+        Skill Loadout
+      </Text>
+      {loadouts.length === 0 ? (
+        <Text style={[styles.gameModeDetails, { color: themeColors.textSecondary }]}>
+          No loadouts yet - your currently active skills will be used
+        </Text>
+      ) : (
+        <View style={styles.loadoutContainer}>
+          {loadouts.map(loadout => {
+            const isSelected = loadout.id === selectedLoadoutId;
+            const equipped = loadout.slots.filter(Boolean).length;
+            return (
+              <TouchableOpacity
+                key={loadout.id}
+                style={[
+                  styles.loadoutButton,
+                  {
+                    backgroundColor: isSelected ? themeColors.primary : themeColors.surfaceSecondary,
+                    borderColor: isSelected ? themeColors.primary : themeColors.border
+                  }
+                ]}
+                onPress={() => {
+                  setSelectedLoadoutId(loadout.id);
+                  setLoadoutError(null);
+                }}
+              >
+                <Text style={[styles.visibilityButtonText, { color: themeColors.text }]}>
+                  {loadout.name}
+                </Text>
+                <Text style={[styles.loadoutSlotsText, { color: themeColors.textSecondary }]}>
+                  {equipped}/{loadout.constraints.slotCount} slots
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+      {loadoutError && (
+        <Text style={[styles.loadoutErrorText, { color: themeColors.error }]}>
+          {loadoutError}
+        </Text>
+      )}
+    </View>
+  );
+
   const renderLobbyInformationScreen = () => (
     <View style={styles.screen}>
       <View style={styles.screenContent}>
@@ -383,6 +473,9 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
           </Text>
         </View>
 
+        {/* Skill Loadout */}
+        {renderLoadoutPicker()}
+
         <TouchableOpacity
           style={[styles.nextButton, { backgroundColor: themeColors.primary }]}
           onPress={onNextStep}
@@ -724,7 +817,10 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
                 placeholderTextColor={themeColors.textSecondary}
               />
             </View>
-            <TouchableOpacity style={[styles.joinLobbyButton, { backgroundColor: themeColors.primary }]}>
+            <TouchableOpacity
+              style={[styles.joinLobbyButton, { backgroundColor: themeColors.primary }]}
+              onPress={activateSelectedLoadout}
+            >
               <Text style={[styles.joinLobbyButtonText, { color: '#FFFFFF' }]}>
                 Join
               </Text>
@@ -732,6 +828,8 @@ export const LobbyHub: React.FC<LobbyHubProps> = ({ theme }) => {
           </View>
         </View>
 
+        {renderLoadoutPicker()}
+
         <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
           <Text style={[styles.sectionTitle, { color: themeColors.text }]}>
             Available Lobbies
@@ -1125,6 +1223,28 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     fontStyle: 'italic',
   },
+  loadoutContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  loadoutButton: {
+    minWidth: 120,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  loadoutSlotsText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  loadoutErrorText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 12,
+  },
   nextButton: {
     paddingVertical: 16,
     paddingHorizontal: 24,
@@ -21,6 +21,29 @@ export const useAuth = (): AuthContextValue => {
   return ctx;
 };
 
+// Migration is idempotent, so it is safe to run on every sign-in
+const runSkillMigration = async (userId: string): Promise<void> => {
+  const result = await SkillMigrationService.migratePlayerSkills(userId);
+
+  switch (result.status) {
+    case 'migrated':
+      console.log(`✅ Skill migration completed successfully (${result.migratedCount} skills)`);
+      break;
+    case 'partial':
+      console.warn(`⚠️ Skill migration incomplete, ${result.failures.length} skills will be retried:`, result.failures);
+      break;
+    case 'failed':
+      console.error('❌ Skill migration failed:', result.error);
+      break;
+    case 'already_migrated':
+      console.log('✅ Skills already migrated, no action needed');
+      break;
+    case 'no_skills':
+      console.log('ℹ️ No skills found to migrate');
+      break;
+  }
+};
+
 export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
@@ -35,23 +58,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       // Handle skill migration for existing sessions
       if (sessionUser?.email_confirmed_at && sessionUser.id) {
         console.log('📧 Existing session with confirmed email, checking for skill migration...');
-        
-        const migrationStatus = await SkillMigrationService.getMigrationStatus(sessionUser.id);
-        
-        if (migrationStatus.needsMigration) {
-          console.log(`🔄 Migrating ${migrationStatus.inventorySkillCount} skills from InventoryDB to ClientsideSkillStorage`);
-          const migrationSuccess = await SkillMigrationService.migratePlayerSkills(sessionUser.id);
-          
-          if (migrationSuccess) {
-            console.log('✅ Skill migration completed successfully');
-          } else {
-            console.error('❌ Skill migration failed');
-          }
-        } else if (migrationStatus.hasLocalSkills) {
-          console.log('✅ Skills already migrated, no action needed');
-        } else {
-          console.log('ℹ️ No skills found to migrate');
-        }
+        await runSkillMigration(sessionUser.id);
       }
       
       setLoading(false);
@@ -64,24 +71,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       // Handle email confirmation and skill migration
       if (event === 'SIGNED_IN' && sessionUser?.email_confirmed_at && sessionUser.id) {
         console.log('📧 Email confirmed, checking for skill migration...');
-        
-        // Check if skills need migration and migrate them
-        const migrationStatus = await SkillMigrationService.getMigrationStatus(sessionUser.id);
-        
-        if (migrationStatus.needsMigration) {
-          console.log(`🔄 Migrating ${migrationStatus.inventorySkillCount} skills from InventoryDB to ClientsideSkillStorage`);
-          const migrationSuccess = await SkillMigrationService.migratePlayerSkills(sessionUser.id);
-          
-          if (migrationSuccess) {
-            console.log('✅ Skill migration completed successfully');
-          } else {
-            console.error('❌ Skill migration failed');
-          }
-        } else if (migrationStatus.hasLocalSkills) {
-          console.log('✅ Skills already migrated, no action needed');
-        } else {
-          console.log('ℹ️ No skills found to migrate');
-        }
+        await runSkillMigration(sessionUser.id);
       }
     });
 
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { StyleSheet, Text, View, ScrollView, TouchableOpacity } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { DashboardLayout } from '../components/DashboardLayout';
@@ -10,6 +10,7 @@ import { DashboardHeader } from '../components/DashboardHeader';
 import { MainButtonsGrid } from '../components/MainButtonsGrid';
 import { LobbyHub } from '../components/LobbyHub';
 import { TransitionWrapper } from '../components/TransitionWrapper';
+import { skillProgression, SkillLevelUpEvent } from '../services/SkillProgressionService';
 
 export const DemonDashboard: React.FC = () => {
   const [showNotification, setShowNotification] = useState(false);
@@ -20,6 +21,17 @@ export const DemonDashboard: React.FC = () => {
   // Prevent multiple rapid tab changes
   const isChangingTab = useRef(false);
 
+  // Skill level-ups waiting to be shown, oldest first
+  const [levelUps, setLevelUps] = useState<SkillLevelUpEvent[]>([]);
+
+  useEffect(() => {
+    const handleLevelUp = (event: SkillLevelUpEvent) => {
+      setLevelUps(queue => [...queue, event]);
+    };
+    skillProgression.on('levelUp', handleLevelUp);
+    return () => skillProgression.off('levelUp', handleLevelUp);
+  }, []);
+
   const themeColors = {
     primary: '#DC2626',
     secondary: '#991B1B',
@@ -58,6 +70,12 @@ export const DemonDashboard: React.FC = () => {
     // Handle player decline logic
   };
 
+  const handleDismissLevelUp = () => {
+    setLevelUps(queue => queue.slice(1));
+  };
+
+  const currentLevelUp = levelUps[0];
+
   const handleTabChange = useCallback((tab: 'Dashboard' | 'Arena' | 'Clan') => {
     // Prevent multiple rapid tab changes
     if (isChangingTab.current || tab === activeTab) {
@@ -169,6 +187,18 @@ export const DemonDashboard: React.FC = () => {
         declineText="Decline"
         theme="red"
       />
+
+      {/* Skill Level-Up Popup */}
+      <NotificationPopup
+        visible={!showNotification && !!currentLevelUp}
+        title="LEVEL UP"
+        message={currentLevelUp
+          ? `${currentLevelUp.skillName} reached level ${currentLevelUp.newLevel}${currentLevelUp.isMaxLevel ? ' (MAX)' : ''}!`
+          : ''}
+        onAccept={handleDismissLevelUp}
+        acceptText="OK"
+        theme="red"
+      />
     </DashboardLayout>
   );
 };
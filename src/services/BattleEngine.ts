@@ -0,0 +1,860 @@
+/**
+ * BattleEngine - Deterministic Turn-Based Battle Resolution
+ *
+ * This file resolves battles between two teams using the skills players own:
+ * - Seeded RNG: the same seed and inputs always replay the same battle
+ * - Turn order: combatants act by speed each round, ties broken by the seeded RNG
+ * - Skill resolution: damage, heal and status effects from SkillAbility data
+ *   (or SkillEngineData.formulas when a skill defines them)
+ * - Mana costs and turn-based cooldowns per ability
+ * - Flat damage and cooldowns scale with skill level (SkillProgressionService)
+ * - Every resolved step is returned as a state transition
+ * - Transitions are forwarded to UnifiedBattleLogSystem as BattleMessages
+ * - Abilities used by player combatants are reported to ClientsideSkillStorage.markSkillAsUsed
+ *   (lastUsed + XP through SkillProgressionService)
+ *
+ * The engine itself is synchronous and side-effect free; battle log writes and
+ * skill usage are chained in the background and can be awaited with
+ * flushBattleLog() / flushSkillUsage().
+ */
+
+import { SkillAbility, SkillEngineData } from './SkillsDB';
+import { BattleSkill, ClientsideSkillStorage } from './ClientsideSkillStorage';
+import { evaluateFormula, resolveFormula, FormulaContext, FormulaCombatant } from './SkillFormula';
+import { unifiedBattleLog, UnifiedBattleLogSystem, BattleMessage } from './UnifiedBattleLogSystem';
+import { getLevelScaling, scaleDamageForLevel, scaleCooldownForLevel } from './SkillProgressionService';
+
+// ===== CONFIGURATION =====
+
+export interface BattleEngineConfig {
+  battleId: string;
+  seed: number;
+  maxRounds: number; // Battle ends in a draw after this many rounds
+  msPerTurn: number; // Converts millisecond cooldowns into turns
+  manaRegenPerTurn: number; // Mana restored at the start of each combatant's turn
+  attackScaling: number; // Fraction of caster attack added to ability damage
+  damageVariance: number; // +/- fraction applied to every damage/heal roll
+  critChance: number;
+  critMultiplier: number;
+  defaultStatusDuration: number; // Turns a status lasts unless engine data overrides it
+  battleLog: UnifiedBattleLogSystem | null; // null disables battle log output
+  skillUsage: SkillUsageRecorder | null; // null disables usage tracking (no XP)
+  actionSelector?: ActionSelector; // Custom AI / player input, defaults to simple AI
+}
+
+const DEFAULT_CONFIG: Omit<BattleEngineConfig, 'battleId' | 'seed'> = {
+  maxRounds: 50,
+  msPerTurn: 1000,
+  manaRegenPerTurn: 5,
+  attackScaling: 0.5,
+  damageVariance: 0.1,
+  critChance: 0.05,
+  critMultiplier: 1.5,
+  defaultStatusDuration: 2,
+  battleLog: unifiedBattleLog,
+  skillUsage: ClientsideSkillStorage,
+};
+
+// ===== INTERFACES =====
+
+export interface CombatantStats {
+  maxHp: number;
+  maxMana: number;
+  attack: number;
+  defense: number;
+  speed: number;
+}
+
+export interface SkillUsageRecorder {
+  markSkillAsUsed(playerUUID: string, skillId: string, battle?: { battleId: string; experience?: number }): Promise<void>;
+}
+
+export interface CombatantInput {
+  id: string; // Player UUID (or NPC id)
+  name: string;
+  stats: CombatantStats;
+  skills: BattleSkill[];
+  isPlayer?: boolean; // Ability uses are recorded as skill usage for `id` (awards XP)
+  hp?: number; // Defaults to stats.maxHp
+  mana?: number; // Defaults to stats.maxMana
+}
+
+export interface BattleTeamInput {
+  teamId: string;
+  combatants: CombatantInput[];
+}
+
+export interface StatusEffectState {
+  name: string;
+  remainingTurns: number;
+  potency: number;
+  sourceId: string;
+}
+
+export interface CombatantState {
+  id: string;
+  name: string;
+  teamId: string;
+  stats: CombatantStats;
+  hp: number;
+  mana: number;
+  isAlive: boolean;
+  statusEffects: StatusEffectState[];
+  cooldowns: Record<string, number>; // `${skillId}:${abilityId}` -> turns remaining
+  charges: Record<string, number>; // skillId -> charges remaining (only for charge-based skills)
+}
+
+export interface BattleState {
+  battleId: string;
+  seed: number;
+  rngState: number;
+  round: number;
+  turn: number;
+  turnOrder: string[];
+  turnPointer: number;
+  combatants: CombatantState[];
+  isFinished: boolean;
+  winnerTeamId: string | null; // null while running or on a draw
+}
+
+export type BattleTransitionType = 'action' | 'damage' | 'heal' | 'status';
+
+export interface BattleTransition {
+  type: BattleTransitionType;
+  round: number;
+  turn: number;
+  actorId: string;
+  targetId?: string;
+  skillId?: string;
+  abilityId?: string;
+  amount?: number;
+  status?: string;
+  isCritical?: boolean;
+  targetHp?: number;
+  content: string;
+}
+
+export interface BattleAction {
+  skillId?: string; // Omitted for a basic attack
+  abilityId?: string;
+  targetId: string;
+}
+
+export interface BattleStep {
+  transitions: BattleTransition[];
+  state: BattleState;
+}
+
+export interface BattleResult {
+  winnerTeamId: string | null;
+  rounds: number;
+  transitions: BattleTransition[];
+  finalState: BattleState;
+}
+
+export type ActionSelector = (
+  actor: CombatantState,
+  usable: Array<{ skill: BattleSkill; ability: SkillAbility }>,
+  state: BattleState
+) => BattleAction | null;
+
+// ===== STATUS EFFECTS =====
+
+interface StatusDefinition {
+  kind: 'damageOverTime' | 'healOverTime' | 'skipTurn' | 'marker';
+  defaultPotency: number; // Fraction of max HP per turn for over-time effects
+  defaultDuration?: number; // Overrides config.defaultStatusDuration
+  label: string;
+}
+
+const STATUS_DEFINITIONS: Record<string, StatusDefinition> = {
+  burn: { kind: 'damageOverTime', defaultPotency: 0.05, label: 'burned' },
+  poison: { kind: 'damageOverTime', defaultPotency: 0.04, label: 'poisoned' },
+  bleed: { kind: 'damageOverTime', defaultPotency: 0.03, label: 'bleeding' },
+  regen: { kind: 'healOverTime', defaultPotency: 0.05, label: 'regenerating' },
+  stun: { kind: 'skipTurn', defaultPotency: 0, defaultDuration: 1, label: 'stunned' },
+  freeze: { kind: 'skipTurn', defaultPotency: 0, defaultDuration: 1, label: 'frozen' },
+};
+
+// Effects that change how an ability resolves instead of applying a status
+const HEAL_EFFECT = 'heal';
+
+// ===== SEEDED RNG =====
+
+/**
+ * Mulberry32 - small, fast and fully deterministic 32-bit PRNG.
+ * The internal state is exposed so a battle can be snapshotted and resumed.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+}
+
+// ===== MAIN BATTLE ENGINE CLASS =====
+
+export class BattleEngine {
+  private config: BattleEngineConfig;
+  private rng: SeededRandom;
+  private state: BattleState;
+  private skillsByCombatant = new Map<string, BattleSkill[]>();
+  private playerIds = new Set<string>();
+  private logChain: Promise<void> = Promise.resolve();
+  private usageChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    teams: [BattleTeamInput, BattleTeamInput],
+    config: Partial<BattleEngineConfig> & Pick<BattleEngineConfig, 'battleId' | 'seed'>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.rng = new SeededRandom(this.config.seed);
+
+    if (teams[0].teamId === teams[1].teamId) {
+      throw new Error('Battle teams must have distinct team IDs');
+    }
+
+    const combatants: CombatantState[] = [];
+    for (const team of teams) {
+      if (team.combatants.length === 0) {
+        throw new Error(`Team ${team.teamId} has no combatants`);
+      }
+      for (const input of team.combatants) {
+        if (this.skillsByCombatant.has(input.id)) {
+          throw new Error(`Duplicate combatant ID: ${input.id}`);
+        }
+        this.skillsByCombatant.set(input.id, input.skills);
+        if (input.isPlayer) {
+          this.playerIds.add(input.id);
+        }
+        combatants.push(this.createCombatantState(input, team.teamId));
+      }
+    }
+
+    this.state = {
+      battleId: this.config.battleId,
+      seed: this.config.seed,
+      rngState: this.rng.getState(),
+      round: 0,
+      turn: 0,
+      turnOrder: [],
+      turnPointer: 0,
+      combatants,
+      isFinished: false,
+      winnerTeamId: null,
+    };
+  }
+
+  // ===== PUBLIC API =====
+
+  /**
+   * Get a snapshot of the current battle state
+   */
+  getState(): BattleState {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  /**
+   * Resolve the next combatant's turn
+   */
+  step(): BattleStep {
+    if (this.state.isFinished) {
+      return { transitions: [], state: this.getState() };
+    }
+
+    if (this.state.turnPointer >= this.state.turnOrder.length) {
+      this.startRound();
+      if (this.state.isFinished) {
+        return { transitions: [], state: this.getState() };
+      }
+    }
+
+    const actorId = this.state.turnOrder[this.state.turnPointer++];
+    const actor = this.getCombatant(actorId);
+    const transitions: BattleTransition[] = [];
+
+    if (actor.isAlive) {
+      this.state.turn++;
+      this.resolveTurn(actor, transitions);
+      this.checkForWinner();
+    }
+
+    this.state.rngState = this.rng.getState();
+    this.emitToBattleLog(transitions);
+
+    return { transitions, state: this.getState() };
+  }
+
+  /**
+   * Run the battle to completion
+   */
+  run(): BattleResult {
+    const transitions: BattleTransition[] = [];
+
+    while (!this.state.isFinished) {
+      transitions.push(...this.step().transitions);
+    }
+
+    return {
+      winnerTeamId: this.state.winnerTeamId,
+      rounds: this.state.round,
+      transitions,
+      finalState: this.getState(),
+    };
+  }
+
+  /**
+   * Wait until every transition has been written to the battle log
+   */
+  async flushBattleLog(): Promise<void> {
+    await this.logChain;
+  }
+
+  /**
+   * Wait until every player ability use has been recorded
+   */
+  async flushSkillUsage(): Promise<void> {
+    await this.usageChain;
+  }
+
+  // ===== ROUND AND TURN RESOLUTION =====
+
+  private startRound(): void {
+    if (this.state.round >= this.config.maxRounds) {
+      this.finish(null);
+      return;
+    }
+
+    this.state.round++;
+    this.state.turnPointer = 0;
+
+    // Faster combatants act first; ties are broken by a seeded roll
+    const living = this.state.combatants
+      .filter(c => c.isAlive)
+      .map(c => ({ id: c.id, speed: c.stats.speed, roll: this.rng.next() }));
+
+    living.sort((a, b) => b.speed - a.speed || b.roll - a.roll);
+    this.state.turnOrder = living.map(c => c.id);
+  }
+
+  private resolveTurn(actor: CombatantState, transitions: BattleTransition[]): void {
+    // Regenerate mana and tick cooldowns at the start of the actor's turn
+    actor.mana = Math.min(actor.stats.maxMana, actor.mana + this.config.manaRegenPerTurn);
+    for (const key of Object.keys(actor.cooldowns)) {
+      actor.cooldowns[key] = Math.max(0, actor.cooldowns[key] - 1);
+    }
+
+    const skipTurn = this.tickStatusEffects(actor, transitions);
+    if (!actor.isAlive || skipTurn) {
+      return;
+    }
+
+    const usable = this.getUsableAbilities(actor);
+    const selector = this.config.actionSelector || this.selectDefaultAction.bind(this);
+    const action = selector(actor, usable, this.getState());
+
+    if (!action) {
+      transitions.push(this.createTransition('action', actor, {
+        content: `${actor.name} waits`,
+      }));
+      return;
+    }
+
+    const target = this.state.combatants.find(c => c.id === action.targetId);
+    if (!target || !target.isAlive) {
+      transitions.push(this.createTransition('action', actor, {
+        content: `${actor.name} hesitates - no valid target`,
+      }));
+      return;
+    }
+
+    const chosen = usable.find(u => u.skill.skillId === action.skillId && u.ability.id === action.abilityId);
+    if (action.skillId && !chosen) {
+      throw new Error(`Ability ${action.abilityId} of skill ${action.skillId} is not usable by ${actor.id}`);
+    }
+
+    if (chosen) {
+      this.resolveAbility(actor, target, chosen.skill, chosen.ability, transitions);
+    } else {
+      this.resolveBasicAttack(actor, target, transitions);
+    }
+  }
+
+  private resolveBasicAttack(actor: CombatantState, target: CombatantState, transitions: BattleTransition[]): void {
+    transitions.push(this.createTransition('action', actor, {
+      targetId: target.id,
+      content: `${actor.name} attacks ${target.name}`,
+    }));
+
+    const { amount, isCritical } = this.rollDamage(actor, target, 0, undefined);
+    this.applyDamage(actor, target, amount, isCritical, transitions, {});
+  }
+
+  private resolveAbility(
+    actor: CombatantState,
+    target: CombatantState,
+    skill: BattleSkill,
+    ability: SkillAbility,
+    transitions: BattleTransition[]
+  ): void {
+    const engineData = skill.engineData as SkillEngineData | undefined;
+    const cooldownKey = this.getCooldownKey(skill.skillId, ability.id);
+    const refs = { skillId: skill.skillId, abilityId: ability.id };
+
+    actor.mana -= ability.manaCost || 0;
+    actor.cooldowns[cooldownKey] = this.getCooldownTurns(ability, engineData, skill);
+    if (actor.charges[skill.skillId] !== undefined) {
+      actor.charges[skill.skillId]--;
+    }
+
+    transitions.push(this.createTransition('action', actor, {
+      ...refs,
+      targetId: target.id,
+      content: `${actor.name} uses ${ability.name} on ${target.name}`,
+    }));
+    this.recordSkillUsage(actor, skill);
+
+    const effects = ability.effects || [];
+    const isHeal = effects.includes(HEAL_EFFECT);
+    const flatPower = this.getLeveledDamage(ability, engineData, skill);
+
+    if (isHeal) {
+      const formula = resolveFormula(engineData?.formulas, ability.id, 'heal');
+      const power = formula
+        ? this.evaluateAbilityFormula(formula, actor, target, skill, ability)
+        : flatPower;
+      this.applyHeal(actor, target, this.rollVariance(power), transitions, refs);
+    } else {
+      const formula = resolveFormula(engineData?.formulas, ability.id, 'damage');
+      if (formula) {
+        // Authored formulas already account for scaling and defense
+        const raw = this.evaluateAbilityFormula(formula, actor, target, skill, ability);
+        const { amount, isCritical } = this.rollCritical(raw, engineData);
+        this.applyDamage(actor, target, amount, isCritical, transitions, refs);
+      } else if (ability.damage !== undefined) {
+        const { amount, isCritical } = this.rollDamage(actor, target, flatPower, engineData);
+        this.applyDamage(actor, target, amount, isCritical, transitions, refs);
+      }
+    }
+
+    if (!target.isAlive) {
+      return;
+    }
+
+    for (const effect of effects) {
+      if (effect === HEAL_EFFECT) continue;
+      this.applyStatus(actor, target, effect, engineData, transitions, refs);
+    }
+  }
+
+  // ===== DAMAGE, HEAL AND STATUS =====
+
+  private rollDamage(
+    actor: CombatantState,
+    target: CombatantState,
+    baseDamage: number,
+    engineData: SkillEngineData | undefined
+  ): { amount: number; isCritical: boolean } {
+    const raw = baseDamage + actor.stats.attack * this.config.attackScaling;
+    const mitigated = raw * (100 / (100 + Math.max(0, target.stats.defense)));
+    return this.rollCritical(mitigated, engineData);
+  }
+
+  private rollCritical(
+    damage: number,
+    engineData: SkillEngineData | undefined
+  ): { amount: number; isCritical: boolean } {
+    const critChance = engineData?.internalCalculations?.critChance ?? this.config.critChance;
+    const critMultiplier = engineData?.internalCalculations?.critMultiplier ?? this.config.critMultiplier;
+    const isCritical = this.rng.chance(critChance);
+
+    const amount = this.rollVariance(isCritical ? damage * critMultiplier : damage);
+    return { amount: Math.max(1, amount), isCritical };
+  }
+
+  /**
+   * Evaluate a SkillFormula for an ability, falling back to the ability's
+   * flat damage if the formula fails at runtime (e.g. division by zero)
+   */
+  private evaluateAbilityFormula(
+    formula: string,
+    actor: CombatantState,
+    target: CombatantState,
+    skill: BattleSkill,
+    ability: SkillAbility
+  ): number {
+    const context: FormulaContext = {
+      base: ability.damage || 0,
+      level: skill.runtimeState?.level ?? 1,
+      caster: this.toFormulaCombatant(actor),
+      target: this.toFormulaCombatant(target),
+    };
+
+    try {
+      return evaluateFormula(formula, context);
+    } catch (error) {
+      console.warn(`Formula for ability ${ability.id} failed, using flat damage:`, error);
+      return ability.damage || 0;
+    }
+  }
+
+  private toFormulaCombatant(combatant: CombatantState): FormulaCombatant {
+    return { hp: combatant.hp, mana: combatant.mana, ...combatant.stats };
+  }
+
+  private rollVariance(value: number): number {
+    const variance = this.config.damageVariance;
+    const factor = 1 - variance + this.rng.next() * variance * 2;
+    return Math.round(value * factor);
+  }
+
+  private applyDamage(
+    actor: CombatantState,
+    target: CombatantState,
+    amount: number,
+    isCritical: boolean,
+    transitions: BattleTransition[],
+    refs: { skillId?: string; abilityId?: string }
+  ): void {
+    target.hp = Math.max(0, target.hp - amount);
+
+    transitions.push(this.createTransition('damage', actor, {
+      ...refs,
+      targetId: target.id,
+      amount,
+      isCritical,
+      targetHp: target.hp,
+      content: `${target.name} takes ${amount}${isCritical ? ' critical' : ''} damage`,
+    }));
+
+    if (target.hp === 0) {
+      this.defeat(actor, target, transitions);
+    }
+  }
+
+  private applyHeal(
+    actor: CombatantState,
+    target: CombatantState,
+    amount: number,
+    transitions: BattleTransition[],
+    refs: { skillId?: string; abilityId?: string }
+  ): void {
+    const healed = Math.min(target.stats.maxHp - target.hp, Math.max(0, amount));
+    target.hp += healed;
+
+    transitions.push(this.createTransition('heal', actor, {
+      ...refs,
+      targetId: target.id,
+      amount: healed,
+      targetHp: target.hp,
+      content: `${target.name} recovers ${healed} HP`,
+    }));
+  }
+
+  private applyStatus(
+    actor: CombatantState,
+    target: CombatantState,
+    effect: string,
+    engineData: SkillEngineData | undefined,
+    transitions: BattleTransition[],
+    refs: { skillId?: string; abilityId?: string }
+  ): void {
+    const definition = STATUS_DEFINITIONS[effect];
+    const remainingTurns = engineData?.internalCalculations?.statusDurations?.[effect]
+      ?? definition?.defaultDuration
+      ?? this.config.defaultStatusDuration;
+    const potency = engineData?.internalCalculations?.statusPotency?.[effect]
+      ?? definition?.defaultPotency
+      ?? 0;
+
+    // Re-applying a status refreshes it instead of stacking
+    const existing = target.statusEffects.find(s => s.name === effect);
+    if (existing) {
+      existing.remainingTurns = Math.max(existing.remainingTurns, remainingTurns);
+      existing.potency = Math.max(existing.potency, potency);
+      existing.sourceId = actor.id;
+    } else {
+      target.statusEffects.push({ name: effect, remainingTurns, potency, sourceId: actor.id });
+    }
+
+    transitions.push(this.createTransition('status', actor, {
+      ...refs,
+      targetId: target.id,
+      status: effect,
+      content: `${target.name} is ${definition?.label || `affected by ${effect}`}`,
+    }));
+  }
+
+  /**
+   * Apply status effects at the start of a turn.
+   * Returns true if a status prevents the combatant from acting.
+   */
+  private tickStatusEffects(combatant: CombatantState, transitions: BattleTransition[]): boolean {
+    let skipTurn = false;
+
+    for (const status of [...combatant.statusEffects]) {
+      const definition = STATUS_DEFINITIONS[status.name];
+      const source = this.state.combatants.find(c => c.id === status.sourceId) || combatant;
+      const amount = Math.max(1, Math.round(combatant.stats.maxHp * status.potency));
+
+      switch (definition?.kind) {
+        case 'damageOverTime':
+          this.applyDamage(source, combatant, amount, false, transitions, {});
+          break;
+        case 'healOverTime':
+          this.applyHeal(source, combatant, amount, transitions, {});
+          break;
+        case 'skipTurn':
+          skipTurn = true;
+          transitions.push(this.createTransition('status', source, {
+            targetId: combatant.id,
+            status: status.name,
+            content: `${combatant.name} is ${definition.label} and cannot act`,
+          }));
+          break;
+      }
+
+      if (!combatant.isAlive) {
+        return true;
+      }
+
+      status.remainingTurns--;
+      if (status.remainingTurns <= 0) {
+        combatant.statusEffects = combatant.statusEffects.filter(s => s !== status);
+        transitions.push(this.createTransition('status', combatant, {
+          targetId: combatant.id,
+          status: status.name,
+          content: `${combatant.name} is no longer ${definition?.label || `affected by ${status.name}`}`,
+        }));
+      }
+    }
+
+    return skipTurn;
+  }
+
+  private defeat(actor: CombatantState, target: CombatantState, transitions: BattleTransition[]): void {
+    target.isAlive = false;
+    target.statusEffects = [];
+
+    transitions.push(this.createTransition('status', actor, {
+      targetId: target.id,
+      status: 'defeated',
+      content: `${target.name} has been defeated`,
+    }));
+  }
+
+  private checkForWinner(): void {
+    const aliveTeams = new Set(
+      this.state.combatants.filter(c => c.isAlive).map(c => c.teamId)
+    );
+
+    if (aliveTeams.size === 1) {
+      this.finish(aliveTeams.values().next().value!);
+    } else if (aliveTeams.size === 0) {
+      this.finish(null);
+    }
+  }
+
+  private finish(winnerTeamId: string | null): void {
+    this.state.isFinished = true;
+    this.state.winnerTeamId = winnerTeamId;
+  }
+
+  // ===== ACTION SELECTION =====
+
+  private getUsableAbilities(actor: CombatantState): Array<{ skill: BattleSkill; ability: SkillAbility }> {
+    const usable: Array<{ skill: BattleSkill; ability: SkillAbility }> = [];
+
+    for (const skill of this.skillsByCombatant.get(actor.id) || []) {
+      if (actor.charges[skill.skillId] !== undefined && actor.charges[skill.skillId] <= 0) {
+        continue;
+      }
+
+      for (const ability of skill.summary.abilities) {
+        const onCooldown = (actor.cooldowns[this.getCooldownKey(skill.skillId, ability.id)] || 0) > 0;
+        const affordable = (ability.manaCost || 0) <= actor.mana;
+        if (!onCooldown && affordable) {
+          usable.push({ skill, ability });
+        }
+      }
+    }
+
+    return usable;
+  }
+
+  /**
+   * Default AI: heal the most wounded ally below half HP if possible,
+   * otherwise hit the weakest enemy with the strongest usable ability.
+   */
+  private selectDefaultAction(
+    actor: CombatantState,
+    usable: Array<{ skill: BattleSkill; ability: SkillAbility }>
+  ): BattleAction | null {
+    const allies = this.state.combatants.filter(c => c.isAlive && c.teamId === actor.teamId);
+    const enemies = this.state.combatants.filter(c => c.isAlive && c.teamId !== actor.teamId);
+    if (enemies.length === 0) return null;
+
+    const heals = usable.filter(u => u.ability.effects?.includes(HEAL_EFFECT));
+    const woundedAlly = allies
+      .filter(c => c.hp < c.stats.maxHp / 2)
+      .sort((a, b) => a.hp / a.stats.maxHp - b.hp / b.stats.maxHp)[0];
+
+    if (woundedAlly && heals.length > 0) {
+      return { skillId: heals[0].skill.skillId, abilityId: heals[0].ability.id, targetId: woundedAlly.id };
+    }
+
+    const weakestEnemy = [...enemies].sort((a, b) => a.hp - b.hp || a.id.localeCompare(b.id))[0];
+    const offensive = usable
+      .filter(u => !u.ability.effects?.includes(HEAL_EFFECT))
+      .sort((a, b) => (b.ability.damage || 0) - (a.ability.damage || 0));
+
+    if (offensive.length > 0) {
+      return { skillId: offensive[0].skill.skillId, abilityId: offensive[0].ability.id, targetId: weakestEnemy.id };
+    }
+
+    return { targetId: weakestEnemy.id };
+  }
+
+  // ===== SKILL USAGE =====
+
+  private recordSkillUsage(actor: CombatantState, skill: BattleSkill): void {
+    const recorder = this.config.skillUsage;
+    if (!recorder || !this.playerIds.has(actor.id)) return;
+
+    const battle = { battleId: this.state.battleId };
+    this.usageChain = this.usageChain
+      .then(() => recorder.markSkillAsUsed(actor.id, skill.skillId, battle))
+      .catch(error => {
+        console.warn('Failed to record skill usage:', error);
+      });
+  }
+
+  // ===== BATTLE LOG =====
+
+  private emitToBattleLog(transitions: BattleTransition[]): void {
+    const battleLog = this.config.battleLog;
+    if (!battleLog || transitions.length === 0) return;
+
+    // Chain writes so messages reach the log in resolution order
+    for (const transition of transitions) {
+      const message = this.toBattleMessage(transition);
+      this.logChain = this.logChain
+        .then(() => battleLog.enqueueMessage(this.state.battleId, message))
+        .then(() => undefined)
+        .catch(error => {
+          console.warn('Failed to write battle transition to log:', error);
+        });
+    }
+  }
+
+  private toBattleMessage(
+    transition: BattleTransition
+  ): Omit<BattleMessage, 'id' | 'timestamp' | 'clientTimestamp' | 'isRead'> {
+    const actor = this.getCombatant(transition.actorId);
+    return {
+      battleId: this.state.battleId,
+      senderId: actor.id,
+      senderName: actor.name,
+      content: transition.content,
+      type: transition.type,
+      metadata: { ...transition },
+    };
+  }
+
+  // ===== UTILITY METHODS =====
+
+  private createCombatantState(input: CombatantInput, teamId: string): CombatantState {
+    const cooldowns: Record<string, number> = {};
+    const charges: Record<string, number> = {};
+
+    for (const skill of input.skills) {
+      // Carry over out-of-battle cooldowns, converted to turns
+      if (!skill.isReady && skill.remainingCooldown) {
+        const turns = Math.ceil(skill.remainingCooldown / this.config.msPerTurn);
+        for (const ability of skill.summary.abilities) {
+          cooldowns[this.getCooldownKey(skill.skillId, ability.id)] = turns;
+        }
+      }
+      if (skill.remainingCharges !== undefined) {
+        charges[skill.skillId] = skill.remainingCharges;
+      }
+    }
+
+    return {
+      id: input.id,
+      name: input.name,
+      teamId,
+      stats: { ...input.stats },
+      hp: Math.min(input.hp ?? input.stats.maxHp, input.stats.maxHp),
+      mana: Math.min(input.mana ?? input.stats.maxMana, input.stats.maxMana),
+      isAlive: (input.hp ?? input.stats.maxHp) > 0,
+      statusEffects: [],
+      cooldowns,
+      charges,
+    };
+  }
+
+  /**
+   * Flat ability damage scaled by skill level (formulas use `level` directly instead)
+   */
+  private getLeveledDamage(ability: SkillAbility, engineData: SkillEngineData | undefined, skill: BattleSkill): number {
+    const level = skill.runtimeState?.level ?? 1;
+    return scaleDamageForLevel(ability.damage || 0, level, getLevelScaling(engineData));
+  }
+
+  private getCooldownTurns(ability: SkillAbility, engineData: SkillEngineData | undefined, skill: BattleSkill): number {
+    const baseCooldownMs = engineData?.cooldowns?.[ability.id] ?? ability.cooldown ?? 0;
+    const cooldownMs = scaleCooldownForLevel(baseCooldownMs, skill.runtimeState?.level ?? 1, getLevelScaling(engineData));
+    // +1 because the cooldown ticks down at the start of the caster's next turn
+    return cooldownMs > 0 ? Math.ceil(cooldownMs / this.config.msPerTurn) + 1 : 0;
+  }
+
+  private getCooldownKey(skillId: string, abilityId: string): string {
+    return `${skillId}:${abilityId}`;
+  }
+
+  private getCombatant(id: string): CombatantState {
+    const combatant = this.state.combatants.find(c => c.id === id);
+    if (!combatant) {
+      throw new Error(`Unknown combatant: ${id}`);
+    }
+    return combatant;
+  }
+
+  private createTransition(
+    type: BattleTransitionType,
+    actor: CombatantState,
+    details: Omit<BattleTransition, 'type' | 'round' | 'turn' | 'actorId'>
+  ): BattleTransition {
+    return {
+      type,
+      round: this.state.round,
+      turn: this.state.turn,
+      actorId: actor.id,
+      ...details,
+    };
+  }
+}
+
+export default BattleEngine;
@@ -0,0 +1,257 @@
+/**
+ * BattleLogQuery - Query Syntax for Battle-Log Search
+ *
+ * Parses the text typed into battle-log search and scores messages against it:
+ *   fireball                  term (all terms must match)
+ *   fire*                     prefix match
+ *   "critical hit"            phrase (consecutive words)
+ *   -miss  -"status effect"   negation
+ *   type:damage               message type (repeat for OR: type:damage type:heal)
+ *   sender:Rimuru             sender name or ID; sender:"Rimuru Tempest"
+ *   after:2024-05-01          ISO date, epoch ms, or relative: after:2h, before:30m
+ *   battle:<id>               restrict to a battle
+ * Filters can be negated too (-type:system). Unknown `field:` prefixes are
+ * searched as plain text; invalid filter values are reported in `issues`.
+ */
+
+import type { BattleMessage } from './UnifiedBattleLogSystem';
+
+// ===== CONFIGURATION =====
+
+const FIELD_BOOSTS = {
+  sender: 2,
+  content: 1,
+};
+
+const PREFIX_MATCH_FACTOR = 0.5; // Prefix hits score half of an exact hit
+const PHRASE_BOOST = 2; // A phrase hit outweighs its words matched separately
+const MIN_TOKEN_LENGTH = 2; // Shorter tokens are dropped unless they are numbers
+
+const MESSAGE_TYPES: ReadonlyArray<BattleMessage['type']> = ['system', 'player', 'action', 'damage', 'heal', 'status'];
+
+const RELATIVE_TIME_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// ===== INTERFACES =====
+
+export interface BattleLogQueryTerm {
+  value: string;
+  prefix: boolean;
+}
+
+export interface ParsedBattleLogQuery {
+  terms: BattleLogQueryTerm[];
+  phrases: string[][]; // Token sequences
+  excludedTerms: BattleLogQueryTerm[];
+  excludedPhrases: string[][];
+  types: string[];
+  excludedTypes: string[];
+  senders: string[];
+  excludedSenders: string[];
+  battleIds: string[];
+  excludedBattleIds: string[];
+  after?: number; // Exclusive, ms since epoch
+  before?: number; // Exclusive, ms since epoch
+  issues: string[];
+}
+
+// ===== TOKENIZER =====
+
+/**
+ * Lowercase, accent-free alphanumeric tokens. Used for both indexing and
+ * queries so the two always agree.
+ */
+export function tokenizeBattleLogText(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= MIN_TOKEN_LENGTH || /^[0-9]+$/.test(token));
+}
+
+// ===== PARSER =====
+
+// Optional "-", optional "field:", then a quoted string or a bare word
+const CLAUSE_PATTERN = /(-)?(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+export function parseBattleLogQuery(text: string, now: number = Date.now()): ParsedBattleLogQuery {
+  const query: ParsedBattleLogQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    types: [],
+    excludedTypes: [],
+    senders: [],
+    excludedSenders: [],
+    battleIds: [],
+    excludedBattleIds: [],
+    issues: [],
+  };
+
+  for (const match of text.matchAll(CLAUSE_PATTERN)) {
+    const [clause, negation, rawField, quoted, bare] = match;
+    const negated = negation === '-';
+    const value = quoted ?? bare ?? '';
+    const field = rawField?.toLowerCase();
+
+    switch (field) {
+      case 'type': {
+        const type = value.toLowerCase();
+        if (!MESSAGE_TYPES.includes(type as BattleMessage['type'])) {
+          query.issues.push(`Unknown message type "${value}" (expected ${MESSAGE_TYPES.join(', ')})`);
+        } else {
+          (negated ? query.excludedTypes : query.types).push(type);
+        }
+        break;
+      }
+      case 'sender':
+      case 'from':
+        if (value) (negated ? query.excludedSenders : query.senders).push(value);
+        break;
+      case 'battle':
+        if (value) (negated ? query.excludedBattleIds : query.battleIds).push(value);
+        break;
+      case 'after':
+      case 'before': {
+        const timestamp = parseTimeFilter(value, now);
+        if (timestamp === null) {
+          query.issues.push(`Invalid ${field} time "${value}"`);
+        } else if (negated) {
+          query.issues.push(`"${field}:" cannot be negated`);
+        } else if (field === 'after') {
+          query.after = Math.max(query.after ?? -Infinity, timestamp);
+        } else {
+          query.before = Math.min(query.before ?? Infinity, timestamp);
+        }
+        break;
+      }
+      default:
+        // Unknown fields are just text ("http://..." or "hp:10")
+        addTextClause(query, rawField ? clause.replace(/^-/, '') : value, negated, quoted !== undefined);
+    }
+  }
+
+  return query;
+}
+
+function addTextClause(query: ParsedBattleLogQuery, value: string, negated: boolean, isQuoted: boolean): void {
+  const prefix = !isQuoted && value.endsWith('*');
+  const tokens = tokenizeBattleLogText(value);
+  if (tokens.length === 0) return;
+
+  if (isQuoted || tokens.length > 1) {
+    // "fire-ball" is the phrase [fire, ball], like a quoted one
+    (negated ? query.excludedPhrases : query.phrases).push(tokens);
+  } else {
+    (negated ? query.excludedTerms : query.terms).push({ value: tokens[0], prefix });
+  }
+}
+
+/**
+ * Epoch ms, ISO date, or a relative duration ("30m" = 30 minutes ago)
+ */
+function parseTimeFilter(value: string, now: number): number | null {
+  if (/^[0-9]+$/.test(value)) return Number(value);
+
+  const relative = /^([0-9]+)([smhd])$/i.exec(value);
+  if (relative) {
+    return now - Number(relative[1]) * RELATIVE_TIME_UNITS[relative[2].toLowerCase()];
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// ===== MATCHING =====
+
+/**
+ * True when the query has nothing to match on
+ */
+export function isEmptyBattleLogQuery(query: ParsedBattleLogQuery): boolean {
+  return query.terms.length === 0
+    && query.phrases.length === 0
+    && query.excludedTerms.length === 0
+    && query.excludedPhrases.length === 0
+    && query.types.length === 0
+    && query.excludedTypes.length === 0
+    && query.senders.length === 0
+    && query.excludedSenders.length === 0
+    && query.battleIds.length === 0
+    && query.excludedBattleIds.length === 0
+    && query.after === undefined
+    && query.before === undefined;
+}
+
+export function matchesBattleFilter(query: ParsedBattleLogQuery, battleId: string): boolean {
+  if (query.battleIds.length > 0 && !query.battleIds.includes(battleId)) return false;
+  return !query.excludedBattleIds.includes(battleId);
+}
+
+/**
+ * Relevance of a message for the query, or null if it does not match.
+ * Queries made only of filters score every match 1.
+ */
+export function scoreBattleMessage(query: ParsedBattleLogQuery, message: BattleMessage): number | null {
+  if (!matchesBattleFilter(query, message.battleId)) return null;
+  if (query.types.length > 0 && !query.types.includes(message.type)) return null;
+  if (query.excludedTypes.includes(message.type)) return null;
+  if (query.senders.length > 0 && !query.senders.some(sender => isSender(message, sender))) return null;
+  if (query.excludedSenders.some(sender => isSender(message, sender))) return null;
+  if (query.after !== undefined && !(message.timestamp > query.after)) return null;
+  if (query.before !== undefined && !(message.timestamp < query.before)) return null;
+
+  const fields: Array<{ tokens: string[]; boost: number }> = [
+    { tokens: tokenizeBattleLogText(message.senderName), boost: FIELD_BOOSTS.sender },
+    { tokens: tokenizeBattleLogText(message.content), boost: FIELD_BOOSTS.content },
+  ];
+
+  if (query.excludedTerms.some(term => fields.some(field => termScore(term, field.tokens) > 0))) return null;
+  if (query.excludedPhrases.some(phrase => fields.some(field => containsPhrase(field.tokens, phrase)))) return null;
+
+  let score = 0;
+
+  for (const term of query.terms) {
+    let best = 0;
+    for (const field of fields) {
+      best = Math.max(best, termScore(term, field.tokens) * field.boost);
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  for (const phrase of query.phrases) {
+    let best = 0;
+    for (const field of fields) {
+      if (containsPhrase(field.tokens, phrase)) best = Math.max(best, PHRASE_BOOST * field.boost);
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return query.terms.length + query.phrases.length > 0 ? score : 1;
+}
+
+function isSender(message: BattleMessage, sender: string): boolean {
+  if (message.senderId === sender) return true;
+  return tokenizeBattleLogText(message.senderName).join(' ') === tokenizeBattleLogText(sender).join(' ');
+}
+
+function termScore(term: BattleLogQueryTerm, tokens: string[]): number {
+  if (tokens.includes(term.value)) return 1;
+  if (term.prefix && tokens.some(token => token.startsWith(term.value))) return PREFIX_MATCH_FACTOR;
+  return 0;
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    if (phrase.every((token, offset) => tokens[start + offset] === token)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,171 @@
+/**
+ * BattleLogTransport - Server Delivery for Battle-Log Messages
+ *
+ * UnifiedBattleLogSystem owns the outbox (batching, ack timeouts, retries,
+ * ordering); a transport only moves messages and acks:
+ * - send(messages) pushes a batch to the server, throwing if it cannot
+ * - acks come back with the server-assigned `serverSeq` / `serverTimestamp`
+ * - connection changes let the outbox resend once the link is back
+ *
+ * WebSocketBattleLogTransport is the production implementation. Wire format:
+ *   client → { type: 'battle_messages', messageId, timestamp, data: { messages } }
+ *   server → { type: 'battle_ack', data: { acks: BattleMessageAck[] } }
+ */
+
+import type { BattleMessage } from './UnifiedBattleLogSystem';
+import { EventEmitter } from './EventEmitter';
+
+// ===== INTERFACES =====
+
+export interface BattleMessageAck {
+  messageId: string;
+  success: boolean;
+  serverSeq?: number; // Position in the battle's server-side order
+  serverTimestamp?: number;
+  error?: string;
+}
+
+export interface BattleLogTransport {
+  isConnected(): boolean;
+  send(messages: BattleMessage[]): void;
+  onAcks(handler: (acks: BattleMessageAck[]) => void): () => void;
+  onConnectionChange(handler: (connected: boolean) => void): () => void;
+}
+
+export interface BattleLogTransportConfig {
+  url: string;
+  reconnectInterval: number;
+  maxReconnectAttempts: number;
+}
+
+const DEFAULT_CONFIG: BattleLogTransportConfig = {
+  url: 'ws://localhost:8080/battle-log',
+  reconnectInterval: 3000,
+  maxReconnectAttempts: 10,
+};
+
+// ===== WEBSOCKET TRANSPORT =====
+
+export class WebSocketBattleLogTransport extends EventEmitter implements BattleLogTransport {
+  private config: BattleLogTransportConfig;
+  private ws?: WebSocket;
+  private connected = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closedByClient = false;
+  private batchCounter = 0;
+
+  constructor(config: Partial<BattleLogTransportConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ===== CONNECTION MANAGEMENT =====
+
+  connect(): void {
+    if (this.ws) return;
+    this.closedByClient = false;
+
+    try {
+      this.ws = new WebSocket(this.config.url);
+      this.ws.onopen = this.handleOpen.bind(this);
+      this.ws.onmessage = this.handleMessage.bind(this);
+      this.ws.onclose = this.handleClose.bind(this);
+      this.ws.onerror = (error: any) => this.emit('error', error);
+    } catch (error) {
+      this.ws = undefined;
+      this.emit('error', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  disconnect(): void {
+    this.closedByClient = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = undefined;
+    }
+    this.setConnected(false);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private handleOpen(): void {
+    this.reconnectAttempts = 0;
+    this.setConnected(true);
+    console.log('🔌 Battle log transport connected');
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    try {
+      const message = JSON.parse(event.data);
+      if (message?.type === 'battle_ack') {
+        const acks: BattleMessageAck[] = Array.isArray(message.data?.acks) ? message.data.acks : [message.data];
+        this.emit('acks', acks.filter(ack => ack && typeof ack.messageId === 'string'));
+      }
+    } catch (error) {
+      console.error('❌ Error parsing battle log transport message:', error);
+      this.emit('error', error);
+    }
+  }
+
+  private handleClose(): void {
+    this.ws = undefined;
+    this.setConnected(false);
+    if (!this.closedByClient) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+    if (this.reconnectAttempts >= this.config.maxReconnectAttempts) {
+      console.error('❌ Battle log transport: max reconnection attempts reached');
+      this.emit('maxReconnectAttemptsReached');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, this.config.reconnectInterval);
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.emit('connectionChange', connected);
+  }
+
+  // ===== BattleLogTransport =====
+
+  send(messages: BattleMessage[]): void {
+    if (!this.ws || !this.connected) {
+      throw new Error('Battle log transport is not connected');
+    }
+
+    this.ws.send(JSON.stringify({
+      type: 'battle_messages',
+      messageId: `battle_batch_${Date.now()}_${++this.batchCounter}`,
+      timestamp: new Date().toISOString(),
+      data: { messages },
+    }));
+  }
+
+  onAcks(handler: (acks: BattleMessageAck[]) => void): () => void {
+    this.on('acks', handler);
+    return () => this.off('acks', handler);
+  }
+
+  onConnectionChange(handler: (connected: boolean) => void): () => void {
+    this.on('connectionChange', handler);
+    return () => this.off('connectionChange', handler);
+  }
+}
@@ -10,6 +10,8 @@
  * - Lightweight UI rendering with FlatList support
  * - Battle-specific fetch that merges with SkillsDB full engine data
  * - Resolve skill names/descriptions via SkillsDB
+ * - Offline-first: mutations are applied locally, logged as operations and
+ *   reconciled with Supabase (three-way merge + conflict events) when online
  * 
  * Key Concepts:
  * - SkillsDB = Knowledge Base (authoritative skill templates)
@@ -17,8 +19,18 @@
  * - Player pulls skills from SkillsDB based on ownership tag (UUID)
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { skillsDB, SkillSummary, Skill } from './SkillsDB';
+import { supabase } from '../lib/supabase';
+import { EventEmitter } from './EventEmitter';
+import { KeyedTaskQueue } from './KeyedTaskQueue';
+import { asyncStorageStore, type KeyValueStore } from './KeyValueStore';
+import { skillsDB, SkillSummary, Skill, SkillEngineData } from './SkillsDB';
+import {
+  StorageMigration,
+  StorageMigrationRunner,
+  StorageMigrationOptions,
+  StorageMigrationReport,
+  parseStoredJSON,
+} from './StorageMigrations';
 
 // Runtime State Interfaces
 export interface PlayerSkillState {
@@ -31,6 +43,7 @@ export interface PlayerSkillState {
   customizations?: Record<string, any>; // Player-specific customizations
   cooldownEndTime?: number; // Runtime cooldown state
   charges?: number; // Runtime charges/uses remaining
+  rechargeStartTime?: number; // When the next charge started regenerating (charge-based skills)
 }
 
 export interface PlayerSkillInventory {
@@ -38,9 +51,106 @@ export interface PlayerSkillInventory {
   skillStates: PlayerSkillState[];
   lastUpdated: string;
   totalSkills: number;
-  version: number; // For conflict resolution
+  version: number; // Local version, bumped on every write (monotonic)
 }
 
+/**
+ * Charge model read from SkillEngineData.charges (`maxCharges`, `rechargeInterval` in ms)
+ */
+export interface SkillChargeConfig {
+  maxCharges: number;
+  rechargeInterval: number;
+}
+
+export interface SkillUsageEvent {
+  playerUUID: string;
+  skillId: string;
+  battleId?: string; // Set when the skill was used in a battle
+  experience?: number; // XP override for this use
+}
+
+// Offline Sync Interfaces
+export interface SkillStateOperation {
+  opId: string;
+  playerUUID: string;
+  type: 'add' | 'update' | 'remove';
+  skillId: string;
+  payload?: Partial<PlayerSkillState>; // Full state for 'add', changed fields for 'update'
+  version: number; // Inventory version produced by this operation
+  timestamp: string;
+}
+
+export interface SkillSyncState {
+  serverVersion: number; // Server row version at the last successful sync
+  syncedVersion: number; // Local inventory version at the last successful sync
+  states: PlayerSkillState[]; // Common ancestor for the three-way merge
+  lastSyncedAt: string;
+}
+
+export interface SkillStateConflict {
+  playerUUID: string;
+  skillId: string;
+  field: keyof PlayerSkillState | 'membership';
+  localValue: any;
+  serverValue: any;
+  resolvedValue: any;
+}
+
+export interface SkillSyncResult {
+  playerUUID: string;
+  status: 'up_to_date' | 'pushed' | 'pulled' | 'merged' | 'failed';
+  serverVersion?: number;
+  conflicts: SkillStateConflict[];
+  syncedOperations: number;
+  error?: string;
+}
+
+/**
+ * Resolves a field that changed both locally and on the server
+ */
+export type SkillStateMergeRule = (
+  localValue: any,
+  serverValue: any,
+  local: PlayerSkillState,
+  server: PlayerSkillState
+) => any;
+
+export interface SkillSyncConfig {
+  enabled: boolean; // Push/pull automatically after local operations
+  tableName: string;
+  debounceMs: number;
+  maxAttempts: number; // Retries when another device wrote in between
+}
+
+const maxOf = (a: any, b: any) => (a ?? -Infinity) >= (b ?? -Infinity) ? a : b;
+const latestDate = (a?: string, b?: string) => (!a ? b : !b ? a : (a >= b ? a : b));
+const earliestDate = (a?: string, b?: string) => (!a ? b : !b ? a : (a <= b ? a : b));
+const lastUsedSide = (localValue: any, serverValue: any, local: PlayerSkillState, server: PlayerSkillState) =>
+  (local.lastUsed || '') >= (server.lastUsed || '') ? localValue : serverValue;
+
+/**
+ * Default merge policy - progress is never lost, the latest cooldown wins,
+ * anything else follows the side that used the skill most recently.
+ */
+export const DEFAULT_MERGE_POLICY: Record<string, SkillStateMergeRule> = {
+  level: maxOf,
+  experience: maxOf,
+  cooldownEndTime: maxOf,
+  lastUsed: latestDate,
+  acquiredAt: earliestDate,
+  charges: lastUsedSide,
+  rechargeStartTime: lastUsedSide,
+  isActive: lastUsedSide,
+  customizations: lastUsedSide,
+};
+
+const DEFAULT_SYNC_CONFIG: SkillSyncConfig = {
+  enabled: true,
+  tableName: 'PlayerSkillStateDB',
+  debounceMs: 1000,
+  maxAttempts: 3,
+};
+
 // UI Rendering Interfaces
 export interface SkillDisplayItem {
   skillId: string;
@@ -58,6 +168,26 @@ export interface SkillDisplayItem {
   displayName?: string; // Custom display name if set
 }
 
+export type SkillDisplaySortKey = 'rarity' | 'level' | 'lastUsed';
+
+export interface SkillDisplayQuery {
+  category?: string;
+  isActive?: boolean;
+  rarity?: SkillDisplayItem['rarity'] | SkillDisplayItem['rarity'][];
+  sortBy?: SkillDisplaySortKey; // Inventory order when omitted
+  sortDirection?: 'asc' | 'desc'; // Defaults to 'desc' (rarest / highest / most recent first)
+  offset?: number;
+  limit?: number; // All remaining items when omitted
+}
+
+export interface SkillDisplayPage {
+  items: SkillDisplayItem[];
+  total: number; // Matching items before pagination
+  offset: number;
+  hasMore: boolean;
+  nextOffset: number | null; // Pass as `offset` to fetch the next page
+}
+
 // Battle Interface
 export interface BattleSkill {
   skillId: string;
@@ -69,9 +199,109 @@ export interface BattleSkill {
   remainingCharges?: number;
 }
 
+const RARITY_ORDER: Record<SkillDisplayItem['rarity'], number> = {
+  common: 0,
+  uncommon: 1,
+  rare: 2,
+  epic: 3,
+  legendary: 4,
+};
+
+const STORAGE_KEY_PREFIX = 'player_skills_index_';
+const INVENTORY_KEY_PREFIX = 'player_inventory_';
+const OPLOG_KEY_PREFIX = 'player_skill_oplog_';
+const SYNC_STATE_KEY_PREFIX = 'player_skill_sync_';
+
+// ===== SCHEMA MIGRATIONS =====
+
+/**
+ * Numbered migrations for player_inventory_* / player_skills_index_* keys.
+ * Append new entries; never edit one that has shipped.
+ */
+const CLIENTSIDE_SKILL_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Normalize inventories, map legacy PlayerSkill ids, rebuild skill indexes',
+    up: async storage => {
+      const inventoryKeys = (await storage.getAllKeys()).filter(key => key.startsWith(INVENTORY_KEY_PREFIX));
+
+      for (const key of inventoryKeys) {
+        const inventory = parseStoredJSON(await storage.getItem(key));
+        if (!inventory) continue; // Unreadable - leave it untouched
+
+        const playerUUID = key.slice(INVENTORY_KEY_PREFIX.length);
+        const lastUpdated = inventory.lastUpdated || new Date().toISOString();
+        const rawStates: any[] = Array.isArray(inventory.skillStates)
+          ? inventory.skillStates
+          : Array.isArray(inventory.skills) ? inventory.skills : [];
+
+        const seen = new Set<string>();
+        const skillStates: PlayerSkillState[] = [];
+        for (const raw of rawStates) {
+          // Legacy PlayerSkill rows used `id` instead of `skillId`
+          const skillId = raw?.skillId || raw?.id;
+          if (typeof skillId !== 'string' || seen.has(skillId)) continue;
+          seen.add(skillId);
+
+          const level = Number(raw.level);
+          const experience = Number(raw.experience);
+          skillStates.push({
+            skillId,
+            level: Number.isFinite(level) && level >= 1 ? Math.floor(level) : 1,
+            experience: Number.isFinite(experience) && experience >= 0 ? experience : 0,
+            isActive: raw.isActive !== false,
+            lastUsed: raw.lastUsed,
+            acquiredAt: raw.acquiredAt || lastUpdated,
+            customizations: raw.customizations,
+            cooldownEndTime: raw.cooldownEndTime,
+            charges: raw.charges,
+          });
+        }
+
+        const version = Number(inventory.version);
+        const normalized: PlayerSkillInventory = {
+          playerUUID,
+          skillStates,
+          lastUpdated,
+          totalSkills: skillStates.length,
+          version: Number.isInteger(version) && version >= 1 ? version : 1,
+        };
+
+        await storage.setItem(key, JSON.stringify(normalized));
+        await storage.setItem(
+          `${STORAGE_KEY_PREFIX}${playerUUID}`,
+          JSON.stringify(skillStates.map(state => state.skillId))
+        );
+      }
+    },
+  },
+];
+
+const createSchemaMigrations = (storage: KeyValueStore) =>
+  new StorageMigrationRunner('clientside_skill_storage', CLIENTSIDE_SKILL_MIGRATIONS, storage);
+
 export class ClientsideSkillStorage {
-  private static readonly STORAGE_KEY_PREFIX = 'player_skills_index_';
-  private static readonly INVENTORY_KEY_PREFIX = 'player_inventory_';
+  private static readonly STORAGE_KEY_PREFIX = STORAGE_KEY_PREFIX;
+  private static readonly INVENTORY_KEY_PREFIX = INVENTORY_KEY_PREFIX;
+
+  // Persistence backend (swap with configureStorage)
+  private static storage: KeyValueStore = asyncStorageStore;
+  private static schemaMigrations = createSchemaMigrations(asyncStorageStore);
+
+  // Offline sync
+  private static emitter = new EventEmitter();
+  private static playerLocks = new KeyedTaskQueue();
+  private static syncTimers = new Map<string, NodeJS.Timeout>();
+  private static syncConfig: SkillSyncConfig = { ...DEFAULT_SYNC_CONFIG };
+  private static mergePolicy: Record<string, SkillStateMergeRule> = { ...DEFAULT_MERGE_POLICY };
+  private static opCounter = 0;
+
+  // Memoized display items per player (dropped on writes and SkillsDB changes)
+  private static displayProjections = new Map<string, {
+    items: Promise<SkillDisplayItem[]>;
+    skillIds?: Set<string>;
+  }>();
+  private static isWatchingSkillsDB = false;
   
   /**
    * Get storage key for player skill index
@@ -87,6 +317,20 @@ export class ClientsideSkillStorage {
     return `${this.INVENTORY_KEY_PREFIX}${playerUUID}`;
   }
 
+  /**
+   * Make sure stored data matches the current schema before touching it
+   */
+  private static async ensureSchema(): Promise<void> {
+    await this.schemaMigrations.ensureMigrated();
+  }
+
+  /**
+   * Run pending schema migrations (dryRun reports changes without writing)
+   */
+  static async runSchemaMigrations(options: StorageMigrationOptions = {}): Promise<StorageMigrationReport> {
+    return options.dryRun ? this.schemaMigrations.migrate(options) : this.schemaMigrations.ensureMigrated();
+  }
+
   // ===== CORE INVENTORY MANAGEMENT =====
 
   /**
@@ -97,35 +341,48 @@ export class ClientsideSkillStorage {
     skillStates: PlayerSkillState[]
   ): Promise<void> {
     try {
-      const inventory: PlayerSkillInventory = {
-        playerUUID,
-        skillStates,
-        lastUpdated: new Date().toISOString(),
-        totalSkills: skillStates.length,
-        version: 1,
-      };
-
-      const inventoryKey = this.getInventoryStorageKey(playerUUID);
-      await AsyncStorage.setItem(inventoryKey, JSON.stringify(inventory));
-
-      // Update skill index for fast lookups
-      const skillIds = skillStates.map(state => state.skillId);
-      await this.updateSkillIndex(playerUUID, skillIds);
-      
+      await this.ensureSchema();
+      await this.withPlayerLock(playerUUID, () => this.writeInventory(playerUUID, skillStates));
       console.log(`✅ Stored ${skillStates.length} skill states for player ${playerUUID}`);
+      this.scheduleSync(playerUUID);
     } catch (error) {
       console.error('❌ Error storing player skill states:', error);
       throw new Error('Failed to store player skill states');
     }
   }
 
+  /**
+   * Write the inventory with the next local version; returns that version
+   */
+  private static async writeInventory(playerUUID: string, skillStates: PlayerSkillState[]): Promise<number> {
+    const current = await this.getPlayerInventory(playerUUID);
+    const inventory: PlayerSkillInventory = {
+      playerUUID,
+      skillStates,
+      lastUpdated: new Date().toISOString(),
+      totalSkills: skillStates.length,
+      version: (current?.version || 0) + 1,
+    };
+
+    const inventoryKey = this.getInventoryStorageKey(playerUUID);
+    await this.storage.setItem(inventoryKey, JSON.stringify(inventory));
+    this.invalidateDisplayItems(playerUUID);
+
+    // Update skill index for fast lookups
+    const skillIds = skillStates.map(state => state.skillId);
+    await this.updateSkillIndex(playerUUID, skillIds);
+
+    return inventory.version;
+  }
+
   /**
    * Get player skill states (runtime data only)
    */
   static async getPlayerSkillStates(playerUUID: string): Promise<PlayerSkillState[]> {
     try {
+      await this.ensureSchema();
       const inventoryKey = this.getInventoryStorageKey(playerUUID);
-      const storedData = await AsyncStorage.getItem(inventoryKey);
+      const storedData = await this.storage.getItem(inventoryKey);
       
       if (!storedData) {
         return [];
@@ -144,8 +401,9 @@ export class ClientsideSkillStorage {
    */
   static async getPlayerInventory(playerUUID: string): Promise<PlayerSkillInventory | null> {
     try {
+      await this.ensureSchema();
       const inventoryKey = this.getInventoryStorageKey(playerUUID);
-      const storedData = await AsyncStorage.getItem(inventoryKey);
+      const storedData = await this.storage.getItem(inventoryKey);
       
       if (!storedData) {
         return null;
@@ -166,7 +424,7 @@ export class ClientsideSkillStorage {
   private static async updateSkillIndex(playerUUID: string, skillIds: string[]): Promise<void> {
     try {
       const indexKey = this.getIndexStorageKey(playerUUID);
-      await AsyncStorage.setItem(indexKey, JSON.stringify(skillIds));
+      await this.storage.setItem(indexKey, JSON.stringify(skillIds));
     } catch (error) {
       console.error('❌ Error updating skill index:', error);
     }
@@ -177,8 +435,9 @@ export class ClientsideSkillStorage {
    */
   static async getPlayerSkillIndex(playerUUID: string): Promise<string[]> {
     try {
+      await this.ensureSchema();
       const indexKey = this.getIndexStorageKey(playerUUID);
-      const storedData = await AsyncStorage.getItem(indexKey);
+      const storedData = await this.storage.getItem(indexKey);
       
       if (!storedData) {
         return [];
@@ -194,58 +453,51 @@ export class ClientsideSkillStorage {
   // ===== LIGHTWEIGHT UI RENDERING =====
 
   /**
-   * Get skill display items for UI rendering (optimized for FlatList)
-   * Only fetches skill.name, ability.name, ability.description from SkillsDB
+   * Get skill display items for UI rendering (optimized for FlatList).
+   * Served from a memoized projection; pass a query to filter, sort and page.
    */
-  static async getSkillDisplayItems(playerUUID: string): Promise<SkillDisplayItem[]> {
-    try {
-      const skillStates = await this.getPlayerSkillStates(playerUUID);
-      const displayItems: SkillDisplayItem[] = [];
+  static async getSkillDisplayItems(playerUUID: string, query: SkillDisplayQuery = {}): Promise<SkillDisplayItem[]> {
+    const page = await this.querySkillDisplayItems(playerUUID, query);
+    return page.items;
+  }
 
-      for (const state of skillStates) {
-        // Fetch only summary from SkillsDB (lightweight)
-        const skillSummary = await skillsDB.getSkillSummary(state.skillId);
-        
-        if (skillSummary) {
-          const displayItem: SkillDisplayItem = {
-            skillId: state.skillId,
-            name: skillSummary.name,
-            description: skillSummary.description,
-            category: skillSummary.category,
-            rarity: skillSummary.rarity,
-            level: state.level,
-            experience: state.experience,
-            isActive: state.isActive,
-            lastUsed: state.lastUsed,
-            acquiredAt: state.acquiredAt,
-            isLoaded: true,
-            displayName: state.customizations?.displayName,
-          };
-          displayItems.push(displayItem);
-        } else {
-          // Skill not found in SkillsDB - mark as not loaded
-          const displayItem: SkillDisplayItem = {
-            skillId: state.skillId,
-            name: 'Unknown Skill',
-            description: 'Skill data not available',
-            category: 'unknown',
-            rarity: 'common',
-            level: state.level,
-            experience: state.experience,
-            isActive: state.isActive,
-            lastUsed: state.lastUsed,
-            acquiredAt: state.acquiredAt,
-            isLoaded: false,
-          };
-          displayItems.push(displayItem);
-        }
-      }
+  /**
+   * Filter, sort and paginate a player's display items
+   */
+  static async querySkillDisplayItems(playerUUID: string, query: SkillDisplayQuery = {}): Promise<SkillDisplayPage> {
+    const allItems = await this.getDisplayProjection(playerUUID);
+    const rarities = query.rarity === undefined
+      ? null
+      : new Set(Array.isArray(query.rarity) ? query.rarity : [query.rarity]);
 
-      return displayItems;
-    } catch (error) {
-      console.error('❌ Error getting skill display items:', error);
-      return [];
+    const matching = allItems.filter(item =>
+      (query.category === undefined || item.category === query.category) &&
+      (query.isActive === undefined || item.isActive === query.isActive) &&
+      (!rarities || rarities.has(item.rarity))
+    );
+
+    if (query.sortBy) {
+      const direction = query.sortDirection === 'asc' ? 1 : -1;
+      const sortKey = query.sortBy;
+      matching.sort((a, b) =>
+        direction * this.compareDisplayItems(a, b, sortKey) ||
+        a.name.localeCompare(b.name) ||
+        a.skillId.localeCompare(b.skillId)
+      );
     }
+
+    const offset = Math.max(0, Math.floor(query.offset || 0));
+    const end = query.limit !== undefined ? offset + Math.max(0, Math.floor(query.limit)) : matching.length;
+    const items = matching.slice(offset, end);
+    const hasMore = end < matching.length;
+
+    return {
+      items,
+      total: matching.length,
+      offset,
+      hasMore,
+      nextOffset: hasMore ? end : null,
+    };
   }
 
   /**
@@ -255,16 +507,130 @@ export class ClientsideSkillStorage {
     playerUUID: string, 
     category: string
   ): Promise<SkillDisplayItem[]> {
-    const allItems = await this.getSkillDisplayItems(playerUUID);
-    return allItems.filter(item => item.category === category);
+    return this.getSkillDisplayItems(playerUUID, { category });
   }
 
   /**
    * Get active skill display items only
    */
   static async getActiveSkillDisplayItems(playerUUID: string): Promise<SkillDisplayItem[]> {
-    const allItems = await this.getSkillDisplayItems(playerUUID);
-    return allItems.filter(item => item.isActive);
+    return this.getSkillDisplayItems(playerUUID, { isActive: true });
+  }
+
+  /**
+   * Drop the memoized display items for a player (or everyone)
+   */
+  static invalidateDisplayItems(playerUUID?: string): void {
+    if (playerUUID) {
+      this.displayProjections.delete(playerUUID);
+    } else {
+      this.displayProjections.clear();
+    }
+  }
+
+  /**
+   * Memoized projection of inventory + SkillsDB summaries, built with one batched lookup
+   */
+  private static getDisplayProjection(playerUUID: string): Promise<SkillDisplayItem[]> {
+    this.watchSkillsDB();
+
+    const cached = this.displayProjections.get(playerUUID);
+    if (cached) return cached.items;
+
+    const entry: { items: Promise<SkillDisplayItem[]>; skillIds?: Set<string> } = {
+      items: this.buildDisplayItems(playerUUID),
+    };
+    this.displayProjections.set(playerUUID, entry);
+
+    entry.items
+      .then(items => {
+        entry.skillIds = new Set(items.map(item => item.skillId));
+      })
+      .catch(() => {
+        if (this.displayProjections.get(playerUUID) === entry) {
+          this.displayProjections.delete(playerUUID);
+        }
+      });
+
+    return entry.items.catch(error => {
+      console.error('❌ Error getting skill display items:', error);
+      return [];
+    });
+  }
+
+  private static async buildDisplayItems(playerUUID: string): Promise<SkillDisplayItem[]> {
+    const skillStates = await this.getPlayerSkillStates(playerUUID);
+    const summaries = await skillsDB.getSkillSummaries(skillStates.map(state => state.skillId));
+
+    return skillStates.map(state => {
+      const skillSummary = summaries.get(state.skillId);
+
+      if (!skillSummary) {
+        // Skill not found in SkillsDB - mark as not loaded
+        return {
+          skillId: state.skillId,
+          name: 'Unknown Skill',
+          description: 'Skill data not available',
+          category: 'unknown',
+          rarity: 'common',
+          level: state.level,
+          experience: state.experience,
+          isActive: state.isActive,
+          lastUsed: state.lastUsed,
+          acquiredAt: state.acquiredAt,
+          isLoaded: false,
+        };
+      }
+
+      return {
+        skillId: state.skillId,
+        name: skillSummary.name,
+        description: skillSummary.description,
+        category: skillSummary.category,
+        rarity: skillSummary.rarity,
+        level: state.level,
+        experience: state.experience,
+        isActive: state.isActive,
+        lastUsed: state.lastUsed,
+        acquiredAt: state.acquiredAt,
+        isLoaded: true,
+        displayName: state.customizations?.displayName,
+      };
+    });
+  }
+
+  /**
+   * Invalidate projections that show a skill whenever SkillsDB changes it
+   */
+  private static watchSkillsDB(): void {
+    if (this.isWatchingSkillsDB) return;
+    this.isWatchingSkillsDB = true;
+
+    const invalidateSkill = (skillId: string) => {
+      for (const [playerUUID, entry] of this.displayProjections) {
+        // Still building - we can't tell which skills it covers
+        if (!entry.skillIds || entry.skillIds.has(skillId)) {
+          this.displayProjections.delete(playerUUID);
+        }
+      }
+    };
+
+    skillsDB.on('skillCreated', (event: { summary: SkillSummary }) => invalidateSkill(event.summary.id));
+    skillsDB.on('skillUpdated', (event: { summary: SkillSummary }) => invalidateSkill(event.summary.id));
+    skillsDB.on('skillDeleted', (skillId: string) => invalidateSkill(skillId));
+    skillsDB.on('cacheCleared', () => this.invalidateDisplayItems());
+  }
+
+  private static compareDisplayItems(a: SkillDisplayItem, b: SkillDisplayItem, sortBy: SkillDisplaySortKey): number {
+    switch (sortBy) {
+      case 'rarity':
+        return RARITY_ORDER[a.rarity] - RARITY_ORDER[b.rarity];
+      case 'level':
+        return a.level - b.level;
+      case 'lastUsed':
+        // Never-used skills sort as the oldest
+        return (a.lastUsed || '').localeCompare(b.lastUsed || '');
+    }
   }
 
   // ===== BATTLE-SPECIFIC METHODS =====
@@ -292,8 +658,12 @@ export class ClientsideSkillStorage {
         return null;
       }
 
-      // Calculate battle readiness
+      // Calculate battle readiness (charges regenerate while stored)
       const now = Date.now();
+      Object.assign(
+        runtimeState,
+        this.regenerateCharges(runtimeState, this.getChargeConfig(fullSkill.engineData), now)
+      );
       const isReady = this.isSkillReadyForBattle(runtimeState, now);
       const remainingCooldown = this.getRemainingCooldown(runtimeState, now);
       const remainingCharges = this.getRemainingCharges(runtimeState);
@@ -346,16 +716,13 @@ export class ClientsideSkillStorage {
    */
   static async addSkillState(playerUUID: string, skillState: PlayerSkillState): Promise<void> {
     try {
-      const currentStates = await this.getPlayerSkillStates(playerUUID);
-      
-      // Check if skill already exists
-      const existingIndex = currentStates.findIndex(state => state.skillId === skillState.skillId);
-      if (existingIndex >= 0) {
-        throw new Error('Skill already exists in player inventory');
-      }
-
-      const updatedStates = [...currentStates, skillState];
-      await this.storePlayerSkillStates(playerUUID, updatedStates);
+      await this.applyOperation(playerUUID, 'add', skillState.skillId, skillState, currentStates => {
+        // Check if skill already exists
+        if (currentStates.some(state => state.skillId === skillState.skillId)) {
+          throw new Error('Skill already exists in player inventory');
+        }
+        return [...currentStates, skillState];
+      });
       
       console.log(`✅ Added skill state for "${skillState.skillId}" to player ${playerUUID}`);
     } catch (error) {
@@ -364,6 +731,31 @@ export class ClientsideSkillStorage {
     }
   }
 
+  /**
+   * Add skill states in one write; states whose skillId is already in the
+   * inventory are skipped. Returns the states that were added.
+   */
+  static async addSkillStates(playerUUID: string, skillStates: PlayerSkillState[]): Promise<PlayerSkillState[]> {
+    const added: PlayerSkillState[] = [];
+    await this.applyOperations(playerUUID, currentStates => {
+      const known = new Set(currentStates.map(state => state.skillId));
+      for (const skillState of skillStates) {
+        if (known.has(skillState.skillId)) continue;
+        known.add(skillState.skillId);
+        added.push(skillState);
+      }
+      return {
+        states: [...currentStates, ...added],
+        changes: added.map(state => ({ type: 'add' as const, skillId: state.skillId, payload: state })),
+      };
+    });
+
+    if (added.length > 0) {
+      console.log(`✅ Added ${added.length} skill states to player ${playerUUID}`);
+    }
+    return added;
+  }
+
   /**
    * Update an existing skill state
    */
@@ -373,12 +765,11 @@ export class ClientsideSkillStorage {
     updates: Partial<PlayerSkillState>
   ): Promise<void> {
     try {
-      const currentStates = await this.getPlayerSkillStates(playerUUID);
-      const updatedStates = currentStates.map(state => 
-        state.skillId === skillId ? { ...state, ...updates } : state
+      await this.applyOperation(playerUUID, 'update', skillId, updates, currentStates =>
+        currentStates.map(state => 
+          state.skillId === skillId ? { ...state, ...updates, skillId } : state
+        )
       );
-      
-      await this.storePlayerSkillStates(playerUUID, updatedStates);
       console.log(`✅ Updated skill state ${skillId} for player ${playerUUID}`);
     } catch (error) {
       console.error('❌ Error updating skill state:', error);
@@ -386,15 +777,44 @@ export class ClientsideSkillStorage {
     }
   }
 
+  /**
+   * Read-modify-write one skill state under the player lock: `update` gets the
+   * current state and returns the fields to change. Returns the state before
+   * and after; throws if the player doesn't have the skill.
+   */
+  static async updateSkillStateWith(
+    playerUUID: string,
+    skillId: string,
+    update: (state: PlayerSkillState) => Partial<PlayerSkillState>
+  ): Promise<{ previous: PlayerSkillState; current: PlayerSkillState }> {
+    let previous: PlayerSkillState | undefined;
+    let current: PlayerSkillState | undefined;
+
+    await this.applyOperations(playerUUID, currentStates => {
+      previous = currentStates.find(state => state.skillId === skillId);
+      if (!previous) {
+        throw new Error(`Skill ${skillId} not found for player ${playerUUID}`);
+      }
+
+      const changes = update(previous);
+      current = { ...previous, ...changes, skillId };
+      return {
+        states: currentStates.map(state => state.skillId === skillId ? current! : state),
+        changes: [{ type: 'update', skillId, payload: changes }],
+      };
+    });
+
+    return { previous: previous!, current: current! };
+  }
+
   /**
    * Remove a skill state from player's inventory
    */
   static async removeSkillState(playerUUID: string, skillId: string): Promise<void> {
     try {
-      const currentStates = await this.getPlayerSkillStates(playerUUID);
-      const updatedStates = currentStates.filter(state => state.skillId !== skillId);
-      
-      await this.storePlayerSkillStates(playerUUID, updatedStates);
+      await this.applyOperation(playerUUID, 'remove', skillId, undefined, currentStates =>
+        currentStates.filter(state => state.skillId !== skillId)
+      );
       console.log(`✅ Removed skill state ${skillId} from player ${playerUUID}`);
     } catch (error) {
       console.error('❌ Error removing skill state:', error);
@@ -402,6 +822,37 @@ export class ClientsideSkillStorage {
     }
   }
 
+  /**
+   * Set isActive on every skill state in one write: the given skills are
+   * active, all others are benched. Only changed flags are recorded.
+   */
+  static async setActiveSkills(playerUUID: string, activeSkillIds: Iterable<string>): Promise<void> {
+    const active = new Set(activeSkillIds);
+    await this.applyOperations(playerUUID, currentStates => {
+      const changes: Array<Pick<SkillStateOperation, 'type' | 'skillId' | 'payload'>> = [];
+      const states = currentStates.map(state => {
+        const isActive = active.has(state.skillId);
+        if (state.isActive === isActive) return state;
+        changes.push({ type: 'update', skillId: state.skillId, payload: { isActive } });
+        return { ...state, isActive };
+      });
+      return { states, changes };
+    });
+  }
+
+  /**
+   * Remove several skill states in one write; unknown skillIds are ignored
+   */
+  static async removeSkillStates(playerUUID: string, skillIds: Iterable<string>): Promise<void> {
+    const removed = new Set(skillIds);
+    await this.applyOperations(playerUUID, currentStates => ({
+      states: currentStates.filter(state => !removed.has(state.skillId)),
+      changes: currentStates
+        .filter(state => removed.has(state.skillId))
+        .map(state => ({ type: 'remove' as const, skillId: state.skillId })),
+    }));
+  }
+
   /**
    * Update skill cooldown (battle system integration)
    */
@@ -415,23 +866,436 @@ export class ClientsideSkillStorage {
   }
 
   /**
-   * Update skill charges (battle system integration)
+   * Update skill charges (battle system integration).
+   * Starts the recharge clock if it isn't already running.
    */
   static async updateSkillCharges(
     playerUUID: string, 
     skillId: string, 
     charges: number
   ): Promise<void> {
-    await this.updateSkillState(playerUUID, skillId, { charges });
+    const skillStates = await this.getPlayerSkillStates(playerUUID);
+    const current = skillStates.find(state => state.skillId === skillId);
+    const rechargeStartTime = current?.rechargeStartTime ?? Date.now();
+    await this.updateSkillState(playerUUID, skillId, { charges, rechargeStartTime });
   }
 
+  // ===== CHARGES =====
+
   /**
-   * Mark skill as used (update lastUsed timestamp)
+   * Charge model for a skill, or null if it isn't charge-based
    */
-  static async markSkillAsUsed(playerUUID: string, skillId: string): Promise<void> {
+  static getChargeConfig(engineData?: Partial<SkillEngineData> | null): SkillChargeConfig | null {
+    const maxCharges = Number(engineData?.charges?.maxCharges);
+    if (!Number.isFinite(maxCharges) || maxCharges <= 0) return null;
+
+    const rechargeInterval = Number(engineData?.charges?.rechargeInterval);
+    return {
+      maxCharges: Math.floor(maxCharges),
+      rechargeInterval: Number.isFinite(rechargeInterval) && rechargeInterval > 0 ? rechargeInterval : 0,
+    };
+  }
+
+  /**
+   * Charges after wall-clock regeneration up to `now` (rechargeInterval 0 = never regenerates)
+   */
+  static regenerateCharges(
+    state: PlayerSkillState,
+    config: SkillChargeConfig | null,
+    now: number
+  ): Pick<PlayerSkillState, 'charges' | 'rechargeStartTime'> {
+    if (!config) {
+      return { charges: state.charges, rechargeStartTime: state.rechargeStartTime };
+    }
+
+    const charges = Math.min(state.charges ?? config.maxCharges, config.maxCharges);
+    if (charges >= config.maxCharges) {
+      return { charges, rechargeStartTime: undefined };
+    }
+
+    const rechargeStartTime = state.rechargeStartTime ?? now;
+    if (config.rechargeInterval <= 0) {
+      return { charges, rechargeStartTime };
+    }
+
+    const regenerated = Math.floor(Math.max(0, now - rechargeStartTime) / config.rechargeInterval);
+    const newCharges = Math.min(config.maxCharges, charges + regenerated);
+    return {
+      charges: newCharges,
+      rechargeStartTime: newCharges >= config.maxCharges
+        ? undefined
+        : rechargeStartTime + regenerated * config.rechargeInterval,
+    };
+  }
+
+  /**
+   * Mark skill as used (update lastUsed timestamp).
+   * Pass the battle context to award XP through SkillProgressionService.
+   */
+  static async markSkillAsUsed(
+    playerUUID: string,
+    skillId: string,
+    battle?: { battleId: string; experience?: number }
+  ): Promise<void> {
     await this.updateSkillState(playerUUID, skillId, { 
       lastUsed: new Date().toISOString() 
     });
+
+    const usage: SkillUsageEvent = { playerUUID, skillId, ...battle };
+    this.emitter.emit('skillUsed', usage);
+  }
+
+  // ===== OFFLINE SYNC =====
+
+  /**
+   * Subscribe to events: skillUsed, operationRecorded, conflict, syncComplete, syncFailed
+   */
+  static on(event: string, listener: Function): void {
+    this.emitter.on(event, listener);
+  }
+
+  static off(event: string, listener: Function): void {
+    this.emitter.off(event, listener);
+  }
+
+  /**
+   * Change sync settings (e.g. disable auto-sync while offline)
+   */
+  static configureSync(config: Partial<SkillSyncConfig>): void {
+    this.syncConfig = { ...this.syncConfig, ...config };
+  }
+
+  /**
+   * Swap the persistence backend (e.g. MemoryKeyValueStore in tests).
+   * Cached display items are dropped and migrations re-run against the new store.
+   */
+  static configureStorage(storage: KeyValueStore): void {
+    this.storage = storage;
+    this.schemaMigrations = createSchemaMigrations(storage);
+    this.displayProjections.clear();
+  }
+
+  /**
+   * The configured backend, for data kept next to the inventory (loadouts, migration records)
+   */
+  static getStorage(): KeyValueStore {
+    return this.storage;
+  }
+
+  /**
+   * Override merge rules per field; unspecified fields keep the default policy
+   */
+  static setMergePolicy(policy: Record<string, SkillStateMergeRule>): void {
+    this.mergePolicy = { ...DEFAULT_MERGE_POLICY, ...policy };
+  }
+
+  /**
+   * Operations applied locally but not yet confirmed by the server
+   */
+  static async getPendingOperations(playerUUID: string): Promise<SkillStateOperation[]> {
+    const stored = await this.storage.getItem(this.getOplogStorageKey(playerUUID));
+    return parseStoredJSON<SkillStateOperation[]>(stored) || [];
+  }
+
+  static async getSyncState(playerUUID: string): Promise<SkillSyncState | null> {
+    const stored = await this.storage.getItem(this.getSyncStateStorageKey(playerUUID));
+    return parseStoredJSON<SkillSyncState>(stored);
+  }
+
+  /**
+   * Apply a mutation optimistically and append it to the operation log
+   */
+  private static async applyOperation(
+    playerUUID: string,
+    type: SkillStateOperation['type'],
+    skillId: string,
+    payload: Partial<PlayerSkillState> | undefined,
+    mutate: (states: PlayerSkillState[]) => PlayerSkillState[]
+  ): Promise<SkillStateOperation> {
+    const [operation] = await this.applyOperations(playerUUID, currentStates => ({
+      states: mutate(currentStates),
+      changes: [{ type, skillId, payload }],
+    }));
+    return operation;
+  }
+
+  /**
+   * Apply several changes as one inventory write under the player lock.
+   * `mutate` sees the current states, so read-modify-write callers never
+   * overwrite a concurrent change. No changes = nothing is written.
+   */
+  private static async applyOperations(
+    playerUUID: string,
+    mutate: (states: PlayerSkillState[]) => {
+      states: PlayerSkillState[];
+      changes: Array<Pick<SkillStateOperation, 'type' | 'skillId' | 'payload'>>;
+    }
+  ): Promise<SkillStateOperation[]> {
+    return this.withPlayerLock(playerUUID, async () => {
+      await this.ensureSchema();
+      const currentStates = await this.getPlayerSkillStates(playerUUID);
+      const { states, changes } = mutate(currentStates);
+      if (changes.length === 0) return [];
+
+      const version = await this.writeInventory(playerUUID, states);
+      const timestamp = new Date().toISOString();
+      const recorded: SkillStateOperation[] = changes.map(change => ({
+        opId: `op_${Date.now()}_${++this.opCounter}`,
+        playerUUID,
+        ...change,
+        version,
+        timestamp,
+      }));
+
+      const operations = await this.getPendingOperations(playerUUID);
+      operations.push(...recorded);
+      await this.storage.setItem(this.getOplogStorageKey(playerUUID), JSON.stringify(operations));
+
+      recorded.forEach(operation => this.emitter.emit('operationRecorded', operation));
+      this.scheduleSync(playerUUID);
+      return recorded;
+    });
+  }
+
+  /**
+   * Debounced background sync after local changes
+   */
+  private static scheduleSync(playerUUID: string): void {
+    if (!this.syncConfig.enabled) return;
+
+    const existing = this.syncTimers.get(playerUUID);
+    if (existing) clearTimeout(existing);
+
+    this.syncTimers.set(playerUUID, setTimeout(() => {
+      this.syncTimers.delete(playerUUID);
+      this.syncWithServer(playerUUID);
+    }, this.syncConfig.debounceMs));
+  }
+
+  /**
+   * Reconcile local state with the Supabase copy.
+   * Pending operations stay in the log until a sync succeeds, so this is safe
+   * to call whenever the app comes back online.
+   */
+  static async syncWithServer(playerUUID: string): Promise<SkillSyncResult> {
+    return this.withPlayerLock(playerUUID, async () => {
+      const result: SkillSyncResult = { playerUUID, status: 'up_to_date', conflicts: [], syncedOperations: 0 };
+
+      try {
+        await this.ensureSchema();
+
+        for (let attempt = 0; attempt < this.syncConfig.maxAttempts; attempt++) {
+          const inventory = await this.getPlayerInventory(playerUUID);
+          const syncState = await this.getSyncState(playerUUID);
+          const operations = await this.getPendingOperations(playerUUID);
+          const localStates = inventory?.skillStates || [];
+          const localDirty = (inventory?.version || 0) !== (syncState?.syncedVersion || 0);
+
+          const { data: row, error } = await supabase
+            .from(this.syncConfig.tableName)
+            .select('skill_states, version')
+            .eq('player_uuid', playerUUID)
+            .maybeSingle();
+          if (error) throw new Error(error.message);
+
+          const serverVersion: number = row?.version || 0;
+          const serverStates: PlayerSkillState[] = row?.skill_states || [];
+          const serverChanged = serverVersion !== (syncState?.serverVersion || 0);
+
+          if (!localDirty && !serverChanged) {
+            result.serverVersion = serverVersion;
+            break;
+          }
+
+          let merged = localStates;
+          if (serverChanged && !localDirty) {
+            merged = serverStates;
+            result.status = 'pulled';
+          } else if (serverChanged) {
+            const outcome = this.mergeStates(playerUUID, syncState?.states, localStates, serverStates);
+            merged = outcome.states;
+            result.conflicts = outcome.conflicts;
+            result.status = 'merged';
+          } else {
+            result.status = 'pushed';
+          }
+
+          // Push unless the server already holds exactly what we have
+          let newServerVersion = serverVersion;
+          if (result.status !== 'pulled') {
+            const pushed = await this.pushStates(playerUUID, merged, serverVersion, !!row);
+            if (!pushed) continue; // Another device wrote in between - merge again
+            newServerVersion = serverVersion + 1;
+          }
+
+          const localVersion = result.status === 'pushed'
+            ? inventory!.version
+            : await this.writeInventory(playerUUID, merged);
+
+          await this.storage.setItem(this.getSyncStateStorageKey(playerUUID), JSON.stringify({
+            serverVersion: newServerVersion,
+            syncedVersion: localVersion,
+            states: merged,
+            lastSyncedAt: new Date().toISOString(),
+          } as SkillSyncState));
+
+          // Only drop the operations this sync covered
+          const syncedIds = new Set(operations.map(op => op.opId));
+          const remaining = (await this.getPendingOperations(playerUUID)).filter(op => !syncedIds.has(op.opId));
+          await this.storage.setItem(this.getOplogStorageKey(playerUUID), JSON.stringify(remaining));
+
+          result.serverVersion = newServerVersion;
+          result.syncedOperations = operations.length;
+          result.conflicts.forEach(conflict => this.emitter.emit('conflict', conflict));
+          this.emitter.emit('syncComplete', result);
+          return result;
+        }
+
+        if (result.status !== 'up_to_date') {
+          throw new Error('Server kept changing during sync, giving up for now');
+        }
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Skill state sync failed for player ${playerUUID}:`, message);
+        const failed: SkillSyncResult = { ...result, status: 'failed', error: message, conflicts: [] };
+        this.emitter.emit('syncFailed', failed);
+        return failed;
+      }
+    });
+  }
+
+  /**
+   * Write states to Supabase only if the row is still at expectedVersion
+   */
+  private static async pushStates(
+    playerUUID: string,
+    skillStates: PlayerSkillState[],
+    expectedVersion: number,
+    rowExists: boolean
+  ): Promise<boolean> {
+    const row = {
+      player_uuid: playerUUID,
+      skill_states: skillStates,
+      version: expectedVersion + 1,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!rowExists) {
+      const { error } = await supabase.from(this.syncConfig.tableName).insert(row);
+      if (error?.code === '23505') return false; // Unique violation - created elsewhere first
+      if (error) throw new Error(error.message);
+      return true;
+    }
+
+    const { data, error } = await supabase
+      .from(this.syncConfig.tableName)
+      .update(row)
+      .eq('player_uuid', playerUUID)
+      .eq('version', expectedVersion)
+      .select('version');
+    if (error) throw new Error(error.message);
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * Three-way merge against the last synced copy. Fields changed on one side
+   * take that side; fields changed on both go through the merge policy.
+   */
+  static mergeStates(
+    playerUUID: string,
+    baseStates: PlayerSkillState[] | undefined,
+    localStates: PlayerSkillState[],
+    serverStates: PlayerSkillState[]
+  ): { states: PlayerSkillState[]; conflicts: SkillStateConflict[] } {
+    const base = new Map((baseStates || []).map(state => [state.skillId, state]));
+    const local = new Map(localStates.map(state => [state.skillId, state]));
+    const server = new Map(serverStates.map(state => [state.skillId, state]));
+    const skillIds = Array.from(new Set([...local.keys(), ...server.keys()]));
+    const conflicts: SkillStateConflict[] = [];
+    const merged: PlayerSkillState[] = [];
+    const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+    for (const skillId of skillIds) {
+      const baseState = base.get(skillId);
+      const localState = local.get(skillId);
+      const serverState = server.get(skillId);
+
+      if (!localState || !serverState) {
+        // Present on one side only: an addition on that side, or a removal on the other
+        const present = (localState || serverState)!;
+        const otherSideRemoved = !!baseState;
+        const presentSideChanged = !!baseState && !same(present, baseState);
+
+        if (!otherSideRemoved) {
+          merged.push(present);
+        } else if (presentSideChanged) {
+          // Edited on one side, removed on the other - keep the edit
+          merged.push(present);
+          conflicts.push({
+            playerUUID,
+            skillId,
+            field: 'membership',
+            localValue: localState || null,
+            serverValue: serverState || null,
+            resolvedValue: present,
+          });
+        }
+        continue;
+      }
+
+      const result: any = { skillId };
+      const fields = new Set([...Object.keys(localState), ...Object.keys(serverState)]);
+      fields.delete('skillId');
+
+      for (const field of fields) {
+        const localValue = (localState as any)[field];
+        const serverValue = (serverState as any)[field];
+        if (same(localValue, serverValue)) {
+          if (localValue !== undefined) result[field] = localValue;
+          continue;
+        }
+
+        const baseValue = baseState ? (baseState as any)[field] : undefined;
+        const localChanged = !baseState || !same(localValue, baseValue);
+        const serverChanged = !baseState || !same(serverValue, baseValue);
+
+        let value: any;
+        if (localChanged && !serverChanged) {
+          value = localValue;
+        } else if (serverChanged && !localChanged) {
+          value = serverValue;
+        } else {
+          const rule = this.mergePolicy[field] || lastUsedSide;
+          value = rule(localValue, serverValue, localState, serverState);
+          // Without a common ancestor this is a first sync, not a real conflict
+          if (baseState) {
+            conflicts.push({ playerUUID, skillId, field: field as keyof PlayerSkillState, localValue, serverValue, resolvedValue: value });
+          }
+        }
+
+        if (value !== undefined) result[field] = value;
+      }
+
+      merged.push(result as PlayerSkillState);
+    }
+
+    return { states: merged, conflicts };
+  }
+
+  /**
+   * Serialize mutations and syncs per player
+   */
+  private static withPlayerLock<T>(playerUUID: string, task: () => Promise<T>): Promise<T> {
+    return this.playerLocks.run(playerUUID, task);
+  }
+
+  private static getOplogStorageKey(playerUUID: string): string {
+    return `${OPLOG_KEY_PREFIX}${playerUUID}`;
+  }
+
+  private static getSyncStateStorageKey(playerUUID: string): string {
+    return `${SYNC_STATE_KEY_PREFIX}${playerUUID}`;
   }
 
   // ===== UTILITY METHODS =====
@@ -474,11 +1338,23 @@ export class ClientsideSkillStorage {
    */
   static async clearPlayerSkillStates(playerUUID: string): Promise<void> {
     try {
+      await this.ensureSchema();
       const inventoryKey = this.getInventoryStorageKey(playerUUID);
       const indexKey = this.getIndexStorageKey(playerUUID);
+
+      const pendingSync = this.syncTimers.get(playerUUID);
+      if (pendingSync) {
+        clearTimeout(pendingSync);
+        this.syncTimers.delete(playerUUID);
+      }
       
-      await AsyncStorage.removeItem(inventoryKey);
-      await AsyncStorage.removeItem(indexKey);
+      await this.storage.multiRemove([
+        inventoryKey,
+        indexKey,
+        this.getOplogStorageKey(playerUUID),
+        this.getSyncStateStorageKey(playerUUID),
+      ]);
+      this.invalidateDisplayItems(playerUUID);
       
       console.log(`✅ Cleared all skill states for player ${playerUUID}`);
     } catch (error) {
@@ -0,0 +1,17 @@
+/**
+ * CoreSkillPack - Skill templates bundled with the app
+ *
+ * Category files are required lazily so only the categories that are
+ * actually loaded get parsed.
+ */
+
+import { createBundledContentPack } from './SkillContentPack';
+
+export const coreSkillPack = createBundledContentPack(
+  require('../../assets/skill-packs/core/manifest.json'),
+  {
+    'combat.json': () => require('../../assets/skill-packs/core/combat.json'),
+    'magic.json': () => require('../../assets/skill-packs/core/magic.json'),
+    'utility.json': () => require('../../assets/skill-packs/core/utility.json'),
+  }
+);
@@ -0,0 +1,38 @@
+/**
+ * EventEmitter - Minimal Event Emitter for React Native
+ *
+ * Node's `events` module is not available in the React Native runtime, so the
+ * services share this small implementation:
+ * - on / off: add and remove listeners per event name
+ * - emit: call every listener for an event, in registration order
+ * - removeAllListeners: drop listeners for one event or all of them
+ */
+
+export class EventEmitter {
+  private events: { [key: string]: Function[] } = {};
+
+  on(event: string, listener: Function) {
+    if (!this.events[event]) {
+      this.events[event] = [];
+    }
+    this.events[event].push(listener);
+  }
+
+  off(event: string, listener: Function) {
+    if (!this.events[event]) return;
+    this.events[event] = this.events[event].filter(l => l !== listener);
+  }
+
+  emit(event: string, ...args: any[]) {
+    if (!this.events[event]) return;
+    this.events[event].forEach(listener => listener(...args));
+  }
+
+  removeAllListeners(event?: string) {
+    if (event) {
+      delete this.events[event];
+    } else {
+      this.events = {};
+    }
+  }
+}
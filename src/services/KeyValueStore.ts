@@ -0,0 +1,222 @@
+/**
+ * KeyValueStore - Pluggable Storage Backend
+ *
+ * The subset of the AsyncStorage API the persistent stores use, so each
+ * store can be given a different backend through its config:
+ * - asyncStorageStore: AsyncStorage (default; localStorage on web)
+ * - MemoryKeyValueStore: plain Map, for tests under Node and throwaway state
+ * - IndexedDBKeyValueStore: web builds that outgrow localStorage's ~5MB
+ *
+ * Usage:
+ *   new SkillsDB({ storage: new MemoryKeyValueStore() })
+ *   new UnifiedBattleLogSystem({ storage: new IndexedDBKeyValueStore() })
+ *   ClientsideSkillStorage.configureStorage(new MemoryKeyValueStore())
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// ===== INTERFACE =====
+
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<string[]>;
+  multiGet(keys: string[]): Promise<Array<[string, string | null]>>;
+  multiSet(pairs: Array<[string, string]>): Promise<void>;
+  multiRemove(keys: string[]): Promise<void>;
+}
+
+// ===== ASYNC STORAGE =====
+
+export const asyncStorageStore: KeyValueStore = {
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+  getAllKeys: async () => [...await AsyncStorage.getAllKeys()],
+  multiGet: async keys => (await AsyncStorage.multiGet(keys)).map(([key, value]) => [key, value] as [string, string | null]),
+  multiSet: pairs => AsyncStorage.multiSet(pairs),
+  multiRemove: keys => AsyncStorage.multiRemove(keys),
+};
+
+// ===== IN-MEMORY =====
+
+export class MemoryKeyValueStore implements KeyValueStore {
+  private data = new Map<string, string>();
+
+  constructor(initial: Record<string, string> = {}) {
+    for (const [key, value] of Object.entries(initial)) {
+      this.data.set(key, value);
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.data.set(key, String(value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.data.keys());
+  }
+
+  async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
+    return keys.map(key => [key, this.data.has(key) ? this.data.get(key)! : null]);
+  }
+
+  async multiSet(pairs: Array<[string, string]>): Promise<void> {
+    pairs.forEach(([key, value]) => this.data.set(key, String(value)));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach(key => this.data.delete(key));
+  }
+
+  /**
+   * Snapshot of everything stored (for assertions and debugging)
+   */
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.data);
+  }
+
+  clear(): void {
+    this.data.clear();
+  }
+}
+
+// ===== INDEXEDDB =====
+
+export interface IndexedDBStoreOptions {
+  databaseName: string;
+  storeName: string;
+}
+
+const DEFAULT_INDEXEDDB_OPTIONS: IndexedDBStoreOptions = {
+  databaseName: 'skill_system',
+  storeName: 'kv',
+};
+
+/**
+ * Web-only backend. Multi-key operations run in a single IndexedDB
+ * transaction, so they are atomic.
+ */
+export class IndexedDBKeyValueStore implements KeyValueStore {
+  private options: IndexedDBStoreOptions;
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(options: Partial<IndexedDBStoreOptions> = {}) {
+    this.options = { ...DEFAULT_INDEXEDDB_OPTIONS, ...options };
+  }
+
+  /**
+   * True where IndexedDB exists (web builds, not native)
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const [[, value]] = await this.multiGet([key]);
+    return value;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.multiSet([[key, value]]);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.multiRemove([key]);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return this.run('readonly', store => store.getAllKeys(), keys => (keys as IDBValidKey[]).map(String));
+  }
+
+  async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
+    if (keys.length === 0) return [];
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.options.storeName, 'readonly');
+      const store = transaction.objectStore(this.options.storeName);
+      const results: Array<[string, string | null]> = keys.map(key => [key, null]);
+
+      keys.forEach((key, index) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          results[index] = [key, typeof request.result === 'string' ? request.result : null];
+        };
+      });
+
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async multiSet(pairs: Array<[string, string]>): Promise<void> {
+    if (pairs.length === 0) return;
+    await this.runWrite(store => pairs.forEach(([key, value]) => store.put(String(value), key)));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.runWrite(store => keys.forEach(key => store.delete(key)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      if (!IndexedDBKeyValueStore.isAvailable()) {
+        return Promise.reject(new Error('IndexedDB is not available in this environment'));
+      }
+
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.options.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.options.storeName)) {
+            request.result.createObjectStore(this.options.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        // Allow another attempt on the next call
+        this.dbPromise = undefined;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest,
+    map: (result: unknown) => T
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.options.storeName, mode);
+      const request = makeRequest(transaction.objectStore(this.options.storeName));
+      transaction.oncomplete = () => resolve(map(request.result));
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async runWrite(apply: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.options.storeName, 'readwrite');
+      apply(transaction.objectStore(this.options.storeName));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
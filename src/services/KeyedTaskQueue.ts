@@ -0,0 +1,30 @@
+/**
+ * KeyedTaskQueue - Serialize Async Tasks per Key
+ *
+ * Read-modify-write sequences on the same player's data must not interleave,
+ * or concurrent callers overwrite each other's changes:
+ * - Tasks with the same key run one after another, in call order
+ * - Tasks with different keys run concurrently
+ * - A failed task does not block the tasks queued behind it
+ */
+
+export class KeyedTaskQueue {
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `task` once every task queued earlier for `key` has settled
+   */
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(key, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.queues.get(key) === next) {
+        this.queues.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * SkillContentPack - Skill Template Catalogue Loader
+ *
+ * Loads global skill templates from a content pack and imports them into
+ * SkillsDB under the IDs they were authored with:
+ * - A pack is a manifest plus one file per category (JSON, or YAML when a
+ *   YAML parser is supplied)
+ * - Every file is validated with zod before anything is imported
+ * - Categories load lazily, one file at a time, and report progress
+ * - Packs can be bundled with the app or fetched from a URL
+ *
+ * Manifest:
+ *   { "packId": "core", "version": 1,
+ *     "categories": { "combat": { "file": "combat.json", "templateIds": ["core.combat.slash"] } } }
+ *
+ * Category file:
+ *   { "category": "combat", "templates": [{ "id": "core.combat.slash", "name": "Slash", ... }] }
+ */
+
+import { z } from 'zod';
+import { skillsDB, SkillsDB, SkillSummary, SkillTemplateImport } from './SkillsDB';
+import { MAX_SKILL_ID_LENGTH, SKILL_ID_PATTERN } from './SkillIds';
+import { EventEmitter } from './EventEmitter';
+
+// ===== SCHEMAS =====
+
+const templateId = z.string()
+  .max(MAX_SKILL_ID_LENGTH)
+  .regex(SKILL_ID_PATTERN, 'IDs may only contain letters, digits, "_", "-" and "." between segments');
+
+const abilitySchema = z.object({
+  id: z.string().min(1, 'Ability ID is required'),
+  name: z.string().min(1, 'Ability name is required'),
+  description: z.string().default(''),
+  cooldown: z.number().nonnegative().optional(),
+  manaCost: z.number().nonnegative().optional(),
+  damage: z.number().optional(),
+  effects: z.array(z.string()).optional(),
+});
+
+const templateSchema = z.object({
+  id: templateId,
+  name: z.string().min(1, 'Template name is required'),
+  description: z.string().default(''),
+  rarity: z.enum(['common', 'uncommon', 'rare', 'epic', 'legendary']),
+  abilities: z.array(abilitySchema).min(1, 'A template needs at least one ability'),
+  engineData: z.object({
+    formulas: z.record(z.string(), z.string()).default({}),
+    cooldowns: z.record(z.string(), z.number()).default({}),
+    charges: z.object({
+      maxCharges: z.number().int().positive(),
+      rechargeInterval: z.number().nonnegative().default(0),
+    }).optional(),
+    internalCalculations: z.record(z.string(), z.any()).default({}),
+  }).optional(),
+  version: z.number().int().positive().default(1),
+});
+
+const categoryFileSchema = z.object({
+  category: z.string().min(1),
+  templates: z.array(templateSchema),
+});
+
+const manifestSchema = z.object({
+  packId: templateId,
+  name: z.string().optional(),
+  version: z.number().int().positive(),
+  categories: z.record(z.string(), z.object({
+    file: z.string().min(1),
+    templateIds: z.array(templateId),
+  })),
+});
+
+// ===== INTERFACES =====
+
+export type ContentPackManifest = z.infer<typeof manifestSchema>;
+export type ContentPackTemplate = z.infer<typeof templateSchema>;
+export type ContentPackCategoryFile = z.infer<typeof categoryFileSchema>;
+
+/**
+ * Where pack files come from. Values may be parsed objects or raw file text.
+ */
+export interface ContentPackSource {
+  readManifest(): Promise<unknown>;
+  readFile(file: string): Promise<unknown>;
+}
+
+export interface ContentPackParsers {
+  parseYaml?: (text: string) => unknown; // e.g. `load` from js-yaml
+}
+
+export interface ContentPackProgress {
+  packId: string;
+  category: string;
+  templatesLoaded: number; // Across all loaded categories
+  totalTemplates: number; // Across the whole pack
+  loadedCategories: string[];
+}
+
+export interface ContentPackIssue {
+  path: string;
+  message: string;
+}
+
+// ===== ERRORS =====
+
+export class ContentPackValidationError extends Error {
+  file: string;
+  issues: ContentPackIssue[];
+
+  constructor(file: string, issues: ContentPackIssue[]) {
+    super(`Invalid content pack file ${file}: ${issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`);
+    this.name = 'ContentPackValidationError';
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+// ===== SOURCES =====
+
+/**
+ * Pack shipped with the app. Category files are thunks so they are only
+ * evaluated when their category is loaded, e.g. `'combat.json': () => require('./combat.json')`.
+ */
+export function createBundledContentPack(
+  manifest: unknown,
+  files: Record<string, unknown | (() => unknown | Promise<unknown>)>,
+  parsers: ContentPackParsers = {}
+): ContentPackSource {
+  return {
+    async readManifest() {
+      return parseContentPackFile('manifest', manifest, parsers);
+    },
+    async readFile(file: string) {
+      if (!(file in files)) {
+        throw new Error(`Content pack file ${file} is not bundled`);
+      }
+      const entry = files[file];
+      const raw = typeof entry === 'function' ? await (entry as () => unknown)() : entry;
+      return parseContentPackFile(file, raw, parsers);
+    },
+  };
+}
+
+/**
+ * Pack served over HTTP: `<baseUrl>/<manifestFile>` plus the files it lists
+ */
+export function createRemoteContentPack(
+  baseUrl: string,
+  options: ContentPackParsers & { manifestFile?: string } = {}
+): ContentPackSource {
+  const root = baseUrl.replace(/\/+$/, '');
+  const fetchText = async (file: string): Promise<string> => {
+    const response = await fetch(`${root}/${file}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch content pack file ${file}: HTTP ${response.status}`);
+    }
+    return response.text();
+  };
+
+  const manifestFile = options.manifestFile || 'manifest.json';
+  return {
+    async readManifest() {
+      return parseContentPackFile(manifestFile, await fetchText(manifestFile), options);
+    },
+    async readFile(file: string) {
+      return parseContentPackFile(file, await fetchText(file), options);
+    },
+  };
+}
+
+/**
+ * Parse raw file text by extension; already-parsed values pass through
+ */
+function parseContentPackFile(file: string, raw: unknown, parsers: ContentPackParsers): unknown {
+  if (typeof raw !== 'string') return raw;
+
+  if (/\.ya?ml$/i.test(file)) {
+    if (!parsers.parseYaml) {
+      throw new Error(`No YAML parser configured for content pack file ${file}`);
+    }
+    return parsers.parseYaml(raw);
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new ContentPackValidationError(file, [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }]);
+  }
+}
+
+function toIssues(error: z.ZodError): ContentPackIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
+
+// ===== LOADER =====
+
+export class SkillContentPackLoader extends EventEmitter {
+  private manifestPromise?: Promise<ContentPackManifest>;
+  private loadedCategories = new Map<string, SkillSummary[]>();
+  private pendingCategories = new Map<string, Promise<SkillSummary[]>>();
+
+  constructor(private source: ContentPackSource, private db: SkillsDB = skillsDB) {
+    super();
+  }
+
+  /**
+   * Validated manifest (read once; retried on the next call if it failed)
+   */
+  getManifest(): Promise<ContentPackManifest> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = this.readManifest().catch(error => {
+        this.manifestPromise = undefined;
+        throw error;
+      });
+    }
+    return this.manifestPromise;
+  }
+
+  async getCategories(): Promise<string[]> {
+    const manifest = await this.getManifest();
+    return Object.keys(manifest.categories);
+  }
+
+  async getTotalTemplates(): Promise<number> {
+    const manifest = await this.getManifest();
+    return Object.values(manifest.categories).reduce((total, entry) => total + entry.templateIds.length, 0);
+  }
+
+  isCategoryLoaded(category: string): boolean {
+    return this.loadedCategories.has(category);
+  }
+
+  getLoadedCategories(): string[] {
+    return Array.from(this.loadedCategories.keys());
+  }
+
+  getLoadedTemplateCount(): number {
+    let count = 0;
+    this.loadedCategories.forEach(summaries => { count += summaries.length; });
+    return count;
+  }
+
+  /**
+   * Validate and import one category (concurrent calls share the same load)
+   */
+  loadCategory(category: string): Promise<SkillSummary[]> {
+    const loaded = this.loadedCategories.get(category);
+    if (loaded) return Promise.resolve(loaded);
+
+    let pending = this.pendingCategories.get(category);
+    if (!pending) {
+      pending = this.importCategory(category).finally(() => {
+        this.pendingCategories.delete(category);
+      });
+      this.pendingCategories.set(category, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Load every category in manifest order
+   */
+  async loadAll(): Promise<SkillSummary[]> {
+    const summaries: SkillSummary[] = [];
+    for (const category of await this.getCategories()) {
+      summaries.push(...await this.loadCategory(category));
+    }
+    return summaries;
+  }
+
+  /**
+   * Category whose manifest entry lists this template ID
+   */
+  async findCategoryForTemplate(skillId: string): Promise<string | null> {
+    const manifest = await this.getManifest();
+    for (const [category, entry] of Object.entries(manifest.categories)) {
+      if (entry.templateIds.includes(skillId)) return category;
+    }
+    return null;
+  }
+
+  /**
+   * Load just enough of the pack to provide one template
+   */
+  async loadTemplate(skillId: string): Promise<SkillSummary | null> {
+    const category = await this.findCategoryForTemplate(skillId);
+    if (!category) return null;
+
+    const summaries = await this.loadCategory(category);
+    return summaries.find(summary => summary.id === skillId) || null;
+  }
+
+  // ===== INTERNALS =====
+
+  private async readManifest(): Promise<ContentPackManifest> {
+    const parsed = manifestSchema.safeParse(await this.source.readManifest());
+    if (!parsed.success) {
+      throw new ContentPackValidationError('manifest', toIssues(parsed.error));
+    }
+
+    const issues: ContentPackIssue[] = [];
+    const seen = new Set<string>();
+    for (const [category, entry] of Object.entries(parsed.data.categories)) {
+      entry.templateIds.forEach((id, index) => {
+        if (seen.has(id)) {
+          issues.push({ path: `categories.${category}.templateIds.${index}`, message: `Duplicate template ID ${id}` });
+        }
+        seen.add(id);
+      });
+    }
+    if (issues.length > 0) {
+      throw new ContentPackValidationError('manifest', issues);
+    }
+
+    return parsed.data;
+  }
+
+  private async importCategory(category: string): Promise<SkillSummary[]> {
+    const manifest = await this.getManifest();
+    const entry = manifest.categories[category];
+    if (!entry) {
+      throw new Error(`Content pack ${manifest.packId} has no category "${category}"`);
+    }
+
+    const file = this.validateCategoryFile(entry.file, category, entry.templateIds, await this.source.readFile(entry.file));
+
+    const imports: SkillTemplateImport[] = file.templates.map(template => ({
+      summary: {
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        category,
+        rarity: template.rarity,
+        abilities: template.abilities,
+      },
+      engineData: template.engineData,
+      version: template.version,
+    }));
+
+    const result = await this.db.importTemplates(imports);
+    const summaries = await this.db.getSkillSummaries(file.templates.map(t => t.id));
+    const loaded = file.templates.map(t => summaries.get(t.id)).filter((s): s is SkillSummary => !!s);
+
+    this.loadedCategories.set(category, loaded);
+    console.log(`✅ Loaded ${loaded.length} "${category}" templates from pack ${manifest.packId} ` +
+      `(${result.created.length} new, ${result.updated.length} updated)`);
+
+    const progress: ContentPackProgress = {
+      packId: manifest.packId,
+      category,
+      templatesLoaded: this.getLoadedTemplateCount(),
+      totalTemplates: await this.getTotalTemplates(),
+      loadedCategories: this.getLoadedCategories(),
+    };
+    this.emit('categoryLoaded', { category, summaries: loaded, result });
+    this.emit('progress', progress);
+
+    return loaded;
+  }
+
+  private validateCategoryFile(
+    file: string,
+    category: string,
+    expectedIds: string[],
+    raw: unknown
+  ): ContentPackCategoryFile {
+    const parsed = categoryFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new ContentPackValidationError(file, toIssues(parsed.error));
+    }
+
+    const issues: ContentPackIssue[] = [];
+    if (parsed.data.category !== category) {
+      issues.push({ path: 'category', message: `Expected "${category}", found "${parsed.data.category}"` });
+    }
+
+    const ids = new Set<string>();
+    parsed.data.templates.forEach((template, index) => {
+      if (ids.has(template.id)) {
+        issues.push({ path: `templates.${index}.id`, message: `Duplicate template ID ${template.id}` });
+      }
+      ids.add(template.id);
+
+      const abilityIds = new Set<string>();
+      template.abilities.forEach((ability, abilityIndex) => {
+        if (abilityIds.has(ability.id)) {
+          issues.push({ path: `templates.${index}.abilities.${abilityIndex}.id`, message: `Duplicate ability ID ${ability.id}` });
+        }
+        abilityIds.add(ability.id);
+      });
+    });
+
+    // The manifest is the catalogue index - the file must match it exactly
+    const missing = expectedIds.filter(id => !ids.has(id));
+    const unlisted = Array.from(ids).filter(id => !expectedIds.includes(id));
+    if (missing.length > 0) {
+      issues.push({ path: 'templates', message: `Missing templates listed in the manifest: ${missing.join(', ')}` });
+    }
+    if (unlisted.length > 0) {
+      issues.push({ path: 'templates', message: `Templates not listed in the manifest: ${unlisted.join(', ')}` });
+    }
+
+    if (issues.length > 0) {
+      throw new ContentPackValidationError(file, issues);
+    }
+    return parsed.data;
+  }
+}
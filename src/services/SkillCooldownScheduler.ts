@@ -0,0 +1,541 @@
+/**
+ * SkillCooldownScheduler - Live Cooldowns and Charge Regeneration
+ *
+ * Keeps skill bars up to date without re-reading AsyncStorage on every frame:
+ * - Loads a player's BattleSkills once and keeps their timers in memory
+ * - Charge-based skills (SkillEngineData.charges.maxCharges / rechargeInterval)
+ *   regenerate one charge per interval up to the maximum
+ * - Real-time mode ticks on the wall clock; during a turn-based match the clock
+ *   is stopped and cooldowns/recharges advance only with advanceTurn()
+ * - subscribe() pushes timer snapshots to listeners whenever they change
+ * - Every use and match end is written back through ClientsideSkillStorage
+ */
+
+import { SkillAbility } from './SkillsDB';
+import { ClientsideSkillStorage, PlayerSkillState, SkillChargeConfig, BattleSkill } from './ClientsideSkillStorage';
+import { getLevelScaling, scaleCooldownForLevel } from './SkillProgressionService';
+import { EventEmitter } from './EventEmitter';
+
+// ===== CONFIGURATION =====
+
+export interface SkillCooldownSchedulerConfig {
+  tickInterval: number; // ms between real-time updates while a timer is running
+  msPerTurn: number; // Converts ms cooldowns/recharge intervals into turns
+}
+
+const DEFAULT_CONFIG: SkillCooldownSchedulerConfig = {
+  tickInterval: 250,
+  msPerTurn: 1000,
+};
+
+// ===== INTERFACES =====
+
+export type SkillTimerMode = 'realtime' | 'turn_based';
+
+export interface SkillTimerState {
+  skillId: string;
+  isReady: boolean;
+  remainingCooldown: number; // ms (real-time mode)
+  remainingCooldownTurns: number; // turns (turn-based mode)
+  charges?: number; // undefined for skills without charges
+  maxCharges?: number;
+  nextChargeIn?: number; // ms until the next charge (real-time mode)
+  nextChargeInTurns?: number; // turns until the next charge (turn-based mode)
+}
+
+export type SkillTimerListener = (timers: SkillTimerState[]) => void;
+
+export interface SkillUseOptions {
+  abilityId?: string; // Cooldown taken from this ability (engine data first)
+  cooldownMs?: number; // Explicit cooldown, skips the ability lookup
+}
+
+interface TrackedSkill {
+  battleSkill: BattleSkill;
+  chargeConfig: SkillChargeConfig | null;
+  state: PlayerSkillState; // Runtime state as last persisted / loaded
+  cooldownTurns: number; // Turn-based mode only
+  rechargeTurns: number; // Turns accumulated toward the next charge (turn-based mode)
+}
+
+interface TrackedPlayer {
+  playerUUID: string;
+  mode: SkillTimerMode;
+  msPerTurn: number;
+  skills: Map<string, TrackedSkill>;
+  listeners: Set<SkillTimerListener>;
+  loading?: Promise<void>;
+  lastSnapshot: string;
+}
+
+// ===== SCHEDULER =====
+
+export class SkillCooldownScheduler extends EventEmitter {
+  private config: SkillCooldownSchedulerConfig;
+  private players = new Map<string, TrackedPlayer>();
+  private tickTimer: NodeJS.Timeout | null = null;
+  private writingPlayers = new Map<string, number>(); // In-flight writes per player; ours don't need a reload
+
+  // Reload when something else (sync, battle code) writes a tracked player's states
+  private readonly onStorageChanged = (event: { playerUUID: string }) => {
+    const player = this.players.get(event.playerUUID);
+    if (player && player.mode === 'realtime' && !player.loading && !this.writingPlayers.get(event.playerUUID)) {
+      this.refresh(event.playerUUID).catch(error =>
+        console.error('❌ Failed to refresh skill timers:', error)
+      );
+    }
+  };
+
+  constructor(config: Partial<SkillCooldownSchedulerConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ===== SUBSCRIPTIONS =====
+
+  /**
+   * Receive timer snapshots for a player's skills; returns an unsubscribe function
+   */
+  subscribe(playerUUID: string, listener: SkillTimerListener): () => void {
+    const player = this.getOrCreatePlayer(playerUUID);
+    player.listeners.add(listener);
+
+    this.ensureLoaded(player)
+      .then(() => {
+        if (player.listeners.has(listener)) {
+          listener(this.buildSnapshot(player, Date.now()));
+        }
+        this.updateTickTimer();
+      })
+      .catch(error => console.error('❌ Failed to load skill timers:', error));
+
+    return () => {
+      player.listeners.delete(listener);
+      if (player.listeners.size === 0 && player.mode === 'realtime') {
+        this.untrack(playerUUID);
+      }
+      this.updateTickTimer();
+    };
+  }
+
+  /**
+   * Current timers for a player (loads them on first use)
+   */
+  async getTimers(playerUUID: string): Promise<SkillTimerState[]> {
+    const player = this.getOrCreatePlayer(playerUUID);
+    await this.ensureLoaded(player);
+    return this.buildSnapshot(player, Date.now());
+  }
+
+  async getTimer(playerUUID: string, skillId: string): Promise<SkillTimerState | null> {
+    const timers = await this.getTimers(playerUUID);
+    return timers.find(timer => timer.skillId === skillId) || null;
+  }
+
+  /**
+   * Reload a player's skills from storage
+   */
+  async refresh(playerUUID: string): Promise<void> {
+    const player = this.players.get(playerUUID);
+    if (!player) return;
+
+    player.loading = this.loadPlayer(player);
+    try {
+      await player.loading;
+    } finally {
+      player.loading = undefined;
+    }
+    this.notify(player, Date.now());
+    this.updateTickTimer();
+  }
+
+  // ===== SKILL USE =====
+
+  /**
+   * Use a skill: consume a charge, start its cooldown and persist the result
+   */
+  async useSkill(playerUUID: string, skillId: string, options: SkillUseOptions = {}): Promise<SkillTimerState> {
+    const player = this.getOrCreatePlayer(playerUUID);
+    await this.ensureLoaded(player);
+
+    const tracked = player.skills.get(skillId);
+    if (!tracked) {
+      throw new Error(`Skill ${skillId} not found for player ${playerUUID}`);
+    }
+
+    const now = Date.now();
+    const timer = this.buildTimer(player, tracked, now);
+    if (!timer.isReady) {
+      throw new Error(`Skill ${skillId} is not ready`);
+    }
+
+    const cooldownMs = this.getCooldownMs(tracked, options);
+    const updates: Partial<PlayerSkillState> = {};
+
+    if (player.mode === 'turn_based') {
+      tracked.cooldownTurns = this.toTurns(cooldownMs, player.msPerTurn);
+      if (tracked.chargeConfig) {
+        if (timer.charges! >= tracked.chargeConfig.maxCharges) tracked.rechargeTurns = 0;
+        tracked.state.charges = timer.charges! - 1;
+        updates.charges = tracked.state.charges;
+      }
+    } else {
+      const regenerated = ClientsideSkillStorage.regenerateCharges(tracked.state, tracked.chargeConfig, now);
+      Object.assign(tracked.state, regenerated);
+
+      tracked.state.cooldownEndTime = cooldownMs > 0 ? now + cooldownMs : undefined;
+      updates.cooldownEndTime = tracked.state.cooldownEndTime;
+
+      if (tracked.chargeConfig) {
+        tracked.state.charges = regenerated.charges! - 1;
+        tracked.state.rechargeStartTime = regenerated.rechargeStartTime ?? now;
+        updates.charges = tracked.state.charges;
+        updates.rechargeStartTime = tracked.state.rechargeStartTime;
+      }
+    }
+
+    tracked.state.lastUsed = new Date(now).toISOString();
+    updates.lastUsed = tracked.state.lastUsed;
+
+    this.notify(player, now);
+    this.updateTickTimer();
+    this.emit('skillUsed', { playerUUID, skillId, cooldownMs });
+
+    await this.persist(playerUUID, skillId, updates);
+    return this.buildTimer(player, tracked, Date.now());
+  }
+
+  // ===== TURN-BASED MATCHES =====
+
+  /**
+   * Stop the wall clock for a player; cooldowns now advance with advanceTurn()
+   */
+  async startTurnBasedMatch(playerUUID: string, options: { msPerTurn?: number } = {}): Promise<void> {
+    const player = this.getOrCreatePlayer(playerUUID);
+    await this.ensureLoaded(player);
+    if (player.mode === 'turn_based') return;
+
+    const now = Date.now();
+    player.mode = 'turn_based';
+    player.msPerTurn = options.msPerTurn ?? this.config.msPerTurn;
+
+    for (const tracked of player.skills.values()) {
+      Object.assign(tracked.state, ClientsideSkillStorage.regenerateCharges(tracked.state, tracked.chargeConfig, now));
+
+      const remainingMs = Math.max(0, (tracked.state.cooldownEndTime || 0) - now);
+      tracked.cooldownTurns = this.toTurns(remainingMs, player.msPerTurn);
+      tracked.rechargeTurns = tracked.state.rechargeStartTime !== undefined
+        ? Math.floor(Math.max(0, now - tracked.state.rechargeStartTime) / player.msPerTurn)
+        : 0;
+    }
+
+    this.notify(player, now);
+    this.updateTickTimer();
+    this.emit('matchStarted', { playerUUID, msPerTurn: player.msPerTurn });
+  }
+
+  /**
+   * Advance cooldowns and charge regeneration by whole turns
+   */
+  advanceTurn(playerUUID: string, turns: number = 1): SkillTimerState[] {
+    const player = this.players.get(playerUUID);
+    if (!player || player.mode !== 'turn_based') {
+      throw new Error(`Player ${playerUUID} is not in a turn-based match`);
+    }
+
+    const steps = Math.max(0, Math.floor(turns));
+    for (const tracked of player.skills.values()) {
+      tracked.cooldownTurns = Math.max(0, tracked.cooldownTurns - steps);
+
+      const charge = tracked.chargeConfig;
+      if (!charge) continue;
+
+      const charges = tracked.state.charges ?? charge.maxCharges;
+      const intervalTurns = this.toTurns(charge.rechargeInterval, player.msPerTurn);
+      if (charges >= charge.maxCharges || intervalTurns === 0) {
+        tracked.rechargeTurns = 0;
+        continue;
+      }
+
+      tracked.rechargeTurns += steps;
+      const regenerated = Math.floor(tracked.rechargeTurns / intervalTurns);
+      tracked.state.charges = Math.min(charge.maxCharges, charges + regenerated);
+      tracked.rechargeTurns = tracked.state.charges >= charge.maxCharges
+        ? 0
+        : tracked.rechargeTurns - regenerated * intervalTurns;
+    }
+
+    const snapshot = this.buildSnapshot(player, Date.now());
+    this.notify(player, Date.now());
+    return snapshot;
+  }
+
+  /**
+   * Resume the wall clock, carrying remaining turns over as real time, and persist
+   */
+  async endTurnBasedMatch(playerUUID: string): Promise<void> {
+    const player = this.players.get(playerUUID);
+    if (!player || player.mode !== 'turn_based') return;
+
+    const now = Date.now();
+    const writes: Array<[string, Partial<PlayerSkillState>]> = [];
+
+    for (const [skillId, tracked] of player.skills) {
+      const updates: Partial<PlayerSkillState> = {
+        cooldownEndTime: tracked.cooldownTurns > 0 ? now + tracked.cooldownTurns * player.msPerTurn : undefined,
+      };
+
+      if (tracked.chargeConfig) {
+        const charges = tracked.state.charges ?? tracked.chargeConfig.maxCharges;
+        updates.charges = charges;
+        updates.rechargeStartTime = charges < tracked.chargeConfig.maxCharges
+          ? now - tracked.rechargeTurns * player.msPerTurn
+          : undefined;
+      }
+
+      Object.assign(tracked.state, updates);
+      tracked.cooldownTurns = 0;
+      tracked.rechargeTurns = 0;
+      writes.push([skillId, updates]);
+    }
+
+    player.mode = 'realtime';
+    this.notify(player, now);
+    this.updateTickTimer();
+    this.emit('matchEnded', { playerUUID });
+
+    for (const [skillId, updates] of writes) {
+      await this.persist(playerUUID, skillId, updates);
+    }
+
+    if (player.listeners.size === 0) {
+      this.untrack(playerUUID);
+    }
+  }
+
+  isInTurnBasedMatch(playerUUID: string): boolean {
+    return this.players.get(playerUUID)?.mode === 'turn_based';
+  }
+
+  // ===== LIFECYCLE =====
+
+  updateConfig(config: Partial<SkillCooldownSchedulerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.restartTickTimer();
+  }
+
+  getConfig(): SkillCooldownSchedulerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Drop every tracked player and stop ticking
+   */
+  cleanup(): void {
+    for (const playerUUID of Array.from(this.players.keys())) {
+      this.untrack(playerUUID);
+    }
+    this.stopTickTimer();
+  }
+
+  // ===== LOADING =====
+
+  private getOrCreatePlayer(playerUUID: string): TrackedPlayer {
+    let player = this.players.get(playerUUID);
+    if (!player) {
+      if (this.players.size === 0) {
+        ClientsideSkillStorage.on('operationRecorded', this.onStorageChanged);
+      }
+      player = {
+        playerUUID,
+        mode: 'realtime',
+        msPerTurn: this.config.msPerTurn,
+        skills: new Map(),
+        listeners: new Set(),
+        lastSnapshot: '',
+      };
+      this.players.set(playerUUID, player);
+      player.loading = this.loadPlayer(player).finally(() => {
+        player!.loading = undefined;
+      });
+    }
+    return player;
+  }
+
+  private untrack(playerUUID: string): void {
+    this.players.delete(playerUUID);
+    if (this.players.size === 0) {
+      ClientsideSkillStorage.off('operationRecorded', this.onStorageChanged);
+    }
+  }
+
+  private async ensureLoaded(player: TrackedPlayer): Promise<void> {
+    if (player.loading) {
+      await player.loading;
+    }
+  }
+
+  private async loadPlayer(player: TrackedPlayer): Promise<void> {
+    const states = await ClientsideSkillStorage.getPlayerSkillStates(player.playerUUID);
+    const skills = new Map<string, TrackedSkill>();
+
+    for (const state of states) {
+      const battleSkill = await ClientsideSkillStorage.getPlayerSkillForBattle(player.playerUUID, state.skillId);
+      if (!battleSkill) continue;
+
+      const previous = player.skills.get(state.skillId);
+      skills.set(state.skillId, {
+        battleSkill,
+        chargeConfig: ClientsideSkillStorage.getChargeConfig(battleSkill.engineData),
+        state: { ...battleSkill.runtimeState },
+        cooldownTurns: previous?.cooldownTurns || 0,
+        rechargeTurns: previous?.rechargeTurns || 0,
+      });
+    }
+
+    player.skills = skills;
+  }
+
+  private async persist(playerUUID: string, skillId: string, updates: Partial<PlayerSkillState>): Promise<void> {
+    this.writingPlayers.set(playerUUID, (this.writingPlayers.get(playerUUID) || 0) + 1);
+    try {
+      await ClientsideSkillStorage.updateSkillState(playerUUID, skillId, updates);
+    } catch (error) {
+      console.error(`❌ Failed to persist timers for skill ${skillId}:`, error);
+      this.emit('persistFailed', { playerUUID, skillId, error });
+    } finally {
+      // Overlapping persists: only the last one to finish clears the flag
+      const remaining = (this.writingPlayers.get(playerUUID) || 1) - 1;
+      if (remaining > 0) {
+        this.writingPlayers.set(playerUUID, remaining);
+      } else {
+        this.writingPlayers.delete(playerUUID);
+      }
+    }
+  }
+
+  // ===== SNAPSHOTS =====
+
+  private buildSnapshot(player: TrackedPlayer, now: number): SkillTimerState[] {
+    return Array.from(player.skills.values()).map(tracked => this.buildTimer(player, tracked, now));
+  }
+
+  private buildTimer(player: TrackedPlayer, tracked: TrackedSkill, now: number): SkillTimerState {
+    const charge = tracked.chargeConfig;
+    const isActive = tracked.state.isActive;
+
+    if (player.mode === 'turn_based') {
+      const charges = charge ? (tracked.state.charges ?? charge.maxCharges) : tracked.state.charges;
+      const intervalTurns = charge ? this.toTurns(charge.rechargeInterval, player.msPerTurn) : 0;
+      const recharging = !!charge && charges! < charge.maxCharges && intervalTurns > 0;
+
+      return {
+        skillId: tracked.battleSkill.skillId,
+        isReady: isActive && tracked.cooldownTurns === 0 && (charges === undefined || charges > 0),
+        remainingCooldown: 0,
+        remainingCooldownTurns: tracked.cooldownTurns,
+        charges,
+        maxCharges: charge?.maxCharges,
+        nextChargeInTurns: recharging ? intervalTurns - tracked.rechargeTurns : undefined,
+      };
+    }
+
+    const { charges, rechargeStartTime } = ClientsideSkillStorage.regenerateCharges(tracked.state, charge, now);
+    const remainingCooldown = Math.max(0, (tracked.state.cooldownEndTime || 0) - now);
+    const recharging = !!charge && rechargeStartTime !== undefined && charge.rechargeInterval > 0;
+
+    return {
+      skillId: tracked.battleSkill.skillId,
+      isReady: isActive && remainingCooldown === 0 && (charges === undefined || charges > 0),
+      remainingCooldown,
+      remainingCooldownTurns: 0,
+      charges,
+      maxCharges: charge?.maxCharges,
+      nextChargeIn: recharging ? Math.max(0, rechargeStartTime! + charge!.rechargeInterval - now) : undefined,
+    };
+  }
+
+  private notify(player: TrackedPlayer, now: number): void {
+    if (player.listeners.size === 0) return;
+
+    const snapshot = this.buildSnapshot(player, now);
+    const serialized = JSON.stringify(snapshot);
+    if (serialized === player.lastSnapshot) return;
+
+    player.lastSnapshot = serialized;
+    player.listeners.forEach(listener => listener(snapshot));
+  }
+
+  // ===== TICKING =====
+
+  /**
+   * Run the wall-clock timer only while a subscribed real-time player has something counting down
+   */
+  private updateTickTimer(): void {
+    const now = Date.now();
+    const needsTick = Array.from(this.players.values()).some(player =>
+      player.mode === 'realtime' &&
+      player.listeners.size > 0 &&
+      this.buildSnapshot(player, now).some(timer =>
+        timer.remainingCooldown > 0 || timer.nextChargeIn !== undefined
+      )
+    );
+
+    if (needsTick && !this.tickTimer) {
+      this.tickTimer = setInterval(() => this.tick(), this.config.tickInterval);
+    } else if (!needsTick) {
+      this.stopTickTimer();
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    for (const player of this.players.values()) {
+      if (player.mode === 'realtime') {
+        this.notify(player, now);
+      }
+    }
+    this.updateTickTimer();
+  }
+
+  private restartTickTimer(): void {
+    this.stopTickTimer();
+    this.updateTickTimer();
+  }
+
+  private stopTickTimer(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  // ===== UTILITY METHODS =====
+
+  /**
+   * Cooldown for a use, scaled by skill level like BattleEngine does
+   */
+  private getCooldownMs(tracked: TrackedSkill, options: SkillUseOptions): number {
+    if (options.cooldownMs !== undefined) return Math.max(0, options.cooldownMs);
+
+    const { battleSkill } = tracked;
+    const abilities: SkillAbility[] = battleSkill.summary.abilities || [];
+    const ability = options.abilityId
+      ? abilities.find(a => a.id === options.abilityId)
+      : abilities[0];
+    if (options.abilityId && !ability) {
+      throw new Error(`Ability ${options.abilityId} not found on skill ${battleSkill.skillId}`);
+    }
+    if (!ability) return 0;
+
+    const baseMs = battleSkill.engineData?.cooldowns?.[ability.id] ?? ability.cooldown ?? 0;
+    return scaleCooldownForLevel(baseMs, tracked.state.level, getLevelScaling(battleSkill.engineData));
+  }
+
+  private toTurns(ms: number, msPerTurn: number): number {
+    return ms > 0 ? Math.ceil(ms / msPerTurn) : 0;
+  }
+}
+
+// Export singleton instance
+export const skillCooldownScheduler = new SkillCooldownScheduler();
@@ -0,0 +1,536 @@
+/**
+ * SkillFormula - Sandboxed Expression Language for SkillEngineData.formulas
+ *
+ * Designers author skill math as plain strings, e.g.
+ *   "base * (1 + level * 0.05) - target.defense"
+ *
+ * Features:
+ * - Hand-written tokenizer + recursive-descent parser (no eval / Function)
+ * - Numbers only: arithmetic, comparisons, && / ||, ternaries (true = 1, false = 0)
+ * - Whitelisted variables (base, level, caster.*, target.*) and math functions
+ * - Length and nesting limits so authored content can't exhaust the stack
+ * - Compiled formulas are cached by source string
+ *
+ * Formula keys:
+ * - `damage` / `heal`: apply to every ability of the skill
+ * - `<abilityId>:damage` / `<abilityId>:heal`: override for a single ability
+ */
+
+// ===== INTERFACES =====
+
+export interface FormulaCombatant {
+  hp: number;
+  maxHp: number;
+  mana: number;
+  maxMana: number;
+  attack: number;
+  defense: number;
+  speed: number;
+}
+
+export interface FormulaContext {
+  base: number; // SkillAbility.damage (or 0)
+  level: number; // PlayerSkillState.level
+  caster: FormulaCombatant;
+  target: FormulaCombatant;
+}
+
+export interface FormulaIssue {
+  key: string;
+  message: string;
+  position?: number;
+}
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; path: string[]; position: number }
+  | { kind: 'unary'; operator: '-' | '+' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number };
+
+export interface CompiledFormula {
+  source: string;
+  ast: FormulaNode;
+  evaluate(context: FormulaContext): number;
+}
+
+// ===== ERRORS =====
+
+export class FormulaError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+export class FormulaValidationError extends Error {
+  issues: FormulaIssue[];
+
+  constructor(issues: FormulaIssue[]) {
+    super(`Invalid skill formulas: ${issues.map(i => `${i.key}: ${i.message}`).join('; ')}`);
+    this.name = 'FormulaValidationError';
+    this.issues = issues;
+  }
+}
+
+// ===== LANGUAGE DEFINITION =====
+
+const MAX_FORMULA_LENGTH = 500;
+const MAX_NESTING_DEPTH = 32;
+
+const COMBATANT_FIELDS: Array<keyof FormulaCombatant> = [
+  'hp', 'maxHp', 'mana', 'maxMana', 'attack', 'defense', 'speed',
+];
+
+const FORMULA_VARIABLES = new Set<string>([
+  'base',
+  'level',
+  ...COMBATANT_FIELDS.map(field => `caster.${field}`),
+  ...COMBATANT_FIELDS.map(field => `target.${field}`),
+]);
+
+type FormulaFunction = { arity: [number, number]; fn: (...args: number[]) => number };
+
+// A Map so names like 'toString' or 'constructor' never resolve to Object.prototype
+const FORMULA_FUNCTIONS = new Map<string, FormulaFunction>([
+  ['min', { arity: [1, Infinity], fn: Math.min }],
+  ['max', { arity: [1, Infinity], fn: Math.max }],
+  ['abs', { arity: [1, 1], fn: Math.abs }],
+  ['floor', { arity: [1, 1], fn: Math.floor }],
+  ['ceil', { arity: [1, 1], fn: Math.ceil }],
+  ['round', { arity: [1, 1], fn: Math.round }],
+  ['sqrt', { arity: [1, 1], fn: Math.sqrt }],
+  ['pow', { arity: [2, 2], fn: Math.pow }],
+  ['clamp', { arity: [3, 3], fn: (value, lo, hi) => Math.min(Math.max(value, lo), hi) }],
+]);
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ',', '.'];
+
+// ===== TOKENIZER =====
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new FormulaError(`Unexpected character '${char}'`, i);
+    }
+    tokens.push({ type: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+// ===== PARSER =====
+
+class FormulaParser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): FormulaNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new FormulaError(`Unexpected '${this.describe(token)}'`, token.position);
+    }
+    return node;
+  }
+
+  private parseExpression(): FormulaNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new FormulaError('Formula is nested too deeply', this.peek().position);
+    }
+    try {
+      return this.parseConditional();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(0);
+    if (!this.matchOperator('?')) {
+      return test;
+    }
+    const consequent = this.parseExpression();
+    this.expectOperator(':');
+    const alternate = this.parseExpression();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  // Precedence climbing, lowest first; '^' is handled in parseUnary (right-associative)
+  private static readonly PRECEDENCE: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): FormulaNode {
+    if (level >= FormulaParser.PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let token = this.peek();
+    while (token.type === 'operator' && FormulaParser.PRECEDENCE[level].includes(token.value)) {
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator: token.value, left, right };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+      this.index++;
+      if (++this.depth > MAX_NESTING_DEPTH) {
+        throw new FormulaError('Formula is nested too deeply', token.position);
+      }
+      try {
+        return { kind: 'unary', operator: token.value, operand: this.parseUnary() };
+      } finally {
+        this.depth--;
+      }
+    }
+
+    const base = this.parsePrimary();
+    if (this.matchOperator('^')) {
+      return { kind: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      if (this.matchOperator('(')) {
+        const args: FormulaNode[] = [];
+        if (!this.matchOperator(')')) {
+          do {
+            args.push(this.parseExpression());
+          } while (this.matchOperator(','));
+          this.expectOperator(')');
+        }
+        return { kind: 'call', name: token.value, args, position: token.position };
+      }
+
+      const path = [token.value];
+      while (this.matchOperator('.')) {
+        const member = this.next();
+        if (member.type !== 'identifier') {
+          throw new FormulaError(`Expected property name after '.'`, member.position);
+        }
+        path.push(member.value);
+      }
+      return { kind: 'variable', path, position: token.position };
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const inner = this.parseExpression();
+      this.expectOperator(')');
+      return inner;
+    }
+
+    throw new FormulaError(
+      token.type === 'end' ? 'Unexpected end of formula' : `Unexpected '${this.describe(token)}'`,
+      token.position
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.peek();
+    if (!this.matchOperator(value)) {
+      throw new FormulaError(`Expected '${value}' but found '${this.describe(token)}'`, token.position);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of formula' : String(token.value);
+  }
+}
+
+// ===== STATIC CHECKS =====
+
+function checkNode(node: FormulaNode): void {
+  switch (node.kind) {
+    case 'number':
+      return;
+    case 'variable': {
+      const name = node.path.join('.');
+      if (!FORMULA_VARIABLES.has(name)) {
+        throw new FormulaError(`Unknown variable '${name}'`, node.position);
+      }
+      return;
+    }
+    case 'unary':
+      checkNode(node.operand);
+      return;
+    case 'binary':
+      checkNode(node.left);
+      checkNode(node.right);
+      return;
+    case 'conditional':
+      checkNode(node.test);
+      checkNode(node.consequent);
+      checkNode(node.alternate);
+      return;
+    case 'call': {
+      const definition = FORMULA_FUNCTIONS.get(node.name);
+      if (!definition) {
+        throw new FormulaError(`Unknown function '${node.name}'`, node.position);
+      }
+      const [minArgs, maxArgs] = definition.arity;
+      if (node.args.length < minArgs || node.args.length > maxArgs) {
+        throw new FormulaError(`Wrong number of arguments for '${node.name}'`, node.position);
+      }
+      node.args.forEach(checkNode);
+      return;
+    }
+  }
+}
+
+// ===== EVALUATOR =====
+
+function evaluateNode(node: FormulaNode, context: FormulaContext): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'variable': {
+      const [head, field] = node.path;
+      if (head === 'caster' || head === 'target') {
+        return toNumber(context[head]?.[field as keyof FormulaCombatant]);
+      }
+      return toNumber(context[head as 'base' | 'level']);
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+      if (node.operator === '-') return -operand;
+      if (node.operator === '!') return operand ? 0 : 1;
+      return operand;
+    }
+
+    case 'binary': {
+      // Short-circuit logical operators
+      if (node.operator === '&&') {
+        return evaluateNode(node.left, context) && evaluateNode(node.right, context) ? 1 : 0;
+      }
+      if (node.operator === '||') {
+        return evaluateNode(node.left, context) || evaluateNode(node.right, context) ? 1 : 0;
+      }
+
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case '^': return Math.pow(left, right);
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+      }
+      throw new FormulaError(`Unknown operator '${node.operator}'`);
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, context)
+        ? evaluateNode(node.consequent, context)
+        : evaluateNode(node.alternate, context);
+
+    case 'call': {
+      const definition = FORMULA_FUNCTIONS.get(node.name);
+      if (!definition) {
+        throw new FormulaError(`Unknown function '${node.name}'`, node.position);
+      }
+      return definition.fn(...node.args.map(arg => evaluateNode(arg, context)));
+    }
+  }
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+// ===== PUBLIC API =====
+
+const compiledCache = new Map<string, CompiledFormula>();
+const MAX_CACHED_FORMULAS = 500;
+
+/**
+ * Parse and statically check a formula. Throws FormulaError on invalid input.
+ */
+export function compileFormula(source: string): CompiledFormula {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  if (typeof source !== 'string') {
+    throw new FormulaError('Formula must be a string');
+  }
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula exceeds ${MAX_FORMULA_LENGTH} characters`);
+  }
+  if (source.trim() === '') {
+    throw new FormulaError('Formula is empty');
+  }
+
+  const ast = new FormulaParser(tokenize(source)).parse();
+  checkNode(ast);
+
+  const compiled: CompiledFormula = {
+    source,
+    ast,
+    evaluate(context: FormulaContext): number {
+      const result = evaluateNode(ast, context);
+      if (!Number.isFinite(result)) {
+        throw new FormulaError(`Formula '${source}' produced a non-finite result`);
+      }
+      return result;
+    },
+  };
+
+  if (compiledCache.size >= MAX_CACHED_FORMULAS) {
+    const oldestKey = compiledCache.keys().next().value;
+    if (oldestKey !== undefined) compiledCache.delete(oldestKey);
+  }
+  compiledCache.set(source, compiled);
+
+  return compiled;
+}
+
+/**
+ * Compile and evaluate a formula in one call
+ */
+export function evaluateFormula(source: string, context: FormulaContext): number {
+  return compileFormula(source).evaluate(context);
+}
+
+/**
+ * Validate every entry of SkillEngineData.formulas, returning all issues found
+ */
+export function validateFormulas(formulas: Record<string, unknown> | undefined): FormulaIssue[] {
+  const issues: FormulaIssue[] = [];
+  if (!formulas) return issues;
+
+  for (const [key, source] of Object.entries(formulas)) {
+    if (typeof source !== 'string') {
+      issues.push({ key, message: 'Formula must be a string' });
+      continue;
+    }
+    try {
+      compileFormula(source);
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        issues.push({ key, message: error.message, position: error.position });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw a FormulaValidationError if any formula is invalid
+ */
+export function assertValidFormulas(formulas: Record<string, unknown> | undefined): void {
+  const issues = validateFormulas(formulas);
+  if (issues.length > 0) {
+    throw new FormulaValidationError(issues);
+  }
+}
+
+/**
+ * Look up the formula for an ability, preferring the ability-specific key
+ */
+export function resolveFormula(
+  formulas: Record<string, string> | undefined,
+  abilityId: string,
+  name: 'damage' | 'heal'
+): string | undefined {
+  if (!formulas) return undefined;
+  return formulas[`${abilityId}:${name}`] ?? formulas[name];
+}
+
+/**
+ * List of variables available to formulas (for editor autocomplete / docs)
+ */
+export function getFormulaVariables(): string[] {
+  return Array.from(FORMULA_VARIABLES);
+}
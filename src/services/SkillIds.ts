@@ -0,0 +1,108 @@
+/**
+ * SkillIds - Skill ID Generation and Validation
+ *
+ * Skill IDs end up in AsyncStorage keys (`skill_engine_<id>`), URLs, WebSocket
+ * messages and logs, so they are restricted to a URL-safe alphabet:
+ * - Random IDs: 21 characters of [A-Za-z0-9_-] from crypto.getRandomValues
+ *   (installed on Hermes by react-native-get-random-values in index.ts)
+ * - Deterministic IDs for templates: `<namespace>.<slug>`, e.g. "core.combat.cleave"
+ * - Dots only separate segments; no empty segments, no leading/trailing dots
+ */
+
+// ===== CONSTANTS =====
+
+export const SKILL_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-';
+export const RANDOM_SKILL_ID_LENGTH = 21; // ~126 bits of randomness
+export const MAX_SKILL_ID_LENGTH = 128;
+export const SKILL_ID_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+
+// ===== ERRORS =====
+
+export class SkillIdError extends Error {
+  skillId: string;
+
+  constructor(skillId: string, message: string) {
+    super(message);
+    this.name = 'SkillIdError';
+    this.skillId = skillId;
+  }
+}
+
+// ===== VALIDATION =====
+
+/**
+ * Reason an ID is unusable, or null if it is valid
+ */
+export function getSkillIdIssue(skillId: unknown): string | null {
+  if (typeof skillId !== 'string' || skillId.length === 0) {
+    return 'Skill ID must be a non-empty string';
+  }
+  if (skillId.length > MAX_SKILL_ID_LENGTH) {
+    return `Skill ID must be at most ${MAX_SKILL_ID_LENGTH} characters`;
+  }
+  if (!SKILL_ID_PATTERN.test(skillId)) {
+    return 'Skill ID may only contain letters, digits, "_", "-" and "." between segments';
+  }
+  return null;
+}
+
+export function isValidSkillId(skillId: unknown): skillId is string {
+  return getSkillIdIssue(skillId) === null;
+}
+
+export function assertValidSkillId(skillId: string): void {
+  const issue = getSkillIdIssue(skillId);
+  if (issue) {
+    throw new SkillIdError(skillId, `${issue}: "${skillId}"`);
+  }
+}
+
+// ===== GENERATION =====
+
+/**
+ * Random URL-safe ID
+ */
+export function generateRandomSkillId(length: number = RANDOM_SKILL_ID_LENGTH): string {
+  const bytes = getRandomBytes(length);
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    // 256 is a multiple of 64, so masking keeps the distribution uniform
+    result += SKILL_ID_ALPHABET[bytes[i] & 63];
+  }
+  return result;
+}
+
+/**
+ * Lowercase slug: runs of anything outside [a-z0-9_] become a single "-"
+ */
+export function slugifySkillIdSegment(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Deterministic template ID: the same namespace and name always give the same ID.
+ * Namespaces may be dotted ("core.combat").
+ */
+export function createDeterministicSkillId(namespace: string, slug: string): string {
+  const namespaceSegments = namespace.split('.').map(slugifySkillIdSegment);
+  const skillId = [...namespaceSegments, slugifySkillIdSegment(slug)].join('.');
+  assertValidSkillId(skillId);
+  return skillId;
+}
+
+function getRandomBytes(length: number): Uint8Array {
+  const cryptoApi = (globalThis as any).crypto;
+  if (!cryptoApi || typeof cryptoApi.getRandomValues !== 'function') {
+    // Never fall back to Math.random: predictable IDs could be guessed or collide
+    throw new Error('crypto.getRandomValues is unavailable - import react-native-get-random-values before generating skill IDs');
+  }
+
+  const bytes = new Uint8Array(length);
+  cryptoApi.getRandomValues(bytes);
+  return bytes;
+}
@@ -0,0 +1,408 @@
+/**
+ * SkillLoadoutService - Named Active-Skill Sets per Player
+ *
+ * Lets a player keep separate setups (PvP, PvE, clan wars...) instead of a
+ * single PlayerSkillState.isActive flag:
+ * - Loadouts are stored alongside the player inventory (`player_loadouts_<uuid>`
+ *   in ClientsideSkillStorage's configured KeyValueStore)
+ * - Each loadout has a fixed number of slots plus rarity/category limits
+ *   (e.g. at most one legendary)
+ * - Every slot is validated against the skills the player owns in SkillsDB
+ *   and holds in ClientsideSkillStorage
+ * - Activating a loadout (e.g. when entering a lobby) flips isActive on the
+ *   player's skill states so battle code keeps working unchanged
+ */
+
+import { skillsDB, SkillsDB, SkillSummary } from './SkillsDB';
+import { ClientsideSkillStorage } from './ClientsideSkillStorage';
+import { EventEmitter } from './EventEmitter';
+import { KeyedTaskQueue } from './KeyedTaskQueue';
+import { parseStoredJSON } from './StorageMigrations';
+
+// ===== CONFIGURATION =====
+
+type SkillRarity = SkillSummary['rarity'];
+
+export interface LoadoutConstraints {
+  slotCount: number;
+  maxPerRarity: Partial<Record<SkillRarity, number>>;
+  maxPerCategory: Record<string, number>;
+}
+
+export interface SkillLoadoutConfig {
+  maxLoadouts: number; // Per player
+  maxNameLength: number;
+  defaultConstraints: LoadoutConstraints;
+  skillsDB: SkillsDB; // Where slot ownership, rarity and category are looked up
+}
+
+const DEFAULT_CONFIG: SkillLoadoutConfig = {
+  maxLoadouts: 10,
+  maxNameLength: 32,
+  defaultConstraints: {
+    slotCount: 6,
+    maxPerRarity: { legendary: 1, epic: 2 },
+    maxPerCategory: {},
+  },
+  skillsDB,
+};
+
+const LOADOUT_KEY_PREFIX = 'player_loadouts_';
+
+// ===== INTERFACES =====
+
+export interface SkillLoadout {
+  id: string;
+  name: string;
+  slots: Array<string | null>; // skillId per slot, null = empty
+  constraints: LoadoutConstraints;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlayerLoadouts {
+  playerUUID: string;
+  loadouts: SkillLoadout[];
+  activeLoadoutId: string | null;
+  version: number; // Bumped on every write
+}
+
+export type LoadoutIssueCode =
+  | 'invalid_name'
+  | 'duplicate_name'
+  | 'slot_count'
+  | 'duplicate_skill'
+  | 'not_owned'
+  | 'rarity_limit'
+  | 'category_limit';
+
+export interface LoadoutIssue {
+  code: LoadoutIssueCode;
+  message: string;
+  slot?: number;
+  skillId?: string;
+}
+
+export interface LoadoutInput {
+  name: string;
+  slots?: Array<string | null>;
+  constraints?: Partial<LoadoutConstraints>;
+}
+
+// ===== ERRORS =====
+
+export class LoadoutValidationError extends Error {
+  issues: LoadoutIssue[];
+
+  constructor(issues: LoadoutIssue[]) {
+    super(`Invalid skill loadout: ${issues.map(i => i.message).join('; ')}`);
+    this.name = 'LoadoutValidationError';
+    this.issues = issues;
+  }
+}
+
+// ===== LOADOUT SERVICE =====
+
+export class SkillLoadoutService extends EventEmitter {
+  private config: SkillLoadoutConfig;
+  private idCounter = 0;
+  private playerQueue = new KeyedTaskQueue(); // Serializes each player's loadout edits
+
+  constructor(config: Partial<SkillLoadoutConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ===== READS =====
+
+  async getLoadouts(playerUUID: string): Promise<SkillLoadout[]> {
+    const record = await this.readRecord(playerUUID);
+    return record.loadouts;
+  }
+
+  async getLoadout(playerUUID: string, loadoutId: string): Promise<SkillLoadout | null> {
+    const loadouts = await this.getLoadouts(playerUUID);
+    return loadouts.find(loadout => loadout.id === loadoutId) || null;
+  }
+
+  async getActiveLoadout(playerUUID: string): Promise<SkillLoadout | null> {
+    const record = await this.readRecord(playerUUID);
+    return record.loadouts.find(loadout => loadout.id === record.activeLoadoutId) || null;
+  }
+
+  // ===== WRITES =====
+
+  /**
+   * Create a loadout; throws LoadoutValidationError if it breaks any rule
+   */
+  async createLoadout(playerUUID: string, input: LoadoutInput): Promise<SkillLoadout> {
+    return this.playerQueue.run(playerUUID, async () => {
+      const record = await this.readRecord(playerUUID);
+      if (record.loadouts.length >= this.config.maxLoadouts) {
+        throw new Error(`A player can have at most ${this.config.maxLoadouts} loadouts`);
+      }
+
+      const constraints = { ...this.config.defaultConstraints, ...input.constraints };
+      const now = new Date().toISOString();
+      const loadout: SkillLoadout = {
+        id: this.generateLoadoutId(),
+        name: input.name.trim(),
+        slots: this.normalizeSlots(input.slots || [], constraints.slotCount),
+        constraints,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.assertValid(playerUUID, loadout, record.loadouts);
+      record.loadouts.push(loadout);
+      await this.writeRecord(record);
+
+      this.emit('loadoutCreated', { playerUUID, loadout });
+      return loadout;
+    });
+  }
+
+  /**
+   * Rename a loadout or change its slots/constraints
+   */
+  async updateLoadout(
+    playerUUID: string,
+    loadoutId: string,
+    updates: Partial<LoadoutInput>
+  ): Promise<SkillLoadout> {
+    return this.editLoadout(playerUUID, loadoutId, () => updates);
+  }
+
+  /**
+   * Put a skill into a slot (null empties it)
+   */
+  async setSlot(
+    playerUUID: string,
+    loadoutId: string,
+    slotIndex: number,
+    skillId: string | null
+  ): Promise<SkillLoadout> {
+    return this.editLoadout(playerUUID, loadoutId, current => {
+      if (!Number.isInteger(slotIndex) || slotIndex < 0 || slotIndex >= current.constraints.slotCount) {
+        throw new Error(`Slot ${slotIndex} is out of range for loadout "${current.name}"`);
+      }
+      const slots = [...current.slots];
+      slots[slotIndex] = skillId;
+      return { slots };
+    });
+  }
+
+  async deleteLoadout(playerUUID: string, loadoutId: string): Promise<void> {
+    await this.playerQueue.run(playerUUID, async () => {
+      const record = await this.readRecord(playerUUID);
+      const remaining = record.loadouts.filter(loadout => loadout.id !== loadoutId);
+      if (remaining.length === record.loadouts.length) return;
+
+      record.loadouts = remaining;
+      if (record.activeLoadoutId === loadoutId) {
+        record.activeLoadoutId = null;
+      }
+      await this.writeRecord(record);
+      this.emit('loadoutDeleted', { playerUUID, loadoutId });
+    });
+  }
+
+  /**
+   * Make a loadout the one in use (e.g. when entering a lobby).
+   * Re-validates first, since skills may have been traded away since it was saved.
+   */
+  async activateLoadout(playerUUID: string, loadoutId: string): Promise<SkillLoadout> {
+    return this.playerQueue.run(playerUUID, async () => {
+      const record = await this.readRecord(playerUUID);
+      const loadout = record.loadouts.find(l => l.id === loadoutId);
+      if (!loadout) {
+        throw new Error(`Loadout ${loadoutId} not found for player ${playerUUID}`);
+      }
+
+      await this.assertValid(playerUUID, loadout, record.loadouts.filter(l => l.id !== loadoutId));
+      await this.applyToSkillStates(playerUUID, loadout);
+
+      record.activeLoadoutId = loadoutId;
+      await this.writeRecord(record);
+
+      this.emit('loadoutActivated', { playerUUID, loadout });
+      console.log(`✅ Activated loadout "${loadout.name}" for player ${playerUUID}`);
+      return loadout;
+    });
+  }
+
+  // ===== VALIDATION =====
+
+  /**
+   * Every rule the loadout breaks (empty when valid)
+   */
+  async validateLoadout(
+    playerUUID: string,
+    loadout: Pick<SkillLoadout, 'name' | 'slots' | 'constraints'>,
+    otherLoadouts: SkillLoadout[] = []
+  ): Promise<LoadoutIssue[]> {
+    const issues: LoadoutIssue[] = [];
+    const { constraints } = loadout;
+
+    if (!loadout.name || loadout.name.length > this.config.maxNameLength) {
+      issues.push({
+        code: 'invalid_name',
+        message: `Loadout name must be 1-${this.config.maxNameLength} characters`,
+      });
+    } else if (otherLoadouts.some(other => other.name.toLowerCase() === loadout.name.toLowerCase())) {
+      issues.push({ code: 'duplicate_name', message: `A loadout named "${loadout.name}" already exists` });
+    }
+
+    if (!Number.isInteger(constraints.slotCount) || constraints.slotCount < 1) {
+      issues.push({ code: 'slot_count', message: 'A loadout needs at least one slot' });
+    } else if (loadout.slots.length > constraints.slotCount) {
+      issues.push({
+        code: 'slot_count',
+        message: `Loadout has ${loadout.slots.length} slots but allows ${constraints.slotCount}`,
+      });
+    }
+
+    const filled = loadout.slots
+      .map((skillId, slot) => ({ skillId, slot }))
+      .filter((entry): entry is { skillId: string; slot: number } => !!entry.skillId);
+
+    // Ownership: the skill must be the player's in SkillsDB and in their inventory
+    const owned = new Set((await ClientsideSkillStorage.getPlayerSkillStates(playerUUID)).map(s => s.skillId));
+    const summaries = await this.config.skillsDB.getSkillSummaries(filled.map(entry => entry.skillId));
+
+    const seen = new Set<string>();
+    const rarityCounts: Partial<Record<SkillRarity, number>> = {};
+    const categoryCounts: Record<string, number> = {};
+
+    for (const { skillId, slot } of filled) {
+      if (seen.has(skillId)) {
+        issues.push({ code: 'duplicate_skill', slot, skillId, message: `Slot ${slot + 1}: skill is already equipped` });
+        continue;
+      }
+      seen.add(skillId);
+
+      const summary = summaries.get(skillId);
+      if (!summary || summary.ownerId !== playerUUID || !owned.has(skillId)) {
+        issues.push({ code: 'not_owned', slot, skillId, message: `Slot ${slot + 1}: skill is not owned by this player` });
+        continue;
+      }
+
+      rarityCounts[summary.rarity] = (rarityCounts[summary.rarity] || 0) + 1;
+      categoryCounts[summary.category] = (categoryCounts[summary.category] || 0) + 1;
+    }
+
+    for (const [rarity, count] of Object.entries(rarityCounts) as Array<[SkillRarity, number]>) {
+      const limit = constraints.maxPerRarity[rarity];
+      if (limit !== undefined && count > limit) {
+        issues.push({ code: 'rarity_limit', message: `At most ${limit} ${rarity} skill(s) allowed, found ${count}` });
+      }
+    }
+
+    for (const [category, count] of Object.entries(categoryCounts)) {
+      const limit = constraints.maxPerCategory[category];
+      if (limit !== undefined && count > limit) {
+        issues.push({ code: 'category_limit', message: `At most ${limit} ${category} skill(s) allowed, found ${count}` });
+      }
+    }
+
+    return issues;
+  }
+
+  private async editLoadout(
+    playerUUID: string,
+    loadoutId: string,
+    getUpdates: (current: SkillLoadout) => Partial<LoadoutInput>
+  ): Promise<SkillLoadout> {
+    return this.playerQueue.run(playerUUID, async () => {
+      const record = await this.readRecord(playerUUID);
+      const index = record.loadouts.findIndex(loadout => loadout.id === loadoutId);
+      if (index === -1) {
+        throw new Error(`Loadout ${loadoutId} not found for player ${playerUUID}`);
+      }
+
+      const current = record.loadouts[index];
+      const updates = getUpdates(current);
+      const constraints = { ...current.constraints, ...updates.constraints };
+      const updated: SkillLoadout = {
+        ...current,
+        name: updates.name !== undefined ? updates.name.trim() : current.name,
+        slots: this.normalizeSlots(updates.slots || current.slots, constraints.slotCount),
+        constraints,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await this.assertValid(playerUUID, updated, record.loadouts.filter(l => l.id !== loadoutId));
+      record.loadouts[index] = updated;
+      await this.writeRecord(record);
+
+      this.emit('loadoutUpdated', { playerUUID, loadout: updated });
+
+      // Keep isActive in step with the loadout currently in use
+      if (record.activeLoadoutId === loadoutId) {
+        await this.applyToSkillStates(playerUUID, updated);
+      }
+      return updated;
+    });
+  }
+
+  private async assertValid(playerUUID: string, loadout: SkillLoadout, otherLoadouts: SkillLoadout[]): Promise<void> {
+    const issues = await this.validateLoadout(playerUUID, loadout, otherLoadouts);
+    if (issues.length > 0) {
+      throw new LoadoutValidationError(issues);
+    }
+  }
+
+  // ===== CONFIGURATION =====
+
+  updateConfig(config: Partial<SkillLoadoutConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): SkillLoadoutConfig {
+    return { ...this.config };
+  }
+
+  // ===== STORAGE =====
+
+  private async readRecord(playerUUID: string): Promise<PlayerLoadouts> {
+    const stored = await ClientsideSkillStorage.getStorage().getItem(this.getStorageKey(playerUUID));
+    return parseStoredJSON<PlayerLoadouts>(stored) || { playerUUID, loadouts: [], activeLoadoutId: null, version: 0 };
+  }
+
+  private async writeRecord(record: PlayerLoadouts): Promise<void> {
+    record.version++;
+    await ClientsideSkillStorage.getStorage().setItem(this.getStorageKey(record.playerUUID), JSON.stringify(record));
+  }
+
+  /**
+   * Only the loadout's skills stay active; everything else is benched (one inventory write)
+   */
+  private async applyToSkillStates(playerUUID: string, loadout: SkillLoadout): Promise<void> {
+    const equipped = loadout.slots.filter((skillId): skillId is string => !!skillId);
+    await ClientsideSkillStorage.setActiveSkills(playerUUID, equipped);
+  }
+
+  // ===== UTILITY METHODS =====
+
+  /**
+   * Pad with empty slots up to slotCount; extra slots are kept so validation can report them
+   */
+  private normalizeSlots(slots: Array<string | null>, slotCount: number): Array<string | null> {
+    const normalized = slots.map(skillId => skillId || null);
+    while (normalized.length < slotCount) {
+      normalized.push(null);
+    }
+    return normalized;
+  }
+
+  private getStorageKey(playerUUID: string): string {
+    return `${LOADOUT_KEY_PREFIX}${playerUUID}`;
+  }
+
+  private generateLoadoutId(): string {
+    return `loadout_${Date.now()}_${++this.idCounter}`;
+  }
+}
+
+// Export singleton instance
+export const skillLoadouts = new SkillLoadoutService();
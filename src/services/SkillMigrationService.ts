@@ -1,15 +1,26 @@
 /**
- * SkillMigrationService - Handles migration of skills from InventoryDB to ClientsideSkillStorage
- * 
+ * SkillMigrationService - Handles migration of skills from InventoryDB to SkillsDB + ClientsideSkillStorage
+ *
  * This service is responsible for:
  * - Fetching skills from Supabase InventoryDB table
- * - Converting them to the ClientsideSkillStorage format
- * - Storing them locally after email confirmation
- * - Handling the migration process during registration
+ * - Creating a player-owned SkillsDB summary for each row (the Knowledge Base entry),
+ *   with an ID derived from the row so interrupted runs never create duplicates
+ * - Creating the matching PlayerSkillState runtime entry (the Player's Bookshelf)
+ * - Recording a per-player migration version so re-running is a no-op
+ * - Reporting per-skill failures; failed rows are retried on the next run
  */
 
 import { supabase } from '../lib/supabase';
-import { ClientsideSkillStorage, PlayerSkill } from './ClientsideSkillStorage';
+import { ClientsideSkillStorage, PlayerSkillState } from './ClientsideSkillStorage';
+import { skillsDB, SkillSummary } from './SkillsDB';
+import { createDeterministicSkillId } from './SkillIds';
+
+// Bump when the InventoryDB → SkillsDB mapping changes; players below it are migrated again
+export const SKILL_MIGRATION_VERSION = 1;
+
+const MIGRATION_KEY_PREFIX = 'skill_migration_';
+const MIGRATED_SKILL_NAMESPACE = 'inventory';
+const VALID_RARITIES: SkillSummary['rarity'][] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
 
 export interface InventoryDBSkill {
   id: string;
@@ -27,85 +38,211 @@ export interface InventoryDBSkill {
   updated_at: string;
 }
 
+export interface SkillMigrationFailure {
+  inventoryId: string;
+  skillName?: string;
+  error: string;
+}
+
+export interface SkillMigrationResult {
+  playerUUID: string;
+  status: 'migrated' | 'partial' | 'already_migrated' | 'no_skills' | 'failed';
+  migrationVersion: number;
+  migratedCount: number; // Rows migrated in this run
+  skippedCount: number; // Rows already migrated by an earlier run
+  failures: SkillMigrationFailure[];
+  error?: string; // Set when the whole run failed (e.g. InventoryDB unreachable)
+}
+
+export interface SkillMigrationStatus {
+  hasInventorySkills: boolean;
+  hasLocalSkills: boolean;
+  needsMigration: boolean;
+  inventorySkillCount: number;
+  localSkillCount: number;
+  migrationVersion: number | null; // Version stored for this player, null if never migrated
+  pendingFailures: number;
+}
+
+// Stored per player under skill_migration_<uuid>
+interface SkillMigrationRecord {
+  version: number;
+  migratedAt: string;
+  skillIdMap: Record<string, string>; // InventoryDB row id -> SkillsDB skillId
+  failures: SkillMigrationFailure[];
+}
+
 export class SkillMigrationService {
   /**
-   * Fetch skills from InventoryDB table for a specific player
+   * Fetch skills from InventoryDB table for a specific player.
+   * Throws on query errors so a failed fetch is never recorded as "no skills".
    */
   static async fetchSkillsFromInventoryDB(playerUUID: string): Promise<InventoryDBSkill[]> {
-    try {
-      const { data, error } = await supabase
-        .from('InventoryDB')
-        .select('*')
-        .eq('player_uuid', playerUUID);
-
-      if (error) {
-        console.error('❌ Error fetching skills from InventoryDB:', error);
-        return [];
-      }
+    const { data, error } = await supabase
+      .from('InventoryDB')
+      .select('*')
+      .eq('player_uuid', playerUUID);
 
-      return data || [];
-    } catch (error) {
-      console.error('❌ Error in fetchSkillsFromInventoryDB:', error);
-      return [];
+    if (error) {
+      console.error('❌ Error fetching skills from InventoryDB:', error);
+      throw new Error(`Failed to fetch InventoryDB skills: ${error.message}`);
     }
+
+    return (data || []) as InventoryDBSkill[];
   }
 
   /**
-   * Convert InventoryDB skill format to ClientsideSkillStorage format
+   * Convert an InventoryDB row to a player-owned SkillsDB summary
    */
-  static convertToPlayerSkill(inventorySkill: InventoryDBSkill): PlayerSkill {
+  static convertToSkillSummary(
+    inventorySkill: InventoryDBSkill,
+    playerUUID: string
+  ): Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'> {
+    const name = inventorySkill.skill_name?.trim();
+    if (!name) {
+      throw new Error('Missing skill_name');
+    }
+
+    const rarity = VALID_RARITIES.includes(inventorySkill.skill_rarity)
+      ? inventorySkill.skill_rarity
+      : 'common';
+
     return {
-      id: inventorySkill.id,
-      name: inventorySkill.skill_name,
-      description: inventorySkill.skill_description,
-      level: inventorySkill.skill_level,
-      experience: inventorySkill.skill_experience,
-      category: inventorySkill.skill_category,
-      rarity: inventorySkill.skill_rarity,
-      acquiredAt: inventorySkill.acquired_at,
-      lastUsed: inventorySkill.last_used,
-      isActive: inventorySkill.is_active,
+      name,
+      description: inventorySkill.skill_description || '',
+      category: inventorySkill.skill_category || 'general',
+      rarity,
+      abilities: [],
+      ownerId: playerUUID,
+      isTemplate: false,
     };
   }
 
   /**
-   * Migrate all skills from InventoryDB to ClientsideSkillStorage
-   * This is called after email confirmation during registration
+   * Convert an InventoryDB row to the runtime state stored in ClientsideSkillStorage
    */
-  static async migratePlayerSkills(playerUUID: string): Promise<boolean> {
-    try {
-      console.log(`🔄 Starting skill migration for player ${playerUUID}`);
+  static convertToPlayerSkillState(inventorySkill: InventoryDBSkill, skillId: string): PlayerSkillState {
+    const level = Number(inventorySkill.skill_level);
+    const experience = Number(inventorySkill.skill_experience);
 
-      // Check if skills are already migrated
-      const hasExistingSkills = await ClientsideSkillStorage.hasPlayerSkills(playerUUID);
-      if (hasExistingSkills) {
+    return {
+      skillId,
+      level: Number.isFinite(level) && level >= 1 ? Math.floor(level) : 1,
+      experience: Number.isFinite(experience) && experience >= 0 ? experience : 0,
+      isActive: inventorySkill.is_active !== false,
+      lastUsed: inventorySkill.last_used || undefined,
+      acquiredAt: inventorySkill.acquired_at || inventorySkill.created_at || new Date().toISOString(),
+    };
+  }
+
+  /**
+   * SkillsDB ID for an InventoryDB row: the same row always maps to the same skill
+   */
+  static getMigratedSkillId(inventorySkill: InventoryDBSkill): string {
+    return createDeterministicSkillId(MIGRATED_SKILL_NAMESPACE, inventorySkill.id);
+  }
+
+  /**
+   * The skill an earlier run created for a row, if it still exists.
+   * Older runs used random IDs, so the recorded one is checked first.
+   */
+  private static async findExistingSkillId(recordedSkillId: string | undefined, migratedSkillId: string): Promise<string | null> {
+    for (const skillId of [recordedSkillId, migratedSkillId]) {
+      if (skillId && await skillsDB.getSkillSummary(skillId)) {
+        return skillId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Migrate all skills from InventoryDB into SkillsDB + ClientsideSkillStorage.
+   * Safe to call on every sign-in: completed migrations are skipped and rows
+   * that failed last time are retried.
+   */
+  static async migratePlayerSkills(playerUUID: string): Promise<SkillMigrationResult> {
+    const result: SkillMigrationResult = {
+      playerUUID,
+      status: 'migrated',
+      migrationVersion: SKILL_MIGRATION_VERSION,
+      migratedCount: 0,
+      skippedCount: 0,
+      failures: [],
+    };
+
+    try {
+      const record = await this.getMigrationRecord(playerUUID);
+      if (this.isMigrationComplete(record)) {
         console.log(`✅ Skills already migrated for player ${playerUUID}`);
-        return true;
+        return { ...result, status: 'already_migrated' };
       }
 
-      // Fetch skills from InventoryDB
+      console.log(`🔄 Starting skill migration for player ${playerUUID}`);
+      await skillsDB.initialize();
+
       const inventorySkills = await this.fetchSkillsFromInventoryDB(playerUUID);
-      
-      if (inventorySkills.length === 0) {
-        console.log(`ℹ️ No skills found in InventoryDB for player ${playerUUID}`);
-        // Create empty skill storage for the player
-        await ClientsideSkillStorage.storePlayerSkills(playerUUID, []);
-        return true;
+      // Rows from an older migration version are kept; the map prevents duplicate SkillsDB entries
+      const skillIdMap = { ...(record?.skillIdMap || {}) };
+      const newStates: PlayerSkillState[] = [];
+
+      for (const inventorySkill of inventorySkills) {
+        try {
+          // The ID derives from the row, so a run that crashed before saving the map is still found
+          const migratedSkillId = this.getMigratedSkillId(inventorySkill);
+          const existingSkillId = await this.findExistingSkillId(skillIdMap[inventorySkill.id], migratedSkillId);
+          if (existingSkillId) {
+            skillIdMap[inventorySkill.id] = existingSkillId;
+            // Restores the runtime state if only the summary survived; skipped when it exists
+            newStates.push(this.convertToPlayerSkillState(inventorySkill, existingSkillId));
+            result.skippedCount++;
+            continue;
+          }
+
+          const summaryData = this.convertToSkillSummary(inventorySkill, playerUUID);
+          const { summary } = await skillsDB.createSkill(summaryData, undefined, { id: migratedSkillId });
+
+          skillIdMap[inventorySkill.id] = summary.id;
+          newStates.push(this.convertToPlayerSkillState(inventorySkill, summary.id));
+          result.migratedCount++;
+        } catch (error) {
+          result.failures.push({
+            inventoryId: inventorySkill.id,
+            skillName: inventorySkill.skill_name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
       }
 
-      // Convert to PlayerSkill format
-      const playerSkills: PlayerSkill[] = inventorySkills.map(skill => 
-        this.convertToPlayerSkill(skill)
-      );
+      // Appended under the player lock, so states written while we migrated are kept
+      if (newStates.length > 0) {
+        await ClientsideSkillStorage.addSkillStates(playerUUID, newStates);
+      }
 
-      // Store in ClientsideSkillStorage
-      await ClientsideSkillStorage.storePlayerSkills(playerUUID, playerSkills);
+      await this.saveMigrationRecord(playerUUID, {
+        version: SKILL_MIGRATION_VERSION,
+        migratedAt: new Date().toISOString(),
+        skillIdMap,
+        failures: result.failures,
+      });
 
-      console.log(`✅ Successfully migrated ${playerSkills.length} skills for player ${playerUUID}`);
-      return true;
+      if (inventorySkills.length === 0) {
+        result.status = 'no_skills';
+        console.log(`ℹ️ No skills found in InventoryDB for player ${playerUUID}`);
+      } else if (result.failures.length > 0) {
+        result.status = 'partial';
+        console.warn(`⚠️ Migrated ${result.migratedCount} skills for player ${playerUUID}, ${result.failures.length} failed`);
+      } else {
+        console.log(`✅ Successfully migrated ${result.migratedCount} skills for player ${playerUUID}`);
+      }
+
+      return result;
     } catch (error) {
       console.error('❌ Error migrating player skills:', error);
-      return false;
+      return {
+        ...result,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
@@ -114,8 +251,8 @@ export class SkillMigrationService {
    */
   static async hasSkillsToMigrate(playerUUID: string): Promise<boolean> {
     try {
-      const inventorySkills = await this.fetchSkillsFromInventoryDB(playerUUID);
-      return inventorySkills.length > 0;
+      const status = await this.getMigrationStatus(playerUUID);
+      return status.needsMigration && status.hasInventorySkills;
     } catch (error) {
       console.error('❌ Error checking if skills need migration:', error);
       return false;
@@ -125,29 +262,22 @@ export class SkillMigrationService {
   /**
    * Get migration status for a player
    */
-  static async getMigrationStatus(playerUUID: string): Promise<{
-    hasInventorySkills: boolean;
-    hasLocalSkills: boolean;
-    needsMigration: boolean;
-    inventorySkillCount: number;
-    localSkillCount: number;
-  }> {
+  static async getMigrationStatus(playerUUID: string): Promise<SkillMigrationStatus> {
     try {
-      const [inventorySkills, localSkills] = await Promise.all([
+      const [record, inventorySkills, localSkills] = await Promise.all([
+        this.getMigrationRecord(playerUUID),
         this.fetchSkillsFromInventoryDB(playerUUID),
-        ClientsideSkillStorage.getPlayerSkills(playerUUID)
+        ClientsideSkillStorage.getPlayerSkillStates(playerUUID),
       ]);
 
-      const hasInventorySkills = inventorySkills.length > 0;
-      const hasLocalSkills = localSkills.length > 0;
-      const needsMigration = hasInventorySkills && !hasLocalSkills;
-
       return {
-        hasInventorySkills,
-        hasLocalSkills,
-        needsMigration,
+        hasInventorySkills: inventorySkills.length > 0,
+        hasLocalSkills: localSkills.length > 0,
+        needsMigration: !this.isMigrationComplete(record),
         inventorySkillCount: inventorySkills.length,
         localSkillCount: localSkills.length,
+        migrationVersion: record?.version ?? null,
+        pendingFailures: record?.failures.length || 0,
       };
     } catch (error) {
       console.error('❌ Error getting migration status:', error);
@@ -157,68 +287,82 @@ export class SkillMigrationService {
         needsMigration: false,
         inventorySkillCount: 0,
         localSkillCount: 0,
+        migrationVersion: null,
+        pendingFailures: 0,
       };
     }
   }
 
   /**
-   * Force re-migration of skills (useful for debugging or data corruption recovery)
+   * Force re-migration of skills (useful for debugging or data corruption recovery).
+   * Removes the previously migrated SkillsDB entries so nothing is duplicated.
    */
-  static async forceRemigration(playerUUID: string): Promise<boolean> {
+  static async forceRemigration(playerUUID: string): Promise<SkillMigrationResult> {
     try {
       console.log(`🔄 Force re-migrating skills for player ${playerUUID}`);
+      await skillsDB.initialize();
 
-      // Clear existing local skills
-      await ClientsideSkillStorage.clearPlayerSkills(playerUUID);
+      const record = await this.getMigrationRecord(playerUUID);
+      const migratedSkillIds = new Set(Object.values(record?.skillIdMap || {}));
 
-      // Fetch and migrate skills again
-      const inventorySkills = await this.fetchSkillsFromInventoryDB(playerUUID);
-      
-      if (inventorySkills.length === 0) {
-        console.log(`ℹ️ No skills found in InventoryDB for player ${playerUUID}`);
-        return true;
+      for (const skillId of migratedSkillIds) {
+        if (await skillsDB.getSkillSummary(skillId)) {
+          await skillsDB.deleteSkill(skillId, playerUUID);
+        }
       }
 
-      const playerSkills: PlayerSkill[] = inventorySkills.map(skill => 
-        this.convertToPlayerSkill(skill)
-      );
-
-      await ClientsideSkillStorage.storePlayerSkills(playerUUID, playerSkills);
+      // Keep runtime state for skills that did not come from InventoryDB
+      await ClientsideSkillStorage.removeSkillStates(playerUUID, migratedSkillIds);
 
-      console.log(`✅ Successfully force re-migrated ${playerSkills.length} skills for player ${playerUUID}`);
-      return true;
+      await ClientsideSkillStorage.getStorage().removeItem(this.getMigrationKey(playerUUID));
+      return await this.migratePlayerSkills(playerUUID);
     } catch (error) {
       console.error('❌ Error force re-migrating player skills:', error);
-      return false;
+      return {
+        playerUUID,
+        status: 'failed',
+        migrationVersion: SKILL_MIGRATION_VERSION,
+        migratedCount: 0,
+        skippedCount: 0,
+        failures: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
   /**
-   * Sync skills between InventoryDB and ClientsideSkillStorage
+   * Sync skills between InventoryDB and SkillsDB/ClientsideSkillStorage
    * This can be used for periodic synchronization
    */
-  static async syncSkills(playerUUID: string): Promise<boolean> {
+  static async syncSkills(playerUUID: string): Promise<SkillMigrationResult> {
+    console.log(`🔄 Syncing skills for player ${playerUUID}`);
+    return this.migratePlayerSkills(playerUUID);
+  }
+
+  // ===== MIGRATION RECORD =====
+
+  private static getMigrationKey(playerUUID: string): string {
+    return `${MIGRATION_KEY_PREFIX}${playerUUID}`;
+  }
+
+  private static isMigrationComplete(record: SkillMigrationRecord | null): boolean {
+    return !!record && record.version >= SKILL_MIGRATION_VERSION && record.failures.length === 0;
+  }
+
+  private static async getMigrationRecord(playerUUID: string): Promise<SkillMigrationRecord | null> {
     try {
-      console.log(`🔄 Syncing skills for player ${playerUUID}`);
-
-      const migrationStatus = await this.getMigrationStatus(playerUUID);
-      
-      if (migrationStatus.needsMigration) {
-        console.log(`📦 Skills need migration, migrating ${migrationStatus.inventorySkillCount} skills`);
-        return await this.migratePlayerSkills(playerUUID);
-      } else if (migrationStatus.hasLocalSkills && migrationStatus.hasInventorySkills) {
-        console.log(`✅ Skills are already synced (${migrationStatus.localSkillCount} local, ${migrationStatus.inventorySkillCount} inventory)`);
-        return true;
-      } else if (migrationStatus.hasLocalSkills && !migrationStatus.hasInventorySkills) {
-        console.log(`ℹ️ Player has local skills but no inventory skills - this is normal after migration`);
-        return true;
-      } else {
-        console.log(`ℹ️ No skills found for player ${playerUUID}`);
-        return true;
-      }
+      const stored = await ClientsideSkillStorage.getStorage().getItem(this.getMigrationKey(playerUUID));
+      if (!stored) return null;
+
+      const record = JSON.parse(stored) as SkillMigrationRecord;
+      return { ...record, skillIdMap: record.skillIdMap || {}, failures: record.failures || [] };
     } catch (error) {
-      console.error('❌ Error syncing skills:', error);
-      return false;
+      console.error('❌ Error reading migration record:', error);
+      return null;
     }
   }
+
+  private static async saveMigrationRecord(playerUUID: string, record: SkillMigrationRecord): Promise<void> {
+    await ClientsideSkillStorage.getStorage().setItem(this.getMigrationKey(playerUUID), JSON.stringify(record));
+  }
 }
@@ -0,0 +1,268 @@
+/**
+ * SkillProgressionService - Skill Experience and Leveling
+ *
+ * Turns skill usage into progression on top of PlayerSkillState:
+ * - Awards XP when ClientsideSkillStorage.markSkillAsUsed is called from a battle
+ *   (BattleEngine does this for every ability a player combatant uses)
+ * - Per-rarity XP curves with level caps
+ * - Level-based scaling of ability damage and cooldowns (overridable per skill
+ *   via engineData.internalCalculations.levelScaling)
+ * - Emits levelUp events for the dashboards to present
+ */
+
+import { skillsDB, SkillAbility, SkillEngineData, SkillSummary } from './SkillsDB';
+import { ClientsideSkillStorage, PlayerSkillState, SkillUsageEvent } from './ClientsideSkillStorage';
+import { EventEmitter } from './EventEmitter';
+
+// ===== CONFIGURATION =====
+
+type SkillRarity = SkillSummary['rarity'];
+
+export interface XpCurve {
+  baseXp: number; // XP needed to go from level 1 to 2
+  growth: number; // Each level needs `growth` times more XP than the previous one
+  maxLevel: number; // Level cap
+}
+
+export interface LevelScaling {
+  damagePerLevel: number; // +X damage fraction per level above 1
+  cooldownReductionPerLevel: number; // -X cooldown fraction per level above 1
+  maxCooldownReduction: number; // Cooldowns never drop below (1 - this)
+}
+
+export interface SkillProgressionConfig {
+  xpCurves: Record<SkillRarity, XpCurve>;
+  xpPerBattleUse: number; // Default XP for one use in a battle
+  levelScaling: LevelScaling;
+}
+
+export const DEFAULT_LEVEL_SCALING: LevelScaling = {
+  damagePerLevel: 0.05,
+  cooldownReductionPerLevel: 0.01,
+  maxCooldownReduction: 0.4,
+};
+
+const DEFAULT_CONFIG: SkillProgressionConfig = {
+  xpCurves: {
+    common: { baseXp: 100, growth: 1.15, maxLevel: 20 },
+    uncommon: { baseXp: 120, growth: 1.18, maxLevel: 25 },
+    rare: { baseXp: 150, growth: 1.2, maxLevel: 30 },
+    epic: { baseXp: 200, growth: 1.22, maxLevel: 40 },
+    legendary: { baseXp: 250, growth: 1.25, maxLevel: 50 },
+  },
+  xpPerBattleUse: 10,
+  levelScaling: DEFAULT_LEVEL_SCALING,
+};
+
+// ===== INTERFACES =====
+
+export interface SkillLevelUpEvent {
+  playerUUID: string;
+  skillId: string;
+  skillName: string;
+  previousLevel: number;
+  newLevel: number;
+  isMaxLevel: boolean;
+}
+
+export interface SkillProgressResult {
+  skillId: string;
+  experienceGained: number;
+  previousLevel: number;
+  level: number;
+  experience: number; // XP into the current level
+  experienceToNextLevel: number | null; // null at the level cap
+  leveledUp: boolean;
+}
+
+// ===== LEVEL SCALING =====
+
+/**
+ * Level scaling for a skill: engine data overrides, then the given defaults
+ */
+export function getLevelScaling(
+  engineData: Partial<SkillEngineData> | undefined,
+  defaults: LevelScaling = DEFAULT_LEVEL_SCALING
+): LevelScaling {
+  return { ...defaults, ...(engineData?.internalCalculations?.levelScaling || {}) };
+}
+
+/**
+ * Damage (or heal power) for an ability at the given skill level
+ */
+export function scaleDamageForLevel(damage: number, level: number, scaling: LevelScaling): number {
+  const levelsGained = Math.max(0, Math.floor(level) - 1);
+  return damage * (1 + levelsGained * scaling.damagePerLevel);
+}
+
+/**
+ * Cooldown (ms) for an ability at the given skill level
+ */
+export function scaleCooldownForLevel(cooldownMs: number, level: number, scaling: LevelScaling): number {
+  const levelsGained = Math.max(0, Math.floor(level) - 1);
+  const reduction = Math.min(scaling.maxCooldownReduction, levelsGained * scaling.cooldownReductionPerLevel);
+  return Math.round(cooldownMs * (1 - Math.max(0, reduction)));
+}
+
+// ===== PROGRESSION SERVICE =====
+
+export class SkillProgressionService extends EventEmitter {
+  private config: SkillProgressionConfig;
+  private isAttached = false;
+
+  private readonly onSkillUsed = (event: SkillUsageEvent) => {
+    if (!event.battleId) return;
+    this.awardExperience(event.playerUUID, event.skillId, event.experience ?? this.config.xpPerBattleUse)
+      .catch(error => console.error('❌ Failed to award skill experience:', error));
+  };
+
+  constructor(config: Partial<SkillProgressionConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start awarding XP for battle usage reported through ClientsideSkillStorage
+   */
+  attach(): void {
+    if (this.isAttached) return;
+    ClientsideSkillStorage.on('skillUsed', this.onSkillUsed);
+    this.isAttached = true;
+  }
+
+  detach(): void {
+    if (!this.isAttached) return;
+    ClientsideSkillStorage.off('skillUsed', this.onSkillUsed);
+    this.isAttached = false;
+  }
+
+  // ===== XP CURVE =====
+
+  getXpCurve(rarity: SkillRarity): XpCurve {
+    return this.config.xpCurves[rarity] || this.config.xpCurves.common;
+  }
+
+  getLevelCap(rarity: SkillRarity): number {
+    return this.getXpCurve(rarity).maxLevel;
+  }
+
+  /**
+   * XP needed to advance from `level` to `level + 1`, or null at the cap
+   */
+  getXpForNextLevel(rarity: SkillRarity, level: number): number | null {
+    const curve = this.getXpCurve(rarity);
+    if (level >= curve.maxLevel) return null;
+    return Math.round(curve.baseXp * Math.pow(curve.growth, Math.max(0, level - 1)));
+  }
+
+  /**
+   * Apply XP to a level/experience pair without touching storage
+   */
+  calculateProgress(
+    rarity: SkillRarity,
+    level: number,
+    experience: number,
+    amount: number
+  ): { level: number; experience: number } {
+    const cap = this.getLevelCap(rarity);
+    let newLevel = Math.min(Math.max(1, Math.floor(level)), cap);
+    let newExperience = Math.max(0, experience) + Math.max(0, amount);
+
+    let needed = this.getXpForNextLevel(rarity, newLevel);
+    while (needed !== null && newExperience >= needed) {
+      newExperience -= needed;
+      newLevel++;
+      needed = this.getXpForNextLevel(rarity, newLevel);
+    }
+
+    // No progress is banked past the cap
+    if (needed === null) newExperience = 0;
+
+    return { level: newLevel, experience: newExperience };
+  }
+
+  // ===== AWARDING XP =====
+
+  /**
+   * Award XP to a player's skill, leveling it up as needed.
+   * The increment runs inside one ClientsideSkillStorage write, so concurrent
+   * awards, syncs and loadout changes never see or overwrite stale XP.
+   */
+  async awardExperience(playerUUID: string, skillId: string, amount: number): Promise<SkillProgressResult> {
+    const summary = await skillsDB.getSkillSummary(skillId);
+    const rarity = summary?.rarity || 'common';
+
+    const { previous: state, current: progress } = await ClientsideSkillStorage.updateSkillStateWith(
+      playerUUID,
+      skillId,
+      current => {
+        const { level, experience } = this.calculateProgress(rarity, current.level, current.experience, amount);
+        return { level, experience };
+      }
+    );
+
+    const result: SkillProgressResult = {
+      skillId,
+      experienceGained: Math.max(0, amount),
+      previousLevel: state.level,
+      level: progress.level,
+      experience: progress.experience,
+      experienceToNextLevel: this.getXpForNextLevel(rarity, progress.level),
+      leveledUp: progress.level > state.level,
+    };
+
+    this.emit('experienceGained', { playerUUID, ...result });
+
+    if (result.leveledUp) {
+      const levelUp: SkillLevelUpEvent = {
+        playerUUID,
+        skillId,
+        skillName: summary?.name || 'Unknown Skill',
+        previousLevel: state.level,
+        newLevel: progress.level,
+        isMaxLevel: result.experienceToNextLevel === null,
+      };
+      this.emit('levelUp', levelUp);
+      console.log(`⬆️ ${levelUp.skillName} reached level ${levelUp.newLevel}`);
+    }
+
+    return result;
+  }
+
+  // ===== SCALED ABILITIES =====
+
+  /**
+   * Abilities as they behave at the skill's current level
+   */
+  getScaledAbilities(
+    summary: SkillSummary,
+    state: Pick<PlayerSkillState, 'level'>,
+    engineData?: Partial<SkillEngineData>
+  ): SkillAbility[] {
+    const scaling = getLevelScaling(engineData, this.config.levelScaling);
+
+    return summary.abilities.map(ability => {
+      const cooldown = engineData?.cooldowns?.[ability.id] ?? ability.cooldown;
+      return {
+        ...ability,
+        damage: ability.damage !== undefined
+          ? Math.round(scaleDamageForLevel(ability.damage, state.level, scaling))
+          : undefined,
+        cooldown: cooldown !== undefined ? scaleCooldownForLevel(cooldown, state.level, scaling) : undefined,
+      };
+    });
+  }
+
+  // ===== CONFIGURATION =====
+
+  updateConfig(config: Partial<SkillProgressionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): SkillProgressionConfig {
+    return { ...this.config };
+  }
+}
+
+// Export singleton instance
+export const skillProgression = new SkillProgressionService();
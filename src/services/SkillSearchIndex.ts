@@ -0,0 +1,148 @@
+/**
+ * SkillSearchIndex - Full-text Search over Skill Summaries
+ *
+ * Incremental inverted index used by SkillsDB.searchSkills():
+ * - Indexes `name`, `description` and ability names with per-field weights
+ * - Maintained per skill on add / update / remove (no full rebuilds)
+ * - Query terms are ANDed; the last term also matches as a prefix so
+ *   type-ahead search works ("fire bo" finds "Fire Bolt")
+ */
+
+import type { SkillSummary } from './SkillsDB';
+
+// ===== CONFIGURATION =====
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  abilityName: 2,
+  description: 1,
+};
+
+const PREFIX_MATCH_FACTOR = 0.5; // Prefix hits score half of an exact hit
+const MIN_PREFIX_LENGTH = 2;
+
+// ===== TOKENIZER =====
+
+/**
+ * Lowercase, accent-free alphanumeric tokens
+ */
+export function tokenizeSearchText(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+// ===== INDEX =====
+
+export class SkillSearchIndex {
+  private postings = new Map<string, Map<string, number>>(); // token -> skillId -> weight
+  private skillTokens = new Map<string, string[]>(); // skillId -> tokens it was indexed under
+
+  get size(): number {
+    return this.skillTokens.size;
+  }
+
+  get vocabularySize(): number {
+    return this.postings.size;
+  }
+
+  /**
+   * Index a skill, replacing whatever was indexed for it before
+   */
+  add(summary: SkillSummary): void {
+    this.remove(summary.id);
+
+    const weights = new Map<string, number>();
+    const addField = (text: string | undefined, weight: number) => {
+      for (const token of tokenizeSearchText(text)) {
+        weights.set(token, (weights.get(token) || 0) + weight);
+      }
+    };
+
+    addField(summary.name, FIELD_WEIGHTS.name);
+    addField(summary.description, FIELD_WEIGHTS.description);
+    for (const ability of summary.abilities || []) {
+      addField(ability.name, FIELD_WEIGHTS.abilityName);
+    }
+
+    for (const [token, weight] of weights) {
+      if (!this.postings.has(token)) {
+        this.postings.set(token, new Map());
+      }
+      this.postings.get(token)!.set(summary.id, weight);
+    }
+    this.skillTokens.set(summary.id, Array.from(weights.keys()));
+  }
+
+  remove(skillId: string): void {
+    const tokens = this.skillTokens.get(skillId);
+    if (!tokens) return;
+
+    for (const token of tokens) {
+      const posting = this.postings.get(token);
+      if (!posting) continue;
+      posting.delete(skillId);
+      if (posting.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+    this.skillTokens.delete(skillId);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.skillTokens.clear();
+  }
+
+  has(skillId: string): boolean {
+    return this.skillTokens.has(skillId);
+  }
+
+  /**
+   * Relevance score per matching skill. Returns null for an empty query
+   * (meaning "no text filter"), or an empty map when nothing matches.
+   */
+  search(text: string): Map<string, number> | null {
+    const terms = tokenizeSearchText(text);
+    if (terms.length === 0) return null;
+
+    let scores = this.scoreTerm(terms[0], terms.length === 1 && terms[0].length >= MIN_PREFIX_LENGTH);
+
+    for (let i = 1; i < terms.length && scores.size > 0; i++) {
+      const isLast = i === terms.length - 1;
+      const termScores = this.scoreTerm(terms[i], isLast && terms[i].length >= MIN_PREFIX_LENGTH);
+
+      // AND: keep only skills matching every term
+      const combined = new Map<string, number>();
+      for (const [skillId, score] of scores) {
+        const termScore = termScores.get(skillId);
+        if (termScore !== undefined) {
+          combined.set(skillId, score + termScore);
+        }
+      }
+      scores = combined;
+    }
+
+    return scores;
+  }
+
+  private scoreTerm(term: string, allowPrefix: boolean): Map<string, number> {
+    const scores = new Map<string, number>(this.postings.get(term) || []);
+    if (!allowPrefix) return scores;
+
+    for (const [token, posting] of this.postings) {
+      if (token === term || !token.startsWith(term)) continue;
+      for (const [skillId, weight] of posting) {
+        const prefixScore = weight * PREFIX_MATCH_FACTOR;
+        if ((scores.get(skillId) || 0) < prefixScore) {
+          scores.set(skillId, prefixScore);
+        }
+      }
+    }
+    return scores;
+  }
+}
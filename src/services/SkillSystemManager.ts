@@ -14,6 +14,11 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { skillsDB, SkillSummary, Skill } from './SkillsDB';
 import { ClientsideSkillStorage, PlayerSkillState, SkillDisplayItem } from './ClientsideSkillStorage';
+import { skillWebSocketManager } from './SkillWebSocketManager';
+import { skillProgression } from './SkillProgressionService';
+import { skillCooldownScheduler } from './SkillCooldownScheduler';
+import { ContentPackProgress, ContentPackSource, SkillContentPackLoader } from './SkillContentPack';
+import { coreSkillPack } from './CoreSkillPack';
 
 // System Configuration
 export interface SkillSystemConfig {
@@ -21,6 +26,8 @@ export interface SkillSystemConfig {
   enableDiffSync: boolean;
   enableDebugMode: boolean;
   maxTemplatesToLoadAtStartup: number;
+  startupCategories: string[]; // Categories loaded during initialize() when lazy loading
+  contentPack?: ContentPackSource; // Where global templates come from
   syncBatchSize: number;
   debugLogInterval: number; // milliseconds
   memoryWarningThreshold: number; // MB
@@ -55,9 +62,13 @@ export interface LazyLoadingState {
   templatesLoaded: number;
   totalTemplates: number;
   loadingProgress: number; // 0-100
+  loadedCategories: string[];
+  loadingCategory?: string;
   lastLoadTime?: string;
 }
 
+export type LazyLoadingListener = (state: LazyLoadingState) => void;
+
 // Diff Sync State
 export interface DiffSyncState {
   lastSyncTimestamp: string;
@@ -71,6 +82,8 @@ const DEFAULT_CONFIG: SkillSystemConfig = {
   enableDiffSync: true,
   enableDebugMode: false,
   maxTemplatesToLoadAtStartup: 50, // Load only 50 templates at startup
+  startupCategories: ['combat', 'magic', 'utility'],
+  contentPack: coreSkillPack,
   syncBatchSize: 20,
   debugLogInterval: 30000, // 30 seconds
   memoryWarningThreshold: 100, // 100MB
@@ -83,6 +96,12 @@ export class SkillSystemManager {
   private diffSyncState: DiffSyncState;
   private debugTimer?: NodeJS.Timeout;
   private isInitialized = false;
+  private contentPackLoader?: SkillContentPackLoader;
+  private lazyLoadingListeners = new Set<LazyLoadingListener>();
+
+  private readonly onContentPackProgress = (progress: ContentPackProgress) => {
+    this.updateLazyLoadingProgress(progress);
+  };
 
   constructor(config: Partial<SkillSystemConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -102,6 +121,12 @@ export class SkillSystemManager {
       // Initialize SkillsDB
       await skillsDB.initialize();
 
+      // Apply inbound WebSocket updates and push local changes out
+      skillsDB.attachWebSocketManager(skillWebSocketManager);
+
+      // Award XP when skills are used in battle
+      skillProgression.attach();
+
       // Load initial templates (lazy loading)
       if (this.config.enableLazyLoading) {
         await this.loadInitialTemplates();
@@ -126,28 +151,34 @@ export class SkillSystemManager {
 
   /**
    * Load initial templates (lazy loading approach)
-   * Only loads essential templates at startup
+   * Only loads the startup categories; everything else loads on demand
    */
   private async loadInitialTemplates(): Promise<void> {
     console.log('📚 Loading initial skill templates (lazy loading)...');
     
     try {
-      // Load only the most common/essential templates
-      const essentialCategories = ['combat', 'magic', 'utility'];
+      const loader = this.getContentPackLoader();
+      if (!loader) {
+        console.warn('⚠️ No skill content pack configured, skipping template loading');
+        this.lazyLoadingState.isInitialized = true;
+        return;
+      }
+
+      const available = await loader.getCategories();
+      this.lazyLoadingState.totalTemplates = await loader.getTotalTemplates();
       let loadedCount = 0;
 
-      for (const category of essentialCategories) {
+      for (const category of this.config.startupCategories) {
         if (loadedCount >= this.config.maxTemplatesToLoadAtStartup) break;
+        if (!available.includes(category)) continue;
 
-        // Load templates for this category
         const templates = await this.loadTemplatesForCategory(category);
         loadedCount += templates.length;
-
-        this.updateLazyLoadingProgress(loadedCount);
       }
 
       this.lazyLoadingState.isInitialized = true;
       this.lazyLoadingState.lastLoadTime = new Date().toISOString();
+      this.notifyLazyLoadingListeners();
       
       console.log(`✅ Loaded ${loadedCount} initial templates`);
     } catch (error) {
@@ -163,18 +194,12 @@ export class SkillSystemManager {
     console.log('📚 Loading all skill templates...');
     
     try {
-      // This would typically load from a server or database
-      // For now, we'll simulate loading all templates
-      const allTemplates = await this.loadTemplatesFromServer();
-      
-      for (const template of allTemplates) {
-        await skillsDB.createSkill(template);
-      }
+      const loader = this.getContentPackLoader();
+      const allTemplates = loader ? await this.trackLoading('all', () => loader.loadAll()) : [];
 
       this.lazyLoadingState.isInitialized = true;
-      this.lazyLoadingState.templatesLoaded = allTemplates.length;
-      this.lazyLoadingState.totalTemplates = allTemplates.length;
-      this.lazyLoadingState.loadingProgress = 100;
+      this.lazyLoadingState.lastLoadTime = new Date().toISOString();
+      this.notifyLazyLoadingListeners();
       
       console.log(`✅ Loaded ${allTemplates.length} templates`);
     } catch (error) {
@@ -184,21 +209,16 @@ export class SkillSystemManager {
   }
 
   /**
-   * Load templates for a specific category
+   * Load templates for a specific category from the content pack
    */
-  private async loadTemplatesForCategory(category: string): Promise<SkillSummary[]> {
-    // This would typically fetch from server
-    // For now, return empty array as placeholder
-    return [];
-  }
+  async loadTemplatesForCategory(category: string): Promise<SkillSummary[]> {
+    const loader = this.getContentPackLoader();
+    if (!loader) return [];
 
-  /**
-   * Load templates from server (placeholder)
-   */
-  private async loadTemplatesFromServer(): Promise<Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'>[]> {
-    // This would typically make an API call to fetch templates
-    // For now, return empty array as placeholder
-    return [];
+    if (loader.isCategoryLoaded(category)) {
+      return loader.loadCategory(category);
+    }
+    return this.trackLoading(category, () => loader.loadCategory(category));
   }
 
   /**
@@ -212,15 +232,16 @@ export class SkillSystemManager {
         return existing;
       }
 
-      // Load from server
-      const template = await this.fetchTemplateFromServer(skillId);
-      if (template) {
-        await skillsDB.createSkill(template);
-        this.updatePerformanceStats();
-        return template;
+      // Load the category that contains it
+      const loader = this.getContentPackLoader();
+      const category = loader ? await loader.findCategoryForTemplate(skillId) : null;
+      if (!category) {
+        return null;
       }
 
-      return null;
+      const templates = await this.loadTemplatesForCategory(category);
+      this.updatePerformanceStats();
+      return templates.find(template => template.id === skillId) || null;
     } catch (error) {
       console.error('❌ Error loading template on demand:', error);
       return null;
@@ -228,23 +249,74 @@ export class SkillSystemManager {
   }
 
   /**
-   * Fetch template from server (placeholder)
+   * Swap the content pack templates are loaded from. Already-imported
+   * templates stay in SkillsDB.
    */
-  private async fetchTemplateFromServer(skillId: string): Promise<Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'> | null> {
-    // This would typically make an API call
-    // For now, return null as placeholder
-    return null;
+  setContentPack(source: ContentPackSource | undefined): void {
+    this.contentPackLoader?.off('progress', this.onContentPackProgress);
+    this.contentPackLoader = undefined;
+    this.config.contentPack = source;
+    this.lazyLoadingState = this.initializeLazyLoadingState();
+    this.notifyLazyLoadingListeners();
+  }
+
+  /**
+   * Subscribe to lazy loading progress. Returns an unsubscribe function.
+   */
+  onLazyLoadingProgress(listener: LazyLoadingListener): () => void {
+    this.lazyLoadingListeners.add(listener);
+    listener({ ...this.lazyLoadingState });
+    return () => {
+      this.lazyLoadingListeners.delete(listener);
+    };
+  }
+
+  private getContentPackLoader(): SkillContentPackLoader | undefined {
+    if (!this.contentPackLoader && this.config.contentPack) {
+      this.contentPackLoader = new SkillContentPackLoader(this.config.contentPack);
+      this.contentPackLoader.on('progress', this.onContentPackProgress);
+    }
+    return this.contentPackLoader;
+  }
+
+  /**
+   * Expose the category being loaded while `load` runs
+   */
+  private async trackLoading<T>(category: string, load: () => Promise<T>): Promise<T> {
+    this.lazyLoadingState.loadingCategory = category;
+    this.notifyLazyLoadingListeners();
+    try {
+      return await load();
+    } finally {
+      if (this.lazyLoadingState.loadingCategory === category) {
+        this.lazyLoadingState.loadingCategory = undefined;
+        this.notifyLazyLoadingListeners();
+      }
+    }
   }
 
   /**
    * Update lazy loading progress
    */
-  private updateLazyLoadingProgress(loadedCount: number): void {
-    this.lazyLoadingState.templatesLoaded = loadedCount;
-    this.lazyLoadingState.loadingProgress = Math.min(
-      (loadedCount / this.config.maxTemplatesToLoadAtStartup) * 100,
-      100
-    );
+  private updateLazyLoadingProgress(progress: ContentPackProgress): void {
+    this.lazyLoadingState.templatesLoaded = progress.templatesLoaded;
+    this.lazyLoadingState.totalTemplates = progress.totalTemplates;
+    this.lazyLoadingState.loadedCategories = progress.loadedCategories;
+    this.lazyLoadingState.loadingProgress = progress.totalTemplates > 0
+      ? Math.min((progress.templatesLoaded / progress.totalTemplates) * 100, 100)
+      : 100;
+    this.notifyLazyLoadingListeners();
+  }
+
+  private notifyLazyLoadingListeners(): void {
+    const snapshot = { ...this.lazyLoadingState };
+    this.lazyLoadingListeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('❌ Lazy loading listener failed:', error);
+      }
+    });
   }
 
   // ===== DIFF-BASED SYNC IMPLEMENTATION =====
@@ -537,6 +609,7 @@ export class SkillSystemManager {
       templatesLoaded: 0,
       totalTemplates: 0,
       loadingProgress: 0,
+      loadedCategories: [],
     };
   }
 
@@ -553,6 +626,9 @@ export class SkillSystemManager {
    */
   async cleanup(): Promise<void> {
     this.stopDebugMonitoring();
+    skillsDB.detachWebSocketManager();
+    skillProgression.detach();
+    skillCooldownScheduler.cleanup();
     this.isInitialized = false;
     console.log('🧹 Skill System Manager cleaned up');
   }
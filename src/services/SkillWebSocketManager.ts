@@ -8,33 +8,17 @@
  * - Diff-based sync: Only send changed data, not entire skill sets
  * - Retry logic for failed sends
  * - Queue messages when offline → auto-send once reconnected
+ * - Outbound queue and pending acks persisted to AsyncStorage (survive restarts)
+ * - Exponential backoff with jitter, dead-letter list for poisoned messages
+ * - Ping/pong heartbeats, RTT tracking and rolling connection quality
  * - Event system for external consumers
  * 
  * This manager handles all WebSocket communication for the skill system
  * and provides optimized network usage with minimal bandwidth consumption.
  */
 
-// Simple EventEmitter implementation for React Native
-class EventEmitter {
-  private events: { [key: string]: Function[] } = {};
-
-  on(event: string, listener: Function) {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    this.events[event].push(listener);
-  }
-
-  off(event: string, listener: Function) {
-    if (!this.events[event]) return;
-    this.events[event] = this.events[event].filter(l => l !== listener);
-  }
-
-  emit(event: string, ...args: any[]) {
-    if (!this.events[event]) return;
-    this.events[event].forEach(listener => listener(...args));
-  }
-}
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EventEmitter } from './EventEmitter';
 import { skillsDB, SkillUpdate, BatchUpdate } from './SkillsDB';
 
 // WebSocket Configuration
@@ -48,12 +32,21 @@ export interface WebSocketConfig {
   enableAckSystem: boolean;
   enableRetryLogic: boolean;
   maxRetryAttempts: number;
-  retryDelay: number;
+  retryDelay: number; // Base delay for exponential backoff
+  maxRetryDelay: number; // Backoff ceiling
+  ackTimeout: number;
+  enablePersistence: boolean;
+  persistenceKey: string;
+  heartbeatInterval: number; // Ping every X ms while connected
+  deadConnectionTimeout: number; // Reconnect when nothing is received for X ms
+  latencySampleSize: number; // Rolling window used for averageLatency/quality
+  excellentLatency: number; // Average RTT (ms) at or below which quality is 'excellent'
+  goodLatency: number; // Average RTT (ms) at or below which quality is 'good'
 }
 
 // Message Types
 export interface WebSocketMessage {
-  type: 'skill_update' | 'batch_update' | 'ack' | 'sync_request' | 'sync_response' | 'error';
+  type: 'skill_update' | 'batch_update' | 'ack' | 'sync_request' | 'sync_response' | 'error' | 'ping' | 'pong';
   data: any;
   messageId: string;
   timestamp: string;
@@ -72,6 +65,24 @@ export interface QueuedMessage {
   retryCount: number;
   queuedAt: string;
   priority: 'high' | 'medium' | 'low';
+  nextAttemptAt?: number; // Backoff - not sent before this time (ms)
+  lastError?: string;
+}
+
+export interface PendingAck {
+  message: WebSocketMessage;
+  timestamp: number;
+  retryCount: number;
+  priority: 'high' | 'medium' | 'low';
+  queuedAt: string;
+}
+
+// Shape persisted to AsyncStorage
+interface PersistedOutbox {
+  queue: QueuedMessage[];
+  pendingAcks: PendingAck[];
+  deadLetters: QueuedMessage[];
+  savedAt: string;
 }
 
 // Connection State
@@ -92,11 +103,26 @@ export interface NetworkStats {
   messagesFailed: number;
   batchUpdatesSent: number;
   diffUpdatesSent: number;
-  averageLatency: number;
-  bandwidthSaved: number; // bytes saved through batching/diff sync
+  averageLatency: number; // ms, rolling average of ping and ack round-trips
+  bandwidthSaved: number; // bytes saved through batching/debouncing vs. sending each update alone
   uptime: number; // seconds
 }
 
+/**
+ * UTF-8 byte length of a string (what actually goes over the wire)
+ */
+function byteLength(text: string): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) { bytes += 4; i++; } // Surrogate pair
+    else bytes += 3;
+  }
+  return bytes;
+}
+
 const DEFAULT_CONFIG: WebSocketConfig = {
   url: 'ws://localhost:8080/skills',
   reconnectInterval: 3000,
@@ -108,6 +134,15 @@ const DEFAULT_CONFIG: WebSocketConfig = {
   enableRetryLogic: true,
   maxRetryAttempts: 3,
   retryDelay: 1000,
+  maxRetryDelay: 30000,
+  ackTimeout: 5000,
+  enablePersistence: true,
+  persistenceKey: 'skill_ws_outbox',
+  heartbeatInterval: 10000,
+  deadConnectionTimeout: 30000,
+  latencySampleSize: 20,
+  excellentLatency: 150,
+  goodLatency: 500,
 };
 
 export class SkillWebSocketManager extends EventEmitter {
@@ -120,15 +155,28 @@ export class SkillWebSocketManager extends EventEmitter {
   private pendingUpdates: SkillUpdate[] = [];
   private batchTimer?: NodeJS.Timeout;
   private debounceTimers = new Map<string, NodeJS.Timeout>();
+  private debouncedUpdates = new Map<string, SkillUpdate>();
   
   // Message Queue and Ack System
   private messageQueue: QueuedMessage[] = [];
-  private pendingAcks = new Map<string, { message: WebSocketMessage; timestamp: number }>();
+  private pendingAcks = new Map<string, PendingAck>();
+  private deadLetters: QueuedMessage[] = [];
   private messageIdCounter = 0;
+  private retryTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  // Persistence
+  private restorePromise?: Promise<void>; // Started on first use, see `restored`
+  private persistDirty = false;
+  private persisting?: Promise<void>;
   
   // Performance Tracking
   private startTime = Date.now();
   private latencyMeasurements: number[] = [];
+  private heartbeatTimer?: NodeJS.Timeout;
+  private lastMessageReceivedAt = 0;
+  private outstandingPing?: string; // messageId of the ping awaiting a pong
+  private missedPongs = 0;
 
   constructor(config: Partial<WebSocketConfig> = {}) {
     super();
@@ -137,6 +185,13 @@ export class SkillWebSocketManager extends EventEmitter {
     this.networkStats = this.initializeNetworkStats();
   }
 
+  /**
+   * Outbox restore, started on first use so importing the singleton does no storage I/O
+   */
+  private get restored(): Promise<void> {
+    return this.restorePromise ??= this.restoreOutbox();
+  }
+
   // ===== CONNECTION MANAGEMENT =====
 
   async connect(): Promise<void> {
@@ -144,6 +199,9 @@ export class SkillWebSocketManager extends EventEmitter {
       return;
     }
 
+    // Make sure messages queued before the last restart are back in the queue
+    await this.restored;
+
     try {
       this.connectionState.isConnecting = true;
       this.emit('connecting');
@@ -163,7 +221,15 @@ export class SkillWebSocketManager extends EventEmitter {
   }
 
   disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.stopBatchTimer();
+    this.stopHeartbeat();
     if (this.ws) {
+      // Closed on purpose - don't let onclose schedule a reconnect
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = undefined;
     }
@@ -177,10 +243,16 @@ export class SkillWebSocketManager extends EventEmitter {
     this.connectionState.isConnecting = false;
     this.connectionState.reconnectAttempts = 0;
     this.connectionState.lastConnectedAt = new Date().toISOString();
-    this.connectionState.connectionQuality = 'excellent';
+
+    // Quality is unknown until the first round-trip; measurements are per connection
+    this.latencyMeasurements = [];
+    this.networkStats.averageLatency = 0;
+    this.missedPongs = 0;
+    this.setConnectionQuality('good');
 
     this.emit('connected');
     this.startBatchTimer();
+    this.startHeartbeat();
     this.processMessageQueue();
 
     console.log('🔌 WebSocket connected to skill server');
@@ -190,6 +262,7 @@ export class SkillWebSocketManager extends EventEmitter {
     try {
       const message: WebSocketMessage = JSON.parse(event.data);
       this.networkStats.messagesReceived++;
+      this.lastMessageReceivedAt = Date.now();
       
       this.emit('message', message);
 
@@ -206,6 +279,12 @@ export class SkillWebSocketManager extends EventEmitter {
         case 'sync_response':
           this.handleSyncResponse(message.data);
           break;
+        case 'ping':
+          this.sendRaw(this.createMessage('pong', message.data));
+          break;
+        case 'pong':
+          this.handlePong(message.data);
+          break;
         case 'error':
           this.handleError(message.data);
           break;
@@ -220,9 +299,10 @@ export class SkillWebSocketManager extends EventEmitter {
     this.connectionState.isConnected = false;
     this.connectionState.isConnecting = false;
     this.connectionState.lastDisconnectedAt = new Date().toISOString();
-    this.connectionState.connectionQuality = 'disconnected';
+    this.setConnectionQuality('disconnected');
 
     this.stopBatchTimer();
+    this.stopHeartbeat();
     this.emit('disconnected');
 
     // Attempt reconnection
@@ -240,16 +320,126 @@ export class SkillWebSocketManager extends EventEmitter {
   }
 
   private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
     this.connectionState.reconnectAttempts++;
-    this.connectionState.isConnecting = true;
-    
-    setTimeout(() => {
+
+    // isConnecting is only set by connect() itself, which returns early while it is true
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
       if (!this.connectionState.isConnected) {
-        this.connect();
+        this.connect().catch(() => this.handleClose());
       }
     }, this.config.reconnectInterval);
   }
 
+  // ===== HEARTBEAT AND CONNECTION QUALITY =====
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastMessageReceivedAt = Date.now();
+    this.outstandingPing = undefined;
+    this.sendPing();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageReceivedAt > this.config.deadConnectionTimeout) {
+        this.handleDeadConnection();
+        return;
+      }
+
+      if (this.outstandingPing) {
+        this.missedPongs++;
+        this.updateConnectionQuality();
+      }
+      this.sendPing();
+    }, this.config.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    this.outstandingPing = undefined;
+  }
+
+  private sendPing(): void {
+    const ping = this.createMessage('ping', { sentAt: Date.now() });
+    this.outstandingPing = ping.messageId;
+    this.sendRaw(ping);
+  }
+
+  private handlePong(data: { sentAt?: number }): void {
+    this.outstandingPing = undefined;
+    this.missedPongs = 0;
+    if (typeof data?.sentAt === 'number') {
+      this.recordLatency(Date.now() - data.sentAt);
+    }
+  }
+
+  /**
+   * The socket can stay "open" after the network silently drops (e.g. mobile
+   * handoff). Tear it down ourselves so the normal reconnect path kicks in.
+   */
+  private handleDeadConnection(): void {
+    console.warn(`⚠️ No messages from skill server for ${this.config.deadConnectionTimeout}ms, reconnecting`);
+    this.emit('connectionDead');
+
+    const ws = this.ws;
+    this.ws = undefined;
+    if (ws) {
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      try {
+        ws.close();
+      } catch {
+        // Already closed
+      }
+    }
+
+    this.handleClose();
+  }
+
+  private recordLatency(rtt: number): void {
+    this.latencyMeasurements.push(Math.max(0, rtt));
+    if (this.latencyMeasurements.length > this.config.latencySampleSize) {
+      this.latencyMeasurements.shift();
+    }
+
+    const total = this.latencyMeasurements.reduce((sum, sample) => sum + sample, 0);
+    this.networkStats.averageLatency = Math.round(total / this.latencyMeasurements.length);
+    this.updateConnectionQuality();
+  }
+
+  /**
+   * Classify quality from the rolling average RTT; a missed pong means 'poor'
+   */
+  private updateConnectionQuality(): void {
+    if (!this.connectionState.isConnected) return;
+
+    let quality: ConnectionState['connectionQuality'];
+    if (this.missedPongs > 0) {
+      quality = 'poor';
+    } else if (this.latencyMeasurements.length === 0) {
+      return;
+    } else if (this.networkStats.averageLatency <= this.config.excellentLatency) {
+      quality = 'excellent';
+    } else if (this.networkStats.averageLatency <= this.config.goodLatency) {
+      quality = 'good';
+    } else {
+      quality = 'poor';
+    }
+
+    this.setConnectionQuality(quality);
+  }
+
+  private setConnectionQuality(quality: ConnectionState['connectionQuality']): void {
+    if (this.connectionState.connectionQuality === quality) return;
+    this.connectionState.connectionQuality = quality;
+    this.emit('connectionQualityChanged', quality);
+  }
+
   // ===== BATCHING AND DEBOUNCING =====
 
   /**
@@ -282,22 +472,31 @@ export class SkillWebSocketManager extends EventEmitter {
     const existingTimer = this.debounceTimers.get(key);
     if (existingTimer) {
       clearTimeout(existingTimer);
+      // The superseded update is never sent
+      const superseded = this.debouncedUpdates.get(key);
+      if (superseded) {
+        this.networkStats.bandwidthSaved += this.measureUnbatchedSize([superseded]);
+      }
     }
 
     // Set new timer
     const timer = setTimeout(() => {
       this.addToBatch(update);
       this.debounceTimers.delete(key);
+      this.debouncedUpdates.delete(key);
     }, this.config.debounceDelay);
 
     this.debounceTimers.set(key, timer);
+    this.debouncedUpdates.set(key, update);
   }
 
   /**
    * Start batch timer
    */
   private startBatchTimer(): void {
+    if (this.batchTimer) return;
     this.batchTimer = setTimeout(() => {
+      this.batchTimer = undefined;
       this.flushBatch();
     }, this.config.batchInterval);
   }
@@ -329,16 +528,33 @@ export class SkillWebSocketManager extends EventEmitter {
     this.pendingUpdates = [];
     this.stopBatchTimer();
 
-    this.sendMessage({
+    const message: WebSocketMessage = {
       type: 'batch_update',
       data: batchUpdate,
       messageId: this.generateMessageId(),
       timestamp: new Date().toISOString(),
       requiresAck: this.config.enableAckSystem,
-    });
+    };
+
+    // Compare against what sending each update as its own skill_update would cost
+    const saved = this.measureUnbatchedSize(batchUpdate.updates) - byteLength(JSON.stringify(message));
+    this.networkStats.bandwidthSaved += Math.max(0, saved);
 
+    this.sendMessage(message);
     this.networkStats.batchUpdatesSent++;
-    this.networkStats.messagesSent++;
+  }
+
+  /**
+   * Wire size of sending each update as an individual skill_update message
+   */
+  private measureUnbatchedSize(updates: SkillUpdate[]): number {
+    return updates.reduce((total, update) => total + byteLength(JSON.stringify({
+      type: 'skill_update',
+      data: update,
+      messageId: this.generateMessageId(),
+      timestamp: new Date().toISOString(),
+      requiresAck: this.config.enableAckSystem,
+    })), 0);
   }
 
   // ===== DIFF-BASED SYNC =====
@@ -394,9 +610,9 @@ export class SkillWebSocketManager extends EventEmitter {
   /**
    * Send message with optional acknowledgment
    */
-  private sendMessage(message: WebSocketMessage): void {
+  private sendMessage(message: WebSocketMessage, queued?: QueuedMessage): void {
     if (!this.connectionState.isConnected) {
-      this.queueMessage(message);
+      this.queueMessage(message, queued?.priority, queued);
       return;
     }
 
@@ -409,63 +625,119 @@ export class SkillWebSocketManager extends EventEmitter {
         this.pendingAcks.set(message.messageId, {
           message,
           timestamp: Date.now(),
+          retryCount: queued?.retryCount || 0,
+          priority: queued?.priority || 'medium',
+          queuedAt: queued?.queuedAt || new Date().toISOString(),
         });
+        this.persistOutbox();
 
         // Set timeout for ack
         setTimeout(() => {
           if (this.pendingAcks.has(message.messageId)) {
             this.handleAckTimeout(message.messageId);
           }
-        }, 5000); // 5 second timeout
+        }, this.config.ackTimeout);
       }
 
       this.emit('messageSent', message);
     } catch (error) {
       console.error('❌ Error sending message:', error);
       this.networkStats.messagesFailed++;
-      this.queueMessage(message);
+      this.queueMessage(message, queued?.priority, queued);
     }
   }
 
   /**
-   * Queue message for later sending
+   * Queue message for later sending (deduplicated by messageId)
    */
-  private queueMessage(message: WebSocketMessage, priority: 'high' | 'medium' | 'low' = 'medium'): void {
+  private queueMessage(
+    message: WebSocketMessage,
+    priority: 'high' | 'medium' | 'low' = 'medium',
+    previous?: Partial<QueuedMessage>
+  ): void {
+    if (this.isKnownMessage(message.messageId)) {
+      return;
+    }
+
     const queuedMessage: QueuedMessage = {
       message,
-      retryCount: 0,
-      queuedAt: new Date().toISOString(),
+      retryCount: previous?.retryCount || 0,
+      queuedAt: previous?.queuedAt || new Date().toISOString(),
       priority,
+      nextAttemptAt: previous?.nextAttemptAt,
+      lastError: previous?.lastError,
     };
 
     this.messageQueue.push(queuedMessage);
     this.networkStats.messagesQueued++;
+    this.persistOutbox();
     this.emit('messageQueued', queuedMessage);
   }
 
   /**
-   * Process queued messages when connected
+   * Process queued messages when connected.
+   * Messages still backing off stay queued until their nextAttemptAt.
    */
   private processMessageQueue(): void {
-    if (this.messageQueue.length === 0) {
+    if (this.messageQueue.length === 0 || !this.connectionState.isConnected) {
       return;
     }
 
-    // Sort by priority
+    // Sort by priority, then oldest first
     this.messageQueue.sort((a, b) => {
       const priorityOrder = { high: 3, medium: 2, low: 1 };
-      return priorityOrder[b.priority] - priorityOrder[a.priority];
+      return priorityOrder[b.priority] - priorityOrder[a.priority] || a.queuedAt.localeCompare(b.queuedAt);
     });
 
-    // Send queued messages
-    const messagesToSend = [...this.messageQueue];
-    this.messageQueue = [];
+    const now = Date.now();
+    const messagesToSend = this.messageQueue.filter(qm => !qm.nextAttemptAt || qm.nextAttemptAt <= now);
+    this.messageQueue = this.messageQueue.filter(qm => qm.nextAttemptAt && qm.nextAttemptAt > now);
 
     for (const queuedMessage of messagesToSend) {
-      this.sendMessage(queuedMessage.message);
+      this.sendMessage(queuedMessage.message, queuedMessage);
     }
 
-    console.log(`📤 Processed ${messagesToSend.length} queued messages`);
+    this.persistOutbox();
+    this.scheduleRetryTimer();
+
+    if (messagesToSend.length > 0) {
+      console.log(`📤 Processed ${messagesToSend.length} queued messages`);
+    }
+  }
+
+  /**
+   * Wake up when the earliest backed-off message becomes due
+   */
+  private scheduleRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+
+    const nextAttempts = this.messageQueue
+      .map(qm => qm.nextAttemptAt)
+      .filter((t): t is number => t !== undefined);
+    if (nextAttempts.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...nextAttempts) - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.processMessageQueue();
+    }, delay);
+  }
+
+  /**
+   * Exponential backoff with jitter: half fixed, half random
+   */
+  private getRetryDelay(retryCount: number): number {
+    const exponential = this.config.retryDelay * Math.pow(2, Math.max(0, retryCount - 1));
+    const capped = Math.min(this.config.maxRetryDelay, exponential);
+    return Math.round(capped / 2 + Math.random() * (capped / 2));
+  }
+
+  private isKnownMessage(messageId: string): boolean {
+    return this.pendingAcks.has(messageId) ||
+      this.messageQueue.some(qm => qm.message.messageId === messageId);
   }
 
   /**
@@ -478,12 +750,15 @@ export class SkillWebSocketManager extends EventEmitter {
     }
 
     this.pendingAcks.delete(ackData.messageId);
+    this.persistOutbox();
+    this.recordLatency(Date.now() - pendingAck.timestamp);
 
     if (ackData.success) {
       this.emit('messageAcknowledged', ackData.messageId);
     } else {
       this.emit('messageFailed', ackData.messageId, ackData.error);
-      this.handleMessageFailure(pendingAck.message);
+      // The server processed and refused it (stale version, unauthorized...): resending cannot help
+      this.deadLetterMessage(pendingAck, ackData.error);
     }
   }
 
@@ -497,29 +772,138 @@ export class SkillWebSocketManager extends EventEmitter {
     }
 
     this.pendingAcks.delete(messageId);
+    this.persistOutbox();
     this.emit('messageTimeout', messageId);
-    this.handleMessageFailure(pendingAck.message);
+    this.handleMessageFailure(pendingAck, 'Ack timeout');
   }
 
   /**
-   * Handle message failure with retry logic
+   * Handle a delivery failure (ack timeout) with retry logic.
+   * Retries are re-queued with backoff; messages that exhaust their retries
+   * move to the dead-letter list for inspection.
    */
-  private handleMessageFailure(message: WebSocketMessage): void {
+  private handleMessageFailure(pendingAck: PendingAck, error?: string): void {
+    const { message } = pendingAck;
+    const retryCount = pendingAck.retryCount + 1;
+
     if (!this.config.enableRetryLogic) {
       return;
     }
 
-    // Find in queue and retry
-    const queuedMessage = this.messageQueue.find(qm => qm.message.messageId === message.messageId);
-    if (queuedMessage && queuedMessage.retryCount < this.config.maxRetryAttempts) {
-      queuedMessage.retryCount++;
-      
-      setTimeout(() => {
-        this.sendMessage(message);
-      }, this.config.retryDelay);
-    } else {
-      this.networkStats.messagesFailed++;
+    if (retryCount > this.config.maxRetryAttempts) {
+      this.deadLetterMessage(pendingAck, error);
       this.emit('messageFailed', message.messageId, 'Max retry attempts reached');
+      return;
+    }
+
+    this.queueMessage(message, pendingAck.priority, {
+      retryCount,
+      queuedAt: pendingAck.queuedAt,
+      nextAttemptAt: Date.now() + this.getRetryDelay(retryCount),
+      lastError: error,
+    });
+    this.scheduleRetryTimer();
+  }
+
+  /**
+   * Move a message to the dead-letter list without further retries
+   */
+  private deadLetterMessage(pendingAck: PendingAck, error?: string): void {
+    this.networkStats.messagesFailed++;
+    const deadLetter: QueuedMessage = {
+      message: pendingAck.message,
+      retryCount: pendingAck.retryCount,
+      queuedAt: pendingAck.queuedAt,
+      priority: pendingAck.priority,
+      lastError: error,
+    };
+    this.deadLetters.push(deadLetter);
+    this.persistOutbox();
+    this.emit('messageDeadLettered', deadLetter);
+  }
+
+  // ===== PERSISTENCE =====
+
+  /**
+   * Restore the outbox saved before the last shutdown. Messages that were
+   * awaiting an ack are re-queued: the old connection can no longer ack them.
+   */
+  private async restoreOutbox(): Promise<void> {
+    if (!this.config.enablePersistence) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.config.persistenceKey);
+      if (!stored) return;
+
+      const data: PersistedOutbox = JSON.parse(stored);
+      const restored = [
+        ...(data.pendingAcks || []).map(pending => ({
+          message: pending.message,
+          retryCount: pending.retryCount,
+          queuedAt: pending.queuedAt,
+          priority: pending.priority,
+        })),
+        ...(data.queue || []),
+      ].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+      for (const queuedMessage of restored) {
+        // Dedupe against anything queued since construction
+        if (!this.isKnownMessage(queuedMessage.message.messageId)) {
+          this.messageQueue.push(queuedMessage);
+        }
+      }
+
+      const knownDeadLetters = new Set(this.deadLetters.map(dl => dl.message.messageId));
+      this.deadLetters.push(...(data.deadLetters || []).filter(dl => !knownDeadLetters.has(dl.message.messageId)));
+
+      if (restored.length > 0) {
+        console.log(`📥 Restored ${restored.length} outbound skill messages`);
+        this.emit('queueRestored', restored.length);
+      }
+
+      this.processMessageQueue();
+    } catch (error) {
+      console.warn('⚠️ Failed to restore outbound message queue:', error);
+    }
+  }
+
+  /**
+   * Persist the outbox, coalescing writes while one is in flight
+   */
+  private persistOutbox(): void {
+    if (!this.config.enablePersistence) return;
+
+    this.persistDirty = true;
+    if (this.persisting) return;
+
+    this.persisting = (async () => {
+      // Never overwrite a saved outbox that has not been restored yet
+      await this.restored;
+      while (this.persistDirty) {
+        this.persistDirty = false;
+        const data: PersistedOutbox = {
+          queue: this.messageQueue,
+          pendingAcks: Array.from(this.pendingAcks.values()),
+          deadLetters: this.deadLetters,
+          savedAt: new Date().toISOString(),
+        };
+        try {
+          await AsyncStorage.setItem(this.config.persistenceKey, JSON.stringify(data));
+        } catch (error) {
+          console.warn('⚠️ Failed to persist outbound message queue:', error);
+        }
+      }
+      this.persisting = undefined;
+    })();
+  }
+
+  /**
+   * Wait for any in-flight outbox write (useful before app shutdown)
+   */
+  async flushPersistence(): Promise<void> {
+    await this.restored;
+    while (this.persisting) {
+      await this.persisting;
     }
   }
 
@@ -543,6 +927,28 @@ export class SkillWebSocketManager extends EventEmitter {
     return `msg_${++this.messageIdCounter}_${Date.now()}`;
   }
 
+  private createMessage(type: WebSocketMessage['type'], data: any): WebSocketMessage {
+    return {
+      type,
+      data,
+      messageId: this.generateMessageId(),
+      timestamp: new Date().toISOString(),
+      requiresAck: false,
+    };
+  }
+
+  /**
+   * Fire-and-forget send for control messages (never queued, never acked)
+   */
+  private sendRaw(message: WebSocketMessage): void {
+    if (!this.connectionState.isConnected || !this.ws) return;
+    try {
+      this.ws.send(JSON.stringify(message));
+    } catch (error) {
+      console.warn('⚠️ Failed to send control message:', error);
+    }
+  }
+
   private initializeConnectionState(): ConnectionState {
     return {
       isConnected: false,
@@ -609,9 +1015,72 @@ export class SkillWebSocketManager extends EventEmitter {
    */
   clearMessageQueue(): void {
     this.messageQueue = [];
+    this.persistOutbox();
     this.emit('queueCleared');
   }
 
+  /**
+   * Inspect messages waiting to be sent
+   */
+  getQueuedMessages(): QueuedMessage[] {
+    return this.messageQueue.map(qm => ({ ...qm }));
+  }
+
+  /**
+   * Inspect messages sent but not yet acknowledged
+   */
+  getPendingAckMessages(): PendingAck[] {
+    return Array.from(this.pendingAcks.values()).map(pending => ({ ...pending }));
+  }
+
+  /**
+   * Inspect messages that exhausted their retries
+   */
+  getDeadLetterMessages(): QueuedMessage[] {
+    return this.deadLetters.map(dl => ({ ...dl }));
+  }
+
+  /**
+   * Drop a message (e.g. a poisoned one) from the queue, pending acks or dead letters
+   */
+  dropMessage(messageId: string): boolean {
+    const before = this.messageQueue.length + this.pendingAcks.size + this.deadLetters.length;
+
+    this.messageQueue = this.messageQueue.filter(qm => qm.message.messageId !== messageId);
+    this.pendingAcks.delete(messageId);
+    this.deadLetters = this.deadLetters.filter(dl => dl.message.messageId !== messageId);
+
+    const dropped = this.messageQueue.length + this.pendingAcks.size + this.deadLetters.length < before;
+    if (dropped) {
+      this.persistOutbox();
+      this.scheduleRetryTimer();
+      this.emit('messageDropped', messageId);
+    }
+    return dropped;
+  }
+
+  /**
+   * Move a dead-lettered message back into the queue with a fresh retry budget
+   */
+  retryDeadLetter(messageId: string): boolean {
+    const deadLetter = this.deadLetters.find(dl => dl.message.messageId === messageId);
+    if (!deadLetter) return false;
+
+    this.deadLetters = this.deadLetters.filter(dl => dl !== deadLetter);
+    this.queueMessage(deadLetter.message, deadLetter.priority, { queuedAt: deadLetter.queuedAt });
+    this.processMessageQueue();
+    return true;
+  }
+
+  /**
+   * Discard every dead-lettered message
+   */
+  clearDeadLetters(): void {
+    this.deadLetters = [];
+    this.persistOutbox();
+    this.emit('deadLettersCleared');
+  }
+
   /**
    * Update configuration
    */
@@ -626,8 +1095,13 @@ export class SkillWebSocketManager extends EventEmitter {
   cleanup(): void {
     this.disconnect();
     this.stopBatchTimer();
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
     this.debounceTimers.forEach(timer => clearTimeout(timer));
     this.debounceTimers.clear();
+    this.debouncedUpdates.clear();
     this.messageQueue = [];
     this.pendingAcks.clear();
     this.removeAllListeners();
@@ -10,35 +10,25 @@
  * - Authoritative and minimal in-memory storage
  * - Indexed by skillId for fast lookups
  * - UUID-based ownership tagging with secondary indexes
- * - 64-alphanumeric unique skillIds for admin-inserted skills
+ * - URL-safe skillIds: random 21-char [A-Za-z0-9_-] or deterministic `<namespace>.<slug>` (see SkillIds.ts)
  * - LRU cache foundation for full engine data
  * - Diff-based sync and batch updates for WebSocket
  * - Debug and monitoring tools
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Simple EventEmitter implementation for React Native
-class EventEmitter {
-  private events: { [key: string]: Function[] } = {};
-
-  on(event: string, listener: Function) {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    this.events[event].push(listener);
-  }
-
-  off(event: string, listener: Function) {
-    if (!this.events[event]) return;
-    this.events[event] = this.events[event].filter(l => l !== listener);
-  }
-
-  emit(event: string, ...args: any[]) {
-    if (!this.events[event]) return;
-    this.events[event].forEach(listener => listener(...args));
-  }
-}
+import { EventEmitter } from './EventEmitter';
+import { asyncStorageStore, type KeyValueStore } from './KeyValueStore';
+import { assertValidFormulas } from './SkillFormula';
+import { assertValidSkillId, createDeterministicSkillId, generateRandomSkillId, SkillIdError } from './SkillIds';
+import { SkillSearchIndex } from './SkillSearchIndex';
+import {
+  StorageMigration,
+  StorageMigrationRunner,
+  StorageMigrationOptions,
+  StorageMigrationReport,
+  parseStoredJSON,
+} from './StorageMigrations';
+import type { SkillWebSocketManager } from './SkillWebSocketManager';
 
 // Core Skill Interfaces
 export interface SkillAbility {
@@ -66,18 +56,157 @@ export interface SkillSummary {
 
 export interface SkillEngineData {
   id: string;
-  formulas: Record<string, any>; // Heavy calculation formulas
-  cooldowns: Record<string, number>; // Detailed cooldown mechanics
+  formulas: Record<string, string>; // SkillFormula expressions keyed by 'damage' / 'heal' / '<abilityId>:damage'
+  cooldowns: Record<string, number>; // Cooldown (ms) per ability id
+  charges?: SkillChargeSettings; // Only for charge-based skills
   internalCalculations: Record<string, any>; // Complex battle calculations
   version: number;
   lastModified: string;
 }
 
+export interface SkillChargeSettings {
+  maxCharges: number;
+  rechargeInterval: number; // ms per charge; 0 = never regenerates
+}
+
 export interface Skill {
   summary: SkillSummary;
   engineData?: SkillEngineData; // Optional - loaded on demand
 }
 
+export interface CreateSkillOptions {
+  id?: string; // Caller-supplied ID (must be URL-safe and unused)
+  namespace?: string; // Deterministic `<namespace>.<slug of name>` ID, e.g. "core.combat"
+}
+
+// Template Import Interfaces (content packs)
+export interface SkillTemplateImport {
+  summary: Omit<SkillSummary, 'createdAt' | 'updatedAt' | 'isTemplate' | 'ownerId'>; // id is kept as-is
+  engineData?: Partial<Pick<SkillEngineData, 'formulas' | 'cooldowns' | 'charges' | 'internalCalculations'>>;
+  version: number; // Re-imports only replace templates with a lower version
+}
+
+export interface SkillTemplateImportResult {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+}
+
+// Search Interfaces
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export type SkillSearchSortKey = 'relevance' | 'name' | 'rarity' | 'createdAt' | 'updatedAt';
+
+export interface SkillSearchQuery {
+  text?: string; // Matches name, description and ability names
+  rarity?: SkillSummary['rarity'] | SkillSummary['rarity'][];
+  category?: string | string[];
+  ownerId?: string;
+  isTemplate?: boolean;
+  cooldown?: NumberRange; // At least one ability's cooldown (ms) in range
+  manaCost?: NumberRange; // At least one ability's mana cost in range
+  sortBy?: SkillSearchSortKey; // Default: relevance with text, otherwise name
+  sortDirection?: 'asc' | 'desc'; // Default: desc for relevance/dates, asc otherwise
+  limit?: number; // Default 20, max 100
+  cursor?: string; // nextCursor from the previous page
+  includeFacets?: boolean;
+}
+
+export interface SkillSearchFacets {
+  rarity: Record<string, number>;
+  category: Record<string, number>;
+  isTemplate: { true: number; false: number };
+}
+
+export interface SkillSearchResult {
+  items: SkillSummary[];
+  total: number; // Matches across all pages
+  nextCursor: string | null;
+  facets?: SkillSearchFacets; // Each facet ignores its own filter
+}
+
+// Aggregate Statistics Interfaces
+export interface NumericStats {
+  count: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+}
+
+export interface SkillAggregateScope {
+  ownerId?: string; // Only this player's skills
+  isTemplate?: boolean; // Only templates / only player-owned skills
+}
+
+export interface SkillAggregates {
+  totalSkills: number;
+  templates: number;
+  playerOwned: number;
+  owners: number;
+  byRarity: Record<SkillSummary['rarity'], number>;
+  byCategory: Record<string, number>;
+  byCategoryAndRarity: Record<string, Record<SkillSummary['rarity'], number>>;
+  byEffect: Record<string, number>; // Skills with at least one ability applying the effect
+  abilities: {
+    total: number;
+    averagePerSkill: number;
+    cooldown: NumericStats;
+    manaCost: NumericStats;
+    damage: NumericStats;
+  };
+}
+
+// Index Integrity Interfaces
+export type SkillIndexName = 'owner' | 'category' | 'template' | 'rarity' | 'effect';
+
+export interface IndexIntegrityIssue {
+  type: 'missing_entry' | 'dangling_entry' | 'misplaced_entry' | 'orphaned_engine_data';
+  skillId: string;
+  index?: SkillIndexName; // Not set for orphaned engine data
+  key?: string; // Index bucket, e.g. the ownerId or category
+  storageKey?: string; // Orphaned engine data key
+}
+
+export interface IndexIntegrityReport {
+  checkedAt: string;
+  healthy: boolean;
+  totalSkills: number;
+  issues: IndexIntegrityIssue[];
+  orphanedEngineKeys: string[];
+}
+
+export interface IndexRepairOptions {
+  removeOrphanedEngineData?: boolean; // Default true
+}
+
+export interface IndexRepairResult {
+  before: IndexIntegrityReport;
+  after: IndexIntegrityReport;
+  rebuiltIndexes: boolean;
+  removedEngineKeys: string[];
+}
+
+// Transaction Interfaces
+export interface SkillsDBTransaction {
+  createSkill(
+    skillData: Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'>,
+    engineData?: Partial<SkillEngineData>,
+    options?: CreateSkillOptions
+  ): Promise<Skill>;
+  importTemplates(templates: SkillTemplateImport[]): Promise<SkillTemplateImportResult>;
+  updateSkill(
+    skillId: string,
+    updates: Partial<SkillSummary>,
+    engineUpdates?: Partial<SkillEngineData>,
+    ownerId?: string
+  ): Promise<Skill>;
+  deleteSkill(skillId: string, ownerId?: string): Promise<void>;
+}
+
 // Cache and Performance Interfaces
 export interface CacheStats {
   summaryCache: {
@@ -114,6 +243,7 @@ export interface SkillUpdate {
   version: number;
   timestamp: string;
   ownerId?: string;
+  deleted?: boolean; // Tombstone - the skill was removed at this version
 }
 
 export interface BatchUpdate {
@@ -140,6 +270,7 @@ export interface SkillsDBConfig {
   debug: boolean;
   enableLRU: boolean;
   enableBatchUpdates: boolean;
+  storage: KeyValueStore; // Persistence backend (AsyncStorage, in-memory, IndexedDB)
 }
 
 // Default Configuration
@@ -158,8 +289,132 @@ const DEFAULT_CONFIG: SkillsDBConfig = {
   debug: false,
   enableLRU: true,
   enableBatchUpdates: true,
+  storage: asyncStorageStore,
 };
 
+// Fields that belong to SkillEngineData when an update has type 'both'
+const ENGINE_FIELDS = new Set(['formulas', 'cooldowns', 'charges', 'internalCalculations', 'lastModified']);
+
+// ===== SCHEMA MIGRATIONS =====
+
+const VALID_RARITIES = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const TRANSACTION_WAIT_WARNING_MS = 5000; // Outside writes queued this long behind a transaction may be re-entrant
+
+/**
+ * Numbered migrations for the knowledge base blob and its per-skill engine keys.
+ * Append new entries; never edit one that has shipped.
+ */
+function createSkillsDBMigrations(persistenceKey: string): StorageMigration[] {
+  const enginePrefix = `${persistenceKey}_engine_`;
+
+  return [
+    {
+      version: 1,
+      description: 'Backfill summary/engine fields, rebuild indexes from summaries',
+      up: async storage => {
+        const data = parseStoredJSON(await storage.getItem(persistenceKey));
+        if (data) {
+          const summaries: SkillSummary[] = (Array.isArray(data.summaries) ? data.summaries : [])
+            .filter((summary: any) => summary && typeof summary.id === 'string')
+            .map((summary: any) => ({
+              ...summary,
+              name: summary.name || 'Unnamed Skill',
+              description: summary.description || '',
+              category: summary.category || 'general',
+              rarity: VALID_RARITIES.includes(summary.rarity) ? summary.rarity : 'common',
+              abilities: Array.isArray(summary.abilities) ? summary.abilities : [],
+              isTemplate: typeof summary.isTemplate === 'boolean' ? summary.isTemplate : !summary.ownerId,
+              createdAt: summary.createdAt || summary.updatedAt || new Date(data.timestamp || Date.now()).toISOString(),
+              updatedAt: summary.updatedAt || summary.createdAt || new Date(data.timestamp || Date.now()).toISOString(),
+            }));
+
+          // Older blobs could carry stale indexes; derive them from the summaries instead
+          const ownerIndex: Record<string, string[]> = {};
+          const categoryIndex: Record<string, string[]> = {};
+          const templateIndex: string[] = [];
+          for (const summary of summaries) {
+            if (summary.ownerId) {
+              (ownerIndex[summary.ownerId] = ownerIndex[summary.ownerId] || []).push(summary.id);
+            } else {
+              templateIndex.push(summary.id);
+            }
+            (categoryIndex[summary.category] = categoryIndex[summary.category] || []).push(summary.id);
+          }
+
+          await storage.setItem(persistenceKey, JSON.stringify({
+            ...data,
+            summaries,
+            indexes: { ownerIndex, categoryIndex, templateIndex },
+            timestamp: data.timestamp || Date.now(),
+          }));
+        }
+
+        // Engine data predating sync versions gets version 1 so remote updates can be compared
+        const engineKeys = (await storage.getAllKeys()).filter(key => key.startsWith(enginePrefix));
+        for (const key of engineKeys) {
+          const engineData = parseStoredJSON(await storage.getItem(key));
+          if (!engineData) continue; // Unreadable - leave it for the integrity tools
+
+          const version = Number(engineData.version);
+          await storage.setItem(key, JSON.stringify({
+            ...engineData,
+            id: engineData.id || key.slice(enginePrefix.length),
+            formulas: engineData.formulas || {},
+            cooldowns: engineData.cooldowns || {},
+            internalCalculations: engineData.internalCalculations || {},
+            version: Number.isInteger(version) && version >= 1 ? version : 1,
+            lastModified: engineData.lastModified || new Date().toISOString(),
+          }));
+        }
+      },
+    },
+    {
+      version: 2,
+      description: 'Add rarity and ability effect indexes',
+      up: async storage => {
+        const data = parseStoredJSON(await storage.getItem(persistenceKey));
+        if (!data || !Array.isArray(data.summaries)) return;
+
+        const rarityIndex: Record<string, string[]> = {};
+        const effectIndex: Record<string, string[]> = {};
+        for (const summary of data.summaries as SkillSummary[]) {
+          (rarityIndex[summary.rarity] = rarityIndex[summary.rarity] || []).push(summary.id);
+          for (const effect of getSkillEffects(summary)) {
+            (effectIndex[effect] = effectIndex[effect] || []).push(summary.id);
+          }
+        }
+
+        await storage.setItem(persistenceKey, JSON.stringify({
+          ...data,
+          indexes: { ...(data.indexes || {}), rarityIndex, effectIndex },
+        }));
+      },
+    },
+    {
+      version: 3,
+      description: 'Move charge settings out of the per-ability cooldowns map',
+      up: async storage => {
+        const engineKeys = (await storage.getAllKeys()).filter(key => key.startsWith(enginePrefix));
+        for (const key of engineKeys) {
+          const engineData = parseStoredJSON(await storage.getItem(key));
+          const cooldowns = engineData?.cooldowns;
+          if (!cooldowns || !('maxCharges' in cooldowns)) continue;
+
+          const { maxCharges, rechargeInterval, ...abilityCooldowns } = cooldowns;
+          await storage.setItem(key, JSON.stringify({
+            ...engineData,
+            cooldowns: abilityCooldowns,
+            charges: { maxCharges, rechargeInterval: rechargeInterval ?? 0 },
+          }));
+        }
+      },
+    },
+  ];
+}
+
 // LRU Cache Implementation (Foundation)
 class LRUCache<T> {
   private cache = new Map<string, { value: T; timestamp: number; accessCount: number }>();
@@ -233,6 +488,166 @@ class LRUCache<T> {
   }
 }
 
+// ===== WRITE CONTEXT =====
+
+// Changes staged by one write or transaction, kept until they are persisted
+interface WriteContext {
+  originalSummaries: Map<string, SkillSummary | undefined>; // State before the first change, for rollback
+  originalDeletedVersions: Map<string, number | undefined>; // Tombstones before the first change, for rollback
+  engineWrites: Map<string, SkillEngineData | null>; // null = delete
+  events: Array<[string, any]>; // Emitted after the commit
+  outbound: SkillUpdate[]; // Sent to the WebSocket manager after the commit
+  dirty: boolean;
+  closed: boolean;
+}
+
+interface PendingWrite {
+  ctx: WriteContext;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+class Mutex {
+  private locked = false;
+  private queue: Array<() => void> = [];
+
+  async acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.locked) {
+        this.locked = true;
+        resolve();
+      } else {
+        this.queue.push(resolve);
+      }
+    });
+  }
+
+  release(): void {
+    if (this.queue.length > 0) {
+      const next = this.queue.shift();
+      if (next) next();
+    } else {
+      this.locked = false;
+    }
+  }
+}
+
+// ===== INDEX HELPERS =====
+
+/**
+ * Distinct effects applied by any of the skill's abilities
+ */
+function getSkillEffects(summary: SkillSummary): Set<string> {
+  const effects = new Set<string>();
+  for (const ability of summary.abilities || []) {
+    for (const effect of ability.effects || []) {
+      effects.add(effect);
+    }
+  }
+  return effects;
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, skillId: string): void {
+  if (!index.has(key)) {
+    index.set(key, new Set());
+  }
+  index.get(key)!.add(skillId);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, skillId: string): void {
+  const skillIds = index.get(key);
+  if (!skillIds) return;
+  skillIds.delete(skillId);
+  if (skillIds.size === 0) {
+    index.delete(key);
+  }
+}
+
+/**
+ * Index contents derived from the summaries alone
+ */
+function buildExpectedIndexes(summaries: Iterable<SkillSummary>): Record<SkillIndexName, Map<string, Set<string>>> {
+  const expected: Record<SkillIndexName, Map<string, Set<string>>> = {
+    owner: new Map(),
+    category: new Map(),
+    template: new Map(),
+    rarity: new Map(),
+    effect: new Map(),
+  };
+  for (const summary of summaries) {
+    if (summary.ownerId) {
+      addToIndex(expected.owner, summary.ownerId, summary.id);
+    } else {
+      addToIndex(expected.template, '', summary.id);
+    }
+    addToIndex(expected.category, summary.category, summary.id);
+    addToIndex(expected.rarity, summary.rarity, summary.id);
+    getSkillEffects(summary).forEach(effect => addToIndex(expected.effect, effect, summary.id));
+  }
+  return expected;
+}
+
+function computeNumericStats(values: number[]): NumericStats {
+  if (values.length === 0) {
+    return { count: 0, min: null, max: null, mean: null, median: null };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+  };
+}
+
+// ===== SEARCH HELPERS =====
+
+function toFilterSet<T extends string>(value: T | T[] | undefined): Set<string> | null {
+  if (value === undefined) return null;
+  return new Set(Array.isArray(value) ? value : [value]);
+}
+
+function matchesAbilityRange(
+  summary: SkillSummary,
+  field: 'cooldown' | 'manaCost',
+  range: NumberRange | undefined
+): boolean {
+  if (!range || (range.min === undefined && range.max === undefined)) return true;
+  return summary.abilities.some(ability => {
+    const value = ability[field];
+    if (value === undefined) return false;
+    return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+  });
+}
+
+/**
+ * Cursors are opaque to callers: the last item's sort key, tied to the sort order
+ */
+function encodeSearchCursor(key: [string | number, string], sortBy: string, direction: string): string {
+  return encodeURIComponent(JSON.stringify([sortBy, direction, key[0], key[1]]));
+}
+
+function decodeSearchCursor(cursor: string, sortBy: string, direction: string): [string | number, string] {
+  const decoded = parseStoredJSON<[string, string, string | number, string]>(safeDecodeURIComponent(cursor));
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    throw new Error('Invalid search cursor');
+  }
+  if (decoded[0] !== sortBy || decoded[1] !== direction) {
+    throw new Error('Search cursor does not match the query sort order');
+  }
+  return [decoded[2], decoded[3]];
+}
+
+function safeDecodeURIComponent(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
 export class SkillsDB extends EventEmitter {
   private config: SkillsDBConfig;
   
@@ -244,6 +659,9 @@ export class SkillsDB extends EventEmitter {
   private ownerIndex = new Map<string, Set<string>>(); // ownerId -> Set<skillId>
   private categoryIndex = new Map<string, Set<string>>(); // category -> Set<skillId>
   private templateIndex = new Set<string>(); // skillIds that are templates
+  private rarityIndex = new Map<string, Set<string>>(); // rarity -> Set<skillId>
+  private effectIndex = new Map<string, Set<string>>(); // ability effect -> Set<skillId>
+  private searchIndex = new SkillSearchIndex(); // token -> skillIds for searchSkills()
   
   // Performance Tracking
   private stats = {
@@ -256,12 +674,42 @@ export class SkillsDB extends EventEmitter {
   // Batch Update Management
   private pendingUpdates: SkillUpdate[] = [];
   private batchTimer?: NodeJS.Timeout;
+
+  // WebSocket Sync
+  private wsManager?: SkillWebSocketManager;
+  private locallyAuthoredVersions = new Map<string, number>(); // skillId -> last version produced here
+  private deletedVersions = new Map<string, number>(); // skillId -> version it was deleted at (tombstones)
+  private readonly onRemoteSkillUpdate = (update: SkillUpdate) => {
+    this.applyRemoteUpdate(update).catch(error => this.emit('error', error));
+  };
+  private readonly onRemoteBatchUpdate = (batch: BatchUpdate) => {
+    this.applyRemoteBatch(batch).catch(error => this.emit('error', error));
+  };
   
   private isInitialized = false;
+  private schemaMigrations: StorageMigrationRunner;
+  private lastIntegrityReport?: IndexIntegrityReport;
+
+  // Transactional Persistence
+  private writeMutex = new Mutex();
+  private openTransaction: symbol | null = null; // Transaction holding the write lock
+  private transactionScope: symbol | null = null; // Transaction whose callback is running synchronously
+  private pendingWrites: PendingWrite[] = [];
+  private isFlushingWrites = false;
+  private persistenceStats = {
+    batchesWritten: 0,
+    writesCoalesced: 0, // Writes that shared a batch with another write
+    failedBatches: 0,
+  };
 
   constructor(config: Partial<SkillsDBConfig> = {}) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.schemaMigrations = new StorageMigrationRunner(
+      this.config.persistenceKey,
+      createSkillsDBMigrations(this.config.persistenceKey),
+      this.config.storage
+    );
     this.engineCache = new LRUCache<SkillEngineData>(
       this.config.maxEngineCacheSize,
       300000 // 5 minutes TTL
@@ -272,7 +720,20 @@ export class SkillsDB extends EventEmitter {
     if (this.isInitialized) return;
     
     try {
+      const migration = await this.schemaMigrations.ensureMigrated();
+      if (migration.status === 'rolled_back') {
+        this.emit('migrationFailed', migration);
+      }
+
       await this.loadFromStorage();
+
+      // Indexes were already rebuilt if needed; this surfaces orphaned engine data
+      const integrity = await this.verifyIntegrity();
+      if (!integrity.healthy) {
+        console.warn(`⚠️ SkillsDB found ${integrity.issues.length} integrity issues, run repairIntegrity()`);
+        this.emit('integrityIssues', integrity);
+      }
+
       this.isInitialized = true;
       this.emit('initialized');
       this.log('SkillsDB Knowledge Base initialized successfully');
@@ -299,6 +760,24 @@ export class SkillsDB extends EventEmitter {
     return null;
   }
 
+  /**
+   * Get many skill summaries in one call (missing IDs are left out)
+   */
+  async getSkillSummaries(skillIds: string[]): Promise<Map<string, SkillSummary>> {
+    const summaries = new Map<string, SkillSummary>();
+    for (const skillId of skillIds) {
+      const summary = this.summaryCache.get(skillId);
+      if (summary) {
+        this.stats.summaryHits++;
+        summaries.set(skillId, summary);
+      } else {
+        this.stats.summaryMisses++;
+        this.emit('summaryCacheMiss', skillId);
+      }
+    }
+    return summaries;
+  }
+
   /**
    * Get full skill with engine data (loads engine data on demand)
    */
@@ -344,11 +823,61 @@ export class SkillsDB extends EventEmitter {
    */
   async createSkill(
     skillData: Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'>,
-    engineData?: Partial<SkillEngineData>
+    engineData?: Partial<SkillEngineData>,
+    options: CreateSkillOptions = {}
+  ): Promise<Skill> {
+    this.assertNotInTransaction('createSkill');
+    return this.write(ctx => this.createSkillIn(ctx, skillData, engineData, options));
+  }
+
+  /**
+   * Import global templates under the IDs they were authored with.
+   * Local only - every client ships the same content, so nothing is broadcast.
+   */
+  async importTemplates(templates: SkillTemplateImport[]): Promise<SkillTemplateImportResult> {
+    this.assertNotInTransaction('importTemplates');
+    return this.write(ctx => this.importTemplatesIn(ctx, templates));
+  }
+
+  /**
+   * Update skill (supports partial updates)
+   */
+  async updateSkill(
+    skillId: string,
+    updates: Partial<SkillSummary>,
+    engineUpdates?: Partial<SkillEngineData>,
+    ownerId?: string
+  ): Promise<Skill> {
+    this.assertNotInTransaction('updateSkill');
+    return this.write(ctx => this.updateSkillIn(ctx, skillId, updates, engineUpdates, ownerId));
+  }
+
+  /**
+   * Delete skill
+   */
+  async deleteSkill(skillId: string, ownerId?: string): Promise<void> {
+    this.assertNotInTransaction('deleteSkill');
+    return this.write(ctx => this.deleteSkillIn(ctx, skillId, ownerId));
+  }
+
+  private async createSkillIn(
+    ctx: WriteContext,
+    skillData: Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'>,
+    engineData: Partial<SkillEngineData> | undefined,
+    options: CreateSkillOptions
   ): Promise<Skill> {
-    const skillId = this.generateUniqueSkillId();
+    // Reject malformed formulas before anything is stored
+    assertValidFormulas(engineData?.formulas);
+
+    const skillId = await this.resolveNewSkillId(skillData, options);
     const now = new Date().toISOString();
 
+    // Re-creating a deleted ID continues past its tombstone so peers accept it
+    const deletedVersion = this.deletedVersions.get(skillId) || 0;
+    if (deletedVersion) {
+      this.stageDeletedVersion(ctx, skillId, null);
+    }
+
     const summary: SkillSummary = {
       ...skillData,
       id: skillId,
@@ -357,40 +886,98 @@ export class SkillsDB extends EventEmitter {
     };
 
     // Store summary (always in memory)
-    this.summaryCache.set(skillId, summary);
-    this.updateIndexes(summary, 'add');
+    this.stageSummary(ctx, skillId, summary);
 
-    // Store engine data if provided
-    if (engineData) {
-      const fullEngineData: SkillEngineData = {
+    // Engine data is always stored so the skill carries a sync version
+    const fullEngineData: SkillEngineData = {
+      id: skillId,
+      formulas: engineData?.formulas || {},
+      cooldowns: engineData?.cooldowns || {},
+      ...(engineData?.charges ? { charges: engineData.charges } : {}),
+      internalCalculations: engineData?.internalCalculations || {},
+      version: deletedVersion + 1,
+      lastModified: now,
+    };
+
+    this.stageEngineData(ctx, skillId, fullEngineData);
+    ctx.events.push(['skillCreated', { summary, engineData }]);
+    this.log('Skill created:', skillId);
+
+    const { version, ...engineFields } = fullEngineData;
+    ctx.outbound.push({
+      skillId,
+      type: 'both',
+      data: { ...summary, ...engineFields },
+      version: fullEngineData.version,
+      timestamp: now,
+      ownerId: summary.ownerId,
+    });
+
+    return { summary, engineData: fullEngineData };
+  }
+
+  private async importTemplatesIn(ctx: WriteContext, templates: SkillTemplateImport[]): Promise<SkillTemplateImportResult> {
+    const result: SkillTemplateImportResult = { created: [], updated: [], unchanged: [] };
+    const now = new Date().toISOString();
+
+    for (const template of templates) {
+      const skillId = template.summary.id;
+      assertValidSkillId(skillId);
+      assertValidFormulas(template.engineData?.formulas);
+
+      const existingSummary = this.summaryCache.get(skillId);
+      if (existingSummary && !existingSummary.isTemplate) {
+        throw new Error(`Skill ID ${skillId} is already used by a player-owned skill`);
+      }
+
+      const existingEngineData = existingSummary ? await this.getEngineData(skillId) : null;
+      if (existingSummary && existingEngineData && existingEngineData.version >= template.version) {
+        result.unchanged.push(skillId);
+        continue;
+      }
+
+      const summary: SkillSummary = {
+        ...template.summary,
+        id: skillId,
+        isTemplate: true,
+        ownerId: undefined,
+        createdAt: existingSummary?.createdAt || now,
+        updatedAt: now,
+      };
+
+      const engineData: SkillEngineData = {
         id: skillId,
-        formulas: engineData.formulas || {},
-        cooldowns: engineData.cooldowns || {},
-        internalCalculations: engineData.internalCalculations || {},
-        version: 1,
+        formulas: template.engineData?.formulas || {},
+        cooldowns: template.engineData?.cooldowns || {},
+        ...(template.engineData?.charges ? { charges: template.engineData.charges } : {}),
+        internalCalculations: template.engineData?.internalCalculations || {},
+        version: template.version,
         lastModified: now,
       };
-      
-      this.engineCache.set(skillId, fullEngineData);
-      await this.saveEngineDataToStorage(skillId, fullEngineData);
+
+      this.stageSummary(ctx, skillId, summary);
+      this.stageEngineData(ctx, skillId, engineData);
+      if (this.deletedVersions.has(skillId)) {
+        this.stageDeletedVersion(ctx, skillId, null);
+      }
+
+      ctx.events.push([existingSummary ? 'skillUpdated' : 'skillCreated', { summary, engineData, template: true }]);
+      (existingSummary ? result.updated : result.created).push(skillId);
     }
 
-    await this.saveToStorage();
-    this.emit('skillCreated', { summary, engineData });
-    this.log('Skill created:', skillId);
+    if (result.created.length > 0 || result.updated.length > 0) {
+      this.log('Templates imported:', result.created.length, 'created,', result.updated.length, 'updated');
+    }
 
-    const finalEngineData = engineData ? await this.getEngineData(skillId) : undefined;
-    return { summary, engineData: finalEngineData || undefined };
+    return result;
   }
 
-  /**
-   * Update skill (supports partial updates)
-   */
-  async updateSkill(
+  private async updateSkillIn(
+    ctx: WriteContext,
     skillId: string,
     updates: Partial<SkillSummary>,
-    engineUpdates?: Partial<SkillEngineData>,
-    ownerId?: string
+    engineUpdates: Partial<SkillEngineData> | undefined,
+    ownerId: string | undefined
   ): Promise<Skill> {
     const existingSummary = this.summaryCache.get(skillId);
     if (!existingSummary) {
@@ -402,6 +989,10 @@ export class SkillsDB extends EventEmitter {
       throw new Error('Unauthorized: You can only update your own skills');
     }
 
+    if (engineUpdates?.formulas) {
+      assertValidFormulas(engineUpdates.formulas);
+    }
+
     const updatedSummary: SkillSummary = {
       ...existingSummary,
       ...updates,
@@ -410,43 +1001,42 @@ export class SkillsDB extends EventEmitter {
     };
 
     // Update summary
-    this.summaryCache.set(skillId, updatedSummary);
-    this.updateIndexes(updatedSummary, 'update', existingSummary);
-
-    // Update engine data if provided
-    let updatedEngineData: SkillEngineData | undefined;
-    if (engineUpdates) {
-      const existingEngineData = await this.getEngineData(skillId);
-      updatedEngineData = {
-        formulas: {},
-        cooldowns: {},
-        internalCalculations: {},
-        ...existingEngineData,
-        ...engineUpdates,
-        id: skillId,
-        version: (existingEngineData?.version || 0) + 1,
-        lastModified: new Date().toISOString(),
-      };
-      
-      this.engineCache.set(skillId, updatedEngineData);
-      await this.saveEngineDataToStorage(skillId, updatedEngineData);
-    }
+    this.stageSummary(ctx, skillId, updatedSummary);
+
+    // Every update bumps the engine data version, which doubles as the sync version
+    const existingEngineData = await this.getEngineData(skillId);
+    const updatedEngineData: SkillEngineData = {
+      formulas: {},
+      cooldowns: {},
+      internalCalculations: {},
+      ...existingEngineData,
+      ...engineUpdates,
+      id: skillId,
+      version: (existingEngineData?.version || 0) + 1,
+      lastModified: updatedSummary.updatedAt,
+    };
 
-    await this.saveToStorage();
-    this.emit('skillUpdated', { summary: updatedSummary, engineData: updatedEngineData });
+    this.stageEngineData(ctx, skillId, updatedEngineData);
+    ctx.events.push(['skillUpdated', { summary: updatedSummary, engineData: updatedEngineData }]);
     this.log('Skill updated:', skillId);
 
-    const finalEngineData = updatedEngineData || await this.getEngineData(skillId);
+    // Only the changed fields go over the wire
+    ctx.outbound.push({
+      skillId,
+      type: engineUpdates ? 'both' : 'summary',
+      data: { ...updates, ...engineUpdates, id: skillId, updatedAt: updatedSummary.updatedAt },
+      version: updatedEngineData.version,
+      timestamp: updatedSummary.updatedAt,
+      ownerId: updatedSummary.ownerId,
+    });
+
     return { 
       summary: updatedSummary, 
-      engineData: finalEngineData || undefined
+      engineData: updatedEngineData
     };
   }
 
-  /**
-   * Delete skill
-   */
-  async deleteSkill(skillId: string, ownerId?: string): Promise<void> {
+  private async deleteSkillIn(ctx: WriteContext, skillId: string, ownerId: string | undefined): Promise<void> {
     const summary = this.summaryCache.get(skillId);
     if (!summary) {
       throw new Error('Skill not found');
@@ -457,55 +1047,517 @@ export class SkillsDB extends EventEmitter {
       throw new Error('Unauthorized: You can only delete your own skills');
     }
 
-    this.summaryCache.delete(skillId);
-    this.engineCache.delete(skillId);
-    this.updateIndexes(summary, 'remove');
-    
-    await this.deleteEngineDataFromStorage(skillId);
-    await this.saveToStorage();
+    const engineData = await this.getEngineData(skillId);
+    const deletedVersion = (engineData?.version || 0) + 1;
+
+    this.stageSummary(ctx, skillId, null);
+    this.stageEngineData(ctx, skillId, null);
+    this.stageDeletedVersion(ctx, skillId, deletedVersion);
 
-    this.emit('skillDeleted', skillId);
+    ctx.events.push(['skillDeleted', skillId]);
     this.log('Skill deleted:', skillId);
+
+    ctx.outbound.push({
+      skillId,
+      type: 'summary',
+      data: {},
+      version: deletedVersion,
+      timestamp: new Date().toISOString(),
+      ownerId: summary.ownerId,
+      deleted: true,
+    });
   }
 
-  // ===== QUERY METHODS =====
+  // ===== TRANSACTIONS =====
 
   /**
-   * Get skills by owner (UUID-based)
+   * Run several mutations as one unit: a single storage write on success,
+   * in-memory rollback if the callback throws or the write fails.
+   * Events and outbound sync updates are only published after the commit.
+   *
+   * Use `tx` inside the callback. Writes from elsewhere wait for the commit.
+   * skillsDB write methods called from the callback itself would wait on the
+   * transaction's own lock: before the callback's first await they throw,
+   * after it a warning is logged once they have been queued for 5 seconds.
    */
-  async getSkillsByOwner(ownerId: string): Promise<SkillSummary[]> {
-    const skillIds = this.ownerIndex.get(ownerId);
-    if (!skillIds) return [];
+  async transaction<T>(run: (tx: SkillsDBTransaction) => Promise<T>): Promise<T> {
+    this.assertNotInTransaction('transaction');
+    const token = Symbol('transaction');
 
-    const skills: SkillSummary[] = [];
-    for (const skillId of skillIds) {
-      const summary = this.summaryCache.get(skillId);
-      if (summary) {
-        skills.push(summary);
+    return this.write(async ctx => {
+      const open = () => {
+        if (ctx.closed) throw new Error('Transaction already finished');
+      };
+      const tx: SkillsDBTransaction = {
+        createSkill: async (skillData, engineData, options = {}) => {
+          open();
+          return this.createSkillIn(ctx, skillData, engineData, options);
+        },
+        importTemplates: async templates => {
+          open();
+          return this.importTemplatesIn(ctx, templates);
+        },
+        updateSkill: async (skillId, updates, engineUpdates, ownerId) => {
+          open();
+          return this.updateSkillIn(ctx, skillId, updates, engineUpdates, ownerId);
+        },
+        deleteSkill: async (skillId, ownerId) => {
+          open();
+          return this.deleteSkillIn(ctx, skillId, ownerId);
+        },
+      };
+
+      this.openTransaction = token;
+      try {
+        let pending: Promise<T>;
+        this.transactionScope = token;
+        try {
+          pending = run(tx);
+        } finally {
+          this.transactionScope = null;
+        }
+        return await pending;
+      } finally {
+        this.openTransaction = null;
       }
-    }
-    return skills;
+    });
   }
 
-  /**
-   * Get skills by category
-   */
-  async getSkillsByCategory(category: string): Promise<SkillSummary[]> {
-    const skillIds = this.categoryIndex.get(category);
-    if (!skillIds) return [];
-
-    const skills: SkillSummary[] = [];
-    for (const skillId of skillIds) {
-      const summary = this.summaryCache.get(skillId);
-      if (summary) {
-        skills.push(summary);
-      }
+  private assertNotInTransaction(method: string): void {
+    if (this.transactionScope) {
+      throw new Error(`skillsDB.${method}() called inside a transaction - use the tx passed to transaction() instead`);
     }
-    return skills;
   }
 
   /**
-   * Get all skill templates (admin-created, no owner)
+   * Every mutation runs here: exclusive access to the in-memory state while
+   * `run` stages changes, then a (coalesced) write to storage
+   */
+  private async write<T>(run: (ctx: WriteContext) => Promise<T>): Promise<T> {
+    const waitingOn = this.openTransaction;
+    const waitWarning = waitingOn && setTimeout(() => {
+      if (this.openTransaction === waitingOn) {
+        console.warn(`⚠️ SkillsDB write queued ${TRANSACTION_WAIT_WARNING_MS}ms behind an open transaction - ` +
+          'skillsDB write methods awaited inside transaction() never run, use tx instead');
+      }
+    }, TRANSACTION_WAIT_WARNING_MS);
+    await this.writeMutex.acquire();
+    if (waitWarning) clearTimeout(waitWarning);
+    const ctx: WriteContext = {
+      originalSummaries: new Map(),
+      originalDeletedVersions: new Map(),
+      engineWrites: new Map(),
+      events: [],
+      outbound: [],
+      dirty: false,
+      closed: false,
+    };
+
+    let result: T;
+    try {
+      result = await run(ctx);
+    } catch (error) {
+      ctx.closed = true;
+      this.rollbackWrite(ctx);
+      this.writeMutex.release();
+      throw error;
+    }
+    ctx.closed = true;
+
+    if (ctx.dirty) {
+      const persisted = new Promise<void>((resolve, reject) => {
+        this.pendingWrites.push({ ctx, resolve, reject });
+      });
+      this.writeMutex.release();
+      this.flushWrites();
+      await persisted;
+    } else {
+      this.writeMutex.release();
+    }
+
+    this.publishWrite(ctx);
+    return result;
+  }
+
+  private stageSummary(ctx: WriteContext, skillId: string, summary: SkillSummary | null): void {
+    const existing = this.summaryCache.get(skillId);
+    if (!ctx.originalSummaries.has(skillId)) {
+      ctx.originalSummaries.set(skillId, existing);
+    }
+
+    if (summary) {
+      this.summaryCache.set(skillId, summary);
+      this.updateIndexes(summary, existing ? 'update' : 'add', existing);
+    } else if (existing) {
+      this.summaryCache.delete(skillId);
+      this.updateIndexes(existing, 'remove');
+    }
+    ctx.dirty = true;
+  }
+
+  private stageEngineData(ctx: WriteContext, skillId: string, engineData: SkillEngineData | null): void {
+    if (engineData) {
+      this.engineCache.set(skillId, engineData);
+    } else {
+      this.engineCache.delete(skillId);
+    }
+    ctx.engineWrites.set(skillId, engineData);
+    ctx.dirty = true;
+  }
+
+  private stageDeletedVersion(ctx: WriteContext, skillId: string, version: number | null): void {
+    if (!ctx.originalDeletedVersions.has(skillId)) {
+      ctx.originalDeletedVersions.set(skillId, this.deletedVersions.get(skillId));
+    }
+
+    if (version !== null) {
+      this.deletedVersions.set(skillId, version);
+    } else {
+      this.deletedVersions.delete(skillId);
+    }
+    ctx.dirty = true;
+  }
+
+  /**
+   * Undo a write's in-memory changes (newest write first when undoing several)
+   */
+  private rollbackWrite(ctx: WriteContext): void {
+    for (const [skillId, original] of ctx.originalSummaries) {
+      const current = this.summaryCache.get(skillId);
+      if (original) {
+        this.summaryCache.set(skillId, original);
+        this.updateIndexes(original, current ? 'update' : 'add', current);
+      } else if (current) {
+        this.summaryCache.delete(skillId);
+        this.updateIndexes(current, 'remove');
+      }
+    }
+
+    for (const [skillId, original] of ctx.originalDeletedVersions) {
+      if (original !== undefined) {
+        this.deletedVersions.set(skillId, original);
+      } else {
+        this.deletedVersions.delete(skillId);
+      }
+    }
+
+    // Storage still holds the committed engine data; drop the cached copies
+    ctx.engineWrites.forEach((_, skillId) => this.engineCache.delete(skillId));
+  }
+
+  private publishWrite(ctx: WriteContext): void {
+    ctx.events.forEach(([event, payload]) => this.emit(event, payload));
+    ctx.outbound.forEach(update => this.queueOutboundUpdate(update));
+  }
+
+  /**
+   * Persist queued writes. Writes that arrive while a batch is being stored
+   * are coalesced into the next one, so the summary blob is serialized once
+   * per batch rather than once per mutation.
+   */
+  private async flushWrites(): Promise<void> {
+    if (this.isFlushingWrites) return;
+    this.isFlushingWrites = true;
+
+    try {
+      // Let writes issued in the same tick join the first batch
+      await Promise.resolve();
+
+      while (this.pendingWrites.length > 0) {
+        // Serialize while no write is mid-flight so nothing uncommitted is stored
+        await this.writeMutex.acquire();
+        const batch = this.pendingWrites.splice(0);
+        const changes = this.collectWriteBatch(batch.map(pending => pending.ctx));
+        this.writeMutex.release();
+
+        try {
+          await this.config.storage.multiSet(changes.set);
+          this.persistenceStats.batchesWritten++;
+          this.persistenceStats.writesCoalesced += batch.length - 1;
+        } catch (error) {
+          // Roll back this batch and everything queued behind it, newest first
+          await this.writeMutex.acquire();
+          const failed = [...batch, ...this.pendingWrites.splice(0)];
+          for (let i = failed.length - 1; i >= 0; i--) {
+            this.rollbackWrite(failed[i].ctx);
+          }
+          this.writeMutex.release();
+
+          this.persistenceStats.failedBatches++;
+          console.error(`❌ SkillsDB failed to persist ${failed.length} writes, rolled back:`, error);
+          this.emit('persistFailed', { error, writes: failed.length });
+          failed.forEach(pending => pending.reject(error));
+          continue;
+        }
+
+        // Summaries are committed; a failed removal only leaves orphaned engine data
+        if (changes.removed.length > 0) {
+          try {
+            await this.config.storage.multiRemove(changes.removed);
+          } catch (error) {
+            console.warn('⚠️ SkillsDB failed to remove engine data, run repairIntegrity():', error);
+          }
+        }
+        batch.forEach(pending => pending.resolve());
+      }
+    } finally {
+      this.isFlushingWrites = false;
+    }
+  }
+
+  private collectWriteBatch(contexts: WriteContext[]): { set: Array<[string, string]>; removed: string[] } {
+    const engineWrites = new Map<string, SkillEngineData | null>();
+    for (const ctx of contexts) {
+      ctx.engineWrites.forEach((engineData, skillId) => engineWrites.set(skillId, engineData));
+    }
+
+    const set: Array<[string, string]> = [
+      [this.config.persistenceKey, JSON.stringify(this.serializeForStorage())],
+    ];
+    const removed: string[] = [];
+    engineWrites.forEach((engineData, skillId) => {
+      if (engineData) {
+        set.push([this.getEngineStorageKey(skillId), JSON.stringify(engineData)]);
+      } else {
+        removed.push(this.getEngineStorageKey(skillId));
+      }
+    });
+    return { set, removed };
+  }
+
+  // ===== WEBSOCKET SYNC =====
+
+  /**
+   * Subscribe to a SkillWebSocketManager: inbound updates are applied to this
+   * database, local create/update/delete are pushed out through it
+   */
+  attachWebSocketManager(manager: SkillWebSocketManager): void {
+    if (this.wsManager === manager) return;
+    this.detachWebSocketManager();
+
+    this.wsManager = manager;
+    manager.on('skillUpdate', this.onRemoteSkillUpdate);
+    manager.on('batchUpdate', this.onRemoteBatchUpdate);
+    this.log('Attached WebSocket manager');
+  }
+
+  /**
+   * Stop syncing with the attached SkillWebSocketManager
+   */
+  detachWebSocketManager(): void {
+    if (!this.wsManager) return;
+
+    this.flushOutboundUpdates();
+    this.wsManager.off('skillUpdate', this.onRemoteSkillUpdate);
+    this.wsManager.off('batchUpdate', this.onRemoteBatchUpdate);
+    this.wsManager = undefined;
+    this.log('Detached WebSocket manager');
+  }
+
+  /**
+   * Apply a remote batch in order (persisted as one write)
+   */
+  async applyRemoteBatch(batch: BatchUpdate): Promise<{ applied: number; rejected: number }> {
+    return this.write(async ctx => {
+      let applied = 0;
+      for (const update of batch.updates || []) {
+        if (await this.applyRemoteUpdateIn(ctx, update)) {
+          applied++;
+        }
+      }
+      return { applied, rejected: (batch.updates?.length || 0) - applied };
+    });
+  }
+
+  /**
+   * Apply a remote SkillUpdate if its version is newer than ours.
+   *
+   * Equal versions are accepted only when we authored that version locally:
+   * the server received both and kept the other one, so it wins.
+   * Deleted skills keep their delete version as a tombstone, so a replayed
+   * older update cannot bring them back.
+   * Returns false if the update was stale or a duplicate.
+   */
+  async applyRemoteUpdate(update: SkillUpdate): Promise<boolean> {
+    return this.write(ctx => this.applyRemoteUpdateIn(ctx, update));
+  }
+
+  private async applyRemoteUpdateIn(ctx: WriteContext, update: SkillUpdate): Promise<boolean> {
+    if (!update || typeof update.skillId !== 'string' || typeof update.version !== 'number') {
+      this.log('Ignoring malformed remote update:', update);
+      return false;
+    }
+
+    const { skillId } = update;
+    const existingSummary = this.summaryCache.get(skillId);
+    const existingEngineData = await this.getEngineData(skillId);
+    const localVersion = Math.max(existingEngineData?.version || 0, this.deletedVersions.get(skillId) || 0);
+    const authoredLocally = this.locallyAuthoredVersions.get(skillId) === update.version;
+
+    if (update.version < localVersion || (update.version === localVersion && !authoredLocally)) {
+      ctx.events.push(['remoteUpdateRejected', { update, localVersion }]);
+      this.log(`Rejected stale remote update for ${skillId} (v${update.version} <= v${localVersion})`);
+      return false;
+    }
+
+    // The server's copy supersedes anything we still have queued for this skill
+    this.pendingUpdates = this.pendingUpdates.filter(pending => pending.skillId !== skillId);
+    this.locallyAuthoredVersions.delete(skillId);
+
+    if (update.deleted) {
+      this.stageSummary(ctx, skillId, null);
+      this.stageEngineData(ctx, skillId, null);
+      this.stageDeletedVersion(ctx, skillId, update.version);
+
+      ctx.events.push(['skillDeleted', skillId]);
+      ctx.events.push(['remoteUpdateApplied', update]);
+      this.log('Remote delete applied:', skillId);
+      return true;
+    }
+
+    const summaryData: Record<string, any> = {};
+    const engineFields: Record<string, any> = {};
+    for (const [key, value] of Object.entries(update.data || {})) {
+      if (key === 'version') continue; // update.version is authoritative
+      const isEngineField = update.type === 'engine' || (update.type === 'both' && ENGINE_FIELDS.has(key));
+      (isEngineField ? engineFields : summaryData)[key] = value;
+    }
+
+    const now = new Date().toISOString();
+    const updatedSummary: SkillSummary = {
+      name: '',
+      description: '',
+      category: 'uncategorized',
+      rarity: 'common',
+      abilities: [],
+      isTemplate: !update.ownerId,
+      ownerId: update.ownerId,
+      createdAt: update.timestamp || now,
+      ...existingSummary,
+      ...summaryData,
+      id: skillId,
+      updatedAt: summaryData.updatedAt || update.timestamp || now,
+    } as SkillSummary;
+
+    const updatedEngineData: SkillEngineData = {
+      formulas: {},
+      cooldowns: {},
+      internalCalculations: {},
+      ...existingEngineData,
+      ...engineFields,
+      id: skillId,
+      version: update.version,
+      lastModified: engineFields.lastModified || update.timestamp || now,
+    };
+
+    this.stageSummary(ctx, skillId, updatedSummary);
+    this.stageEngineData(ctx, skillId, updatedEngineData);
+    if (this.deletedVersions.has(skillId)) {
+      this.stageDeletedVersion(ctx, skillId, null);
+    }
+
+    ctx.events.push([existingSummary ? 'skillUpdated' : 'skillCreated', {
+      summary: updatedSummary,
+      engineData: updatedEngineData,
+      remote: true,
+    }]);
+    ctx.events.push(['remoteUpdateApplied', update]);
+    this.log('Remote update applied:', skillId, `v${update.version}`);
+    return true;
+  }
+
+  /**
+   * Queue a local change for the WebSocket manager, coalescing changes to the
+   * same skill and debouncing the flush
+   */
+  private queueOutboundUpdate(update: SkillUpdate): void {
+    if (!this.wsManager) return;
+
+    this.locallyAuthoredVersions.set(update.skillId, update.version);
+
+    const existingIndex = this.pendingUpdates.findIndex(pending => pending.skillId === update.skillId);
+    if (existingIndex >= 0) {
+      const previous = this.pendingUpdates[existingIndex];
+      this.pendingUpdates[existingIndex] = {
+        ...update,
+        type: previous.type === update.type ? update.type : 'both',
+        data: update.deleted ? {} : { ...previous.data, ...update.data },
+      };
+    } else {
+      this.pendingUpdates.push(update);
+    }
+
+    if (!this.config.enableBatchUpdates) {
+      this.flushOutboundUpdates();
+      return;
+    }
+
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+    }
+    this.batchTimer = setTimeout(() => {
+      this.batchTimer = undefined;
+      this.flushOutboundUpdates();
+    }, this.config.wsConfig.debounceDelay);
+  }
+
+  /**
+   * Send every queued local change to the WebSocket manager now
+   */
+  flushOutboundUpdates(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+    }
+    if (!this.wsManager || this.pendingUpdates.length === 0) return;
+
+    const updates = this.pendingUpdates;
+    this.pendingUpdates = [];
+
+    for (const update of updates) {
+      this.wsManager.sendSkillUpdate(update);
+    }
+    this.log(`Pushed ${updates.length} local updates`);
+  }
+
+  // ===== QUERY METHODS =====
+
+  /**
+   * Get skills by owner (UUID-based)
+   */
+  async getSkillsByOwner(ownerId: string): Promise<SkillSummary[]> {
+    const skillIds = this.ownerIndex.get(ownerId);
+    if (!skillIds) return [];
+
+    const skills: SkillSummary[] = [];
+    for (const skillId of skillIds) {
+      const summary = this.summaryCache.get(skillId);
+      if (summary) {
+        skills.push(summary);
+      }
+    }
+    return skills;
+  }
+
+  /**
+   * Get skills by category
+   */
+  async getSkillsByCategory(category: string): Promise<SkillSummary[]> {
+    const skillIds = this.categoryIndex.get(category);
+    if (!skillIds) return [];
+
+    const skills: SkillSummary[] = [];
+    for (const skillId of skillIds) {
+      const summary = this.summaryCache.get(skillId);
+      if (summary) {
+        skills.push(summary);
+      }
+    }
+    return skills;
+  }
+
+  /**
+   * Get all skill templates (admin-created, no owner)
    */
   async getSkillTemplates(): Promise<SkillSummary[]> {
     const templates: SkillSummary[] = [];
@@ -518,6 +1570,219 @@ export class SkillsDB extends EventEmitter {
     return templates;
   }
 
+  /**
+   * Get skills by rarity
+   */
+  async getSkillsByRarity(rarity: SkillSummary['rarity']): Promise<SkillSummary[]> {
+    return this.getSummariesFromIndex(this.rarityIndex.get(rarity));
+  }
+
+  /**
+   * Get skills with at least one ability applying the effect (e.g. 'burn')
+   */
+  async getSkillsByEffect(effect: string): Promise<SkillSummary[]> {
+    return this.getSummariesFromIndex(this.effectIndex.get(effect));
+  }
+
+  /**
+   * Every effect applied by at least one skill
+   */
+  getKnownEffects(): string[] {
+    return Array.from(this.effectIndex.keys()).sort();
+  }
+
+  /**
+   * Counts and distributions for dashboards and balancing
+   */
+  getAggregates(scope: SkillAggregateScope = {}): SkillAggregates {
+    let inScope: Set<string> | null = null;
+    if (scope.ownerId !== undefined) {
+      inScope = new Set(scope.isTemplate === true ? [] : this.ownerIndex.get(scope.ownerId) || []);
+    } else if (scope.isTemplate === true) {
+      inScope = this.templateIndex;
+    } else if (scope.isTemplate === false) {
+      inScope = new Set(Array.from(this.summaryCache.keys()).filter(id => !this.templateIndex.has(id)));
+    }
+
+    // Intersect an index bucket with the scope, iterating the smaller side
+    const countInScope = (skillIds: Set<string> | undefined): number => {
+      if (!skillIds) return 0;
+      if (!inScope) return skillIds.size;
+      const [small, large] = skillIds.size <= inScope.size ? [skillIds, inScope] : [inScope, skillIds];
+      let count = 0;
+      small.forEach(id => { if (large.has(id)) count++; });
+      return count;
+    };
+
+    const emptyRarityCounts = (): Record<SkillSummary['rarity'], number> =>
+      ({ common: 0, uncommon: 0, rare: 0, epic: 0, legendary: 0 });
+
+    const byRarity = emptyRarityCounts();
+    this.rarityIndex.forEach((skillIds, rarity) => {
+      byRarity[rarity as SkillSummary['rarity']] = countInScope(skillIds);
+    });
+
+    const byCategory: Record<string, number> = {};
+    const byCategoryAndRarity: Record<string, Record<SkillSummary['rarity'], number>> = {};
+    this.categoryIndex.forEach((categoryIds, category) => {
+      const count = countInScope(categoryIds);
+      if (count === 0) return;
+      byCategory[category] = count;
+      byCategoryAndRarity[category] = emptyRarityCounts();
+      categoryIds.forEach(skillId => {
+        if (inScope && !inScope.has(skillId)) return;
+        const summary = this.summaryCache.get(skillId);
+        if (summary) byCategoryAndRarity[category][summary.rarity]++;
+      });
+    });
+
+    const byEffect: Record<string, number> = {};
+    this.effectIndex.forEach((skillIds, effect) => {
+      const count = countInScope(skillIds);
+      if (count > 0) byEffect[effect] = count;
+    });
+
+    const owners = new Set<string>();
+    const cooldowns: number[] = [];
+    const manaCosts: number[] = [];
+    const damages: number[] = [];
+    let totalSkills = 0;
+    let templates = 0;
+    let totalAbilities = 0;
+
+    for (const skillId of inScope || this.summaryCache.keys()) {
+      const summary = this.summaryCache.get(skillId);
+      if (!summary) continue;
+      totalSkills++;
+      if (this.templateIndex.has(skillId)) templates++;
+      if (summary.ownerId) owners.add(summary.ownerId);
+
+      for (const ability of summary.abilities) {
+        totalAbilities++;
+        if (ability.cooldown !== undefined) cooldowns.push(ability.cooldown);
+        if (ability.manaCost !== undefined) manaCosts.push(ability.manaCost);
+        if (ability.damage !== undefined) damages.push(ability.damage);
+      }
+    }
+
+    return {
+      totalSkills,
+      templates,
+      playerOwned: totalSkills - templates,
+      owners: owners.size,
+      byRarity,
+      byCategory,
+      byCategoryAndRarity,
+      byEffect,
+      abilities: {
+        total: totalAbilities,
+        averagePerSkill: totalSkills > 0 ? totalAbilities / totalSkills : 0,
+        cooldown: computeNumericStats(cooldowns),
+        manaCost: computeNumericStats(manaCosts),
+        damage: computeNumericStats(damages),
+      },
+    };
+  }
+
+  /**
+   * Full-text and faceted search with cursor pagination
+   */
+  async searchSkills(query: SkillSearchQuery = {}): Promise<SkillSearchResult> {
+    const textScores = query.text ? this.searchIndex.search(query.text) : null;
+    const sortBy: SkillSearchSortKey = query.sortBy || (textScores ? 'relevance' : 'name');
+    const direction = query.sortDirection ||
+      (sortBy === 'relevance' || sortBy === 'createdAt' || sortBy === 'updatedAt' ? 'desc' : 'asc');
+    const limit = Math.min(Math.max(1, Math.floor(query.limit || DEFAULT_SEARCH_LIMIT)), MAX_SEARCH_LIMIT);
+
+    // Narrow candidates with the cheapest index available
+    let candidateIds: Iterable<string>;
+    if (textScores) {
+      candidateIds = textScores.keys();
+    } else if (query.ownerId !== undefined) {
+      candidateIds = this.ownerIndex.get(query.ownerId) || [];
+    } else {
+      candidateIds = this.summaryCache.keys();
+    }
+
+    const rarities = toFilterSet(query.rarity);
+    const categories = toFilterSet(query.category);
+    const filters = {
+      rarity: (s: SkillSummary) => !rarities || rarities.has(s.rarity),
+      category: (s: SkillSummary) => !categories || categories.has(s.category),
+      isTemplate: (s: SkillSummary) => query.isTemplate === undefined || s.isTemplate === query.isTemplate,
+      other: (s: SkillSummary) =>
+        (query.ownerId === undefined || s.ownerId === query.ownerId) &&
+        matchesAbilityRange(s, 'cooldown', query.cooldown) &&
+        matchesAbilityRange(s, 'manaCost', query.manaCost),
+    };
+    type FilterKey = keyof typeof filters;
+    const passes = (summary: SkillSummary, skip?: FilterKey) =>
+      (Object.keys(filters) as FilterKey[]).every(key => key === skip || filters[key](summary));
+
+    const candidates: SkillSummary[] = [];
+    for (const skillId of candidateIds) {
+      const summary = this.summaryCache.get(skillId);
+      if (summary) candidates.push(summary);
+    }
+
+    const matches = candidates.filter(summary => passes(summary));
+    const sortValue = (summary: SkillSummary): string | number => {
+      switch (sortBy) {
+        case 'relevance': return textScores?.get(summary.id) || 0;
+        case 'rarity': return VALID_RARITIES.indexOf(summary.rarity);
+        case 'createdAt': return summary.createdAt;
+        case 'updatedAt': return summary.updatedAt;
+        default: return summary.name.toLowerCase();
+      }
+    };
+    const compare = (a: [string | number, string], b: [string | number, string]) => {
+      const byValue = a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+      const ordered = direction === 'asc' ? byValue : -byValue;
+      // Ties break on ID so the order (and therefore cursors) is stable
+      return ordered !== 0 ? ordered : (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+    };
+
+    const keyed = matches
+      .map(summary => ({ summary, key: [sortValue(summary), summary.id] as [string | number, string] }))
+      .sort((a, b) => compare(a.key, b.key));
+
+    const after = query.cursor ? decodeSearchCursor(query.cursor, sortBy, direction) : null;
+    const remaining = after ? keyed.filter(entry => compare(entry.key, after) > 0) : keyed;
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const result: SkillSearchResult = {
+      items: page.map(entry => entry.summary),
+      total: keyed.length,
+      nextCursor: remaining.length > limit && last ? encodeSearchCursor(last.key, sortBy, direction) : null,
+    };
+
+    if (query.includeFacets) {
+      const facets: SkillSearchFacets = { rarity: {}, category: {}, isTemplate: { true: 0, false: 0 } };
+      for (const summary of candidates) {
+        if (passes(summary, 'rarity')) facets.rarity[summary.rarity] = (facets.rarity[summary.rarity] || 0) + 1;
+        if (passes(summary, 'category')) facets.category[summary.category] = (facets.category[summary.category] || 0) + 1;
+        if (passes(summary, 'isTemplate')) facets.isTemplate[summary.isTemplate ? 'true' : 'false']++;
+      }
+      result.facets = facets;
+    }
+
+    return result;
+  }
+
+  private getSummariesFromIndex(skillIds: Set<string> | undefined): SkillSummary[] {
+    if (!skillIds) return [];
+
+    const skills: SkillSummary[] = [];
+    for (const skillId of skillIds) {
+      const summary = this.summaryCache.get(skillId);
+      if (summary) {
+        skills.push(summary);
+      }
+    }
+    return skills;
+  }
+
   /**
    * Get all skills (summaries only for performance)
    */
@@ -549,6 +1814,23 @@ export class SkillsDB extends EventEmitter {
     operation: 'add' | 'update' | 'remove', 
     oldSummary?: SkillSummary
   ): void {
+    if (operation === 'remove') {
+      this.searchIndex.remove(summary.id);
+    } else {
+      this.searchIndex.add(summary);
+    }
+
+    // Rarity and effect indexes: drop the old entries, add the new ones
+    const previous = operation === 'add' ? undefined : (oldSummary || (operation === 'remove' ? summary : undefined));
+    if (previous) {
+      removeFromIndex(this.rarityIndex, previous.rarity, summary.id);
+      getSkillEffects(previous).forEach(effect => removeFromIndex(this.effectIndex, effect, summary.id));
+    }
+    if (operation !== 'remove') {
+      addToIndex(this.rarityIndex, summary.rarity, summary.id);
+      getSkillEffects(summary).forEach(effect => addToIndex(this.effectIndex, effect, summary.id));
+    }
+
     if (operation === 'add') {
       // Add to owner index
       if (summary.ownerId) {
@@ -605,11 +1887,76 @@ export class SkillsDB extends EventEmitter {
     }
   }
 
+  // ===== INTEGRITY =====
+
+  /**
+   * Check indexes against the summaries and look for orphaned engine data
+   */
+  async verifyIntegrity(): Promise<IndexIntegrityReport> {
+    const orphanedEngineKeys = await this.findOrphanedEngineKeys();
+    const prefix = this.getEngineStorageKey('');
+    const issues: IndexIntegrityIssue[] = [
+      ...this.collectIndexIssues(),
+      ...orphanedEngineKeys.map(storageKey => ({
+        type: 'orphaned_engine_data' as const,
+        skillId: storageKey.slice(prefix.length),
+        storageKey,
+      })),
+    ];
+
+    const report: IndexIntegrityReport = {
+      checkedAt: new Date().toISOString(),
+      healthy: issues.length === 0,
+      totalSkills: this.summaryCache.size,
+      issues,
+      orphanedEngineKeys,
+    };
+    this.lastIntegrityReport = report;
+    return report;
+  }
+
+  /**
+   * Rebuild drifted indexes and (by default) delete orphaned engine data
+   */
+  async repairIntegrity(options: IndexRepairOptions = {}): Promise<IndexRepairResult> {
+    const removeOrphans = options.removeOrphanedEngineData !== false;
+    const before = await this.verifyIntegrity();
+
+    const rebuiltIndexes = before.issues.some(issue => issue.type !== 'orphaned_engine_data');
+    const removedEngineKeys: string[] = [];
+
+    if (rebuiltIndexes || (removeOrphans && before.orphanedEngineKeys.length > 0)) {
+      await this.write(async ctx => {
+        if (rebuiltIndexes) {
+          this.rebuildIndexes();
+          ctx.dirty = true;
+        }
+        if (!removeOrphans) return;
+
+        const prefix = this.getEngineStorageKey('');
+        for (const key of before.orphanedEngineKeys) {
+          const skillId = key.slice(prefix.length);
+          if (this.summaryCache.has(skillId)) continue; // Created since the check
+          this.stageEngineData(ctx, skillId, null);
+          removedEngineKeys.push(key);
+        }
+      });
+    }
+
+    const after = await this.verifyIntegrity();
+    const result: IndexRepairResult = { before, after, rebuiltIndexes, removedEngineKeys };
+    if (!before.healthy) {
+      console.log(`🔧 SkillsDB repaired ${before.issues.length} integrity issues`);
+      this.emit('integrityRepaired', result);
+    }
+    return result;
+  }
+
   // ===== PERSISTENCE =====
 
   private async loadFromStorage(): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(this.config.persistenceKey);
+      const stored = await this.config.storage.getItem(this.config.persistenceKey);
       if (stored) {
         const data = JSON.parse(stored);
         this.restoreFromData(data);
@@ -620,15 +1967,6 @@ export class SkillsDB extends EventEmitter {
     }
   }
 
-  private async saveToStorage(): Promise<void> {
-    try {
-      const data = this.serializeForStorage();
-      await AsyncStorage.setItem(this.config.persistenceKey, JSON.stringify(data));
-    } catch (error) {
-      this.log('Failed to save to storage:', error);
-    }
-  }
-
   private serializeForStorage(): any {
     return {
       summaries: Array.from(this.summaryCache.values()),
@@ -640,7 +1978,14 @@ export class SkillsDB extends EventEmitter {
           Array.from(this.categoryIndex.entries()).map(([key, set]) => [key, Array.from(set)])
         ),
         templateIndex: Array.from(this.templateIndex),
+        rarityIndex: Object.fromEntries(
+          Array.from(this.rarityIndex.entries()).map(([key, set]) => [key, Array.from(set)])
+        ),
+        effectIndex: Object.fromEntries(
+          Array.from(this.effectIndex.entries()).map(([key, set]) => [key, Array.from(set)])
+        ),
       },
+      deletedVersions: Object.fromEntries(this.deletedVersions),
       timestamp: Date.now(),
     };
   }
@@ -649,6 +1994,14 @@ export class SkillsDB extends EventEmitter {
     // Restore summaries
     for (const summary of data.summaries) {
       this.summaryCache.set(summary.id, summary);
+      this.searchIndex.add(summary);
+    }
+
+    // Restore tombstones
+    for (const [skillId, version] of Object.entries(data.deletedVersions || {})) {
+      if (typeof version === 'number') {
+        this.deletedVersions.set(skillId, version);
+      }
     }
 
     // Restore indexes
@@ -665,13 +2018,93 @@ export class SkillsDB extends EventEmitter {
 
       // Restore template index
       this.templateIndex = new Set(data.indexes.templateIndex || []);
+
+      // Restore rarity and effect indexes
+      for (const [rarity, skillIds] of Object.entries(data.indexes.rarityIndex || {})) {
+        this.rarityIndex.set(rarity, new Set(skillIds as string[]));
+      }
+      for (const [effect, skillIds] of Object.entries(data.indexes.effectIndex || {})) {
+        this.effectIndex.set(effect, new Set(skillIds as string[]));
+      }
+    }
+
+    // Persisted indexes can drift (e.g. a crash between writes) - never trust them blindly
+    const issues = this.collectIndexIssues();
+    if (issues.length > 0) {
+      console.warn(`⚠️ SkillsDB indexes had ${issues.length} inconsistencies, rebuilding from summaries`);
+      this.rebuildIndexes();
+      this.emit('indexesRebuilt', { issues });
+    }
+  }
+
+  /**
+   * Derive every secondary index from the summaries
+   */
+  private rebuildIndexes(): void {
+    this.ownerIndex.clear();
+    this.categoryIndex.clear();
+    this.templateIndex.clear();
+    this.rarityIndex.clear();
+    this.effectIndex.clear();
+    this.searchIndex.clear();
+
+    for (const summary of this.summaryCache.values()) {
+      this.updateIndexes(summary, 'add');
     }
   }
 
+  /**
+   * Compare every index with what the summaries imply
+   */
+  private collectIndexIssues(): IndexIntegrityIssue[] {
+    const expected = buildExpectedIndexes(this.summaryCache.values());
+    const actual: Record<SkillIndexName, Map<string, Set<string>>> = {
+      owner: this.ownerIndex,
+      category: this.categoryIndex,
+      template: new Map([['', this.templateIndex]]),
+      rarity: this.rarityIndex,
+      effect: this.effectIndex,
+    };
+
+    const issues: IndexIntegrityIssue[] = [];
+    for (const index of Object.keys(expected) as SkillIndexName[]) {
+      const key = (bucket: string) => (index === 'template' ? undefined : bucket);
+
+      actual[index].forEach((skillIds, bucket) => {
+        skillIds.forEach(skillId => {
+          if (expected[index].get(bucket)?.has(skillId)) return;
+          issues.push({
+            type: this.summaryCache.has(skillId) ? 'misplaced_entry' : 'dangling_entry',
+            index,
+            key: key(bucket),
+            skillId,
+          });
+        });
+      });
+
+      expected[index].forEach((skillIds, bucket) => {
+        skillIds.forEach(skillId => {
+          if (!actual[index].get(bucket)?.has(skillId)) {
+            issues.push({ type: 'missing_entry', index, key: key(bucket), skillId });
+          }
+        });
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Engine data keys whose skill has no summary
+   */
+  private async findOrphanedEngineKeys(): Promise<string[]> {
+    const prefix = this.getEngineStorageKey('');
+    const keys = await this.config.storage.getAllKeys();
+    return keys.filter(key => key.startsWith(prefix) && !this.summaryCache.has(key.slice(prefix.length)));
+  }
+
   private async loadEngineDataFromStorage(skillId: string): Promise<SkillEngineData | null> {
     try {
-      const key = `${this.config.persistenceKey}_engine_${skillId}`;
-      const stored = await AsyncStorage.getItem(key);
+      const stored = await this.config.storage.getItem(this.getEngineStorageKey(skillId));
       return stored ? JSON.parse(stored) : null;
     } catch (error) {
       this.log('Failed to load engine data:', error);
@@ -679,36 +2112,53 @@ export class SkillsDB extends EventEmitter {
     }
   }
 
-  private async saveEngineDataToStorage(skillId: string, engineData: SkillEngineData): Promise<void> {
-    try {
-      const key = `${this.config.persistenceKey}_engine_${skillId}`;
-      await AsyncStorage.setItem(key, JSON.stringify(engineData));
-    } catch (error) {
-      this.log('Failed to save engine data:', error);
-    }
+  private getEngineStorageKey(skillId: string): string {
+    return `${this.config.persistenceKey}_engine_${skillId}`;
   }
 
-  private async deleteEngineDataFromStorage(skillId: string): Promise<void> {
-    try {
-      const key = `${this.config.persistenceKey}_engine_${skillId}`;
-      await AsyncStorage.removeItem(key);
-    } catch (error) {
-      this.log('Failed to delete engine data:', error);
+  // ===== UTILITY METHODS =====
+
+  /**
+   * Pick the ID for a new skill: caller-supplied, deterministic, or random
+   */
+  private async resolveNewSkillId(
+    skillData: Pick<SkillSummary, 'name'>,
+    options: CreateSkillOptions
+  ): Promise<string> {
+    if (options.id !== undefined || options.namespace !== undefined) {
+      const skillId = options.id ?? createDeterministicSkillId(options.namespace!, skillData.name);
+      assertValidSkillId(skillId);
+      if (await this.isSkillIdTaken(skillId)) {
+        throw new SkillIdError(skillId, `Skill ID ${skillId} is already in use`);
+      }
+      return skillId;
     }
+
+    return this.generateUniqueSkillId();
   }
 
-  // ===== UTILITY METHODS =====
+  /**
+   * Random URL-safe skill ID that no existing skill uses
+   */
+  private async generateUniqueSkillId(): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const skillId = generateRandomSkillId();
+      if (!(await this.isSkillIdTaken(skillId))) {
+        return skillId;
+      }
+      console.warn(`⚠️ Skill ID collision on ${skillId}, regenerating`);
+    }
+    throw new Error('Failed to generate a unique skill ID');
+  }
 
   /**
-   * Generate 64-alphanumeric unique skill ID
+   * An ID is taken if a summary exists or engine data was left behind in storage
    */
-  private generateUniqueSkillId(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_+-=[]{}|;:,.<>?';
-    let result = '';
-    for (let i = 0; i < 64; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+  private async isSkillIdTaken(skillId: string): Promise<boolean> {
+    if (this.summaryCache.has(skillId) || this.engineCache.has(skillId)) {
+      return true;
     }
-    return result;
+    return (await this.loadEngineDataFromStorage(skillId)) !== null;
   }
 
   private log(...args: any[]): void {
@@ -719,6 +2169,22 @@ export class SkillsDB extends EventEmitter {
 
   // ===== PUBLIC API =====
 
+  /**
+   * Run pending schema migrations (dryRun reports changes without writing)
+   */
+  async runSchemaMigrations(options: StorageMigrationOptions = {}): Promise<StorageMigrationReport> {
+    return options.dryRun
+      ? this.schemaMigrations.migrate(options)
+      : this.schemaMigrations.ensureMigrated();
+  }
+
+  /**
+   * Schema version currently recorded in storage
+   */
+  async getSchemaVersion(): Promise<number> {
+    return this.schemaMigrations.getCurrentVersion();
+  }
+
   getCacheStats(): CacheStats {
     const summaryHitRate = this.stats.summaryHits + this.stats.summaryMisses > 0 
       ? this.stats.summaryHits / (this.stats.summaryHits + this.stats.summaryMisses) 
@@ -757,6 +2223,10 @@ export class SkillsDB extends EventEmitter {
     this.ownerIndex.clear();
     this.categoryIndex.clear();
     this.templateIndex.clear();
+    this.rarityIndex.clear();
+    this.effectIndex.clear();
+    this.searchIndex.clear();
+    this.deletedVersions.clear();
     this.stats = { summaryHits: 0, summaryMisses: 0, engineHits: 0, engineMisses: 0 };
     this.emit('cacheCleared');
   }
@@ -778,6 +2248,23 @@ export class SkillsDB extends EventEmitter {
         ownerCount: this.ownerIndex.size,
         categoryCount: this.categoryIndex.size,
         templateCount: this.templateIndex.size,
+        rarityCount: this.rarityIndex.size,
+        effectCount: this.effectIndex.size,
+        searchIndexedSkills: this.searchIndex.size,
+        searchVocabularySize: this.searchIndex.vocabularySize,
+      },
+      sync: {
+        attached: !!this.wsManager,
+        pendingUpdates: this.pendingUpdates.length,
+      },
+      persistence: {
+        ...this.persistenceStats,
+        pendingWrites: this.pendingWrites.length,
+      },
+      integrity: {
+        lastReport: this.lastIntegrityReport,
+        verify: () => this.verifyIntegrity(),
+        repair: (options?: IndexRepairOptions) => this.repairIntegrity(options),
       },
       isInitialized: this.isInitialized,
     };
@@ -7,27 +7,7 @@
  * - Advanced caching strategies
  */
 
-// Simple EventEmitter implementation for React Native
-class EventEmitter {
-  private events: { [key: string]: Function[] } = {};
-
-  on(event: string, listener: Function) {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    this.events[event].push(listener);
-  }
-
-  off(event: string, listener: Function) {
-    if (!this.events[event]) return;
-    this.events[event] = this.events[event].filter(l => l !== listener);
-  }
-
-  emit(event: string, ...args: any[]) {
-    if (!this.events[event]) return;
-    this.events[event].forEach(listener => listener(...args));
-  }
-}
+import { EventEmitter } from './EventEmitter';
 import { Skill, SkillUpdate, SkillSummary, SkillEngineData } from './SkillsDB';
 
 // LRU Cache Implementation
@@ -0,0 +1,273 @@
+/**
+ * StorageMigrations - Versioned schema migrations for key-value stores
+ *
+ * Each store (SkillsDB, ClientsideSkillStorage, UnifiedBattleLogSystem) owns an
+ * ordered list of numbered migrations. The runner:
+ * - Records the current schema version per store under `schema_version_<store>`
+ * - Applies only migrations newer than the recorded version, in order
+ * - Stages every write in memory; nothing touches storage until all
+ *   pending migrations succeeded
+ * - Supports dry-run mode (report what would change, write nothing)
+ * - Rolls back to the original values if committing the staged writes fails
+ */
+
+import { asyncStorageStore, type KeyValueStore } from './KeyValueStore';
+
+// ===== INTERFACES =====
+
+/**
+ * Storage view handed to migrations. Reads see writes staged by earlier steps.
+ */
+export interface MigrationStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<string[]>;
+}
+
+export interface StorageMigration {
+  version: number; // 1, 2, 3... must be unique and increasing
+  description: string;
+  up(storage: MigrationStorage): Promise<void>;
+}
+
+export interface SchemaVersionRecord {
+  version: number;
+  updatedAt: string;
+  history: Array<{ version: number; description: string; appliedAt: string }>;
+}
+
+export interface StorageMigrationReport {
+  store: string;
+  status: 'up_to_date' | 'migrated' | 'dry_run' | 'rolled_back' | 'newer_schema';
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  applied: Array<{ version: number; description: string }>;
+  changedKeys: string[];
+  removedKeys: string[];
+  error?: string;
+}
+
+export interface StorageMigrationOptions {
+  dryRun?: boolean;
+}
+
+const SCHEMA_VERSION_KEY_PREFIX = 'schema_version_';
+
+// ===== STAGED STORAGE =====
+
+/**
+ * Buffers writes over the store's backend so a failing migration leaves nothing behind
+ */
+class StagedStorage implements MigrationStorage {
+  private staged = new Map<string, string | null>(); // null = removed
+
+  constructor(private backend: KeyValueStore) {}
+
+  async getItem(key: string): Promise<string | null> {
+    if (this.staged.has(key)) {
+      return this.staged.get(key)!;
+    }
+    return this.backend.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.staged.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.staged.set(key, null);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const keys = new Set(await this.backend.getAllKeys());
+    for (const [key, value] of this.staged) {
+      if (value === null) keys.delete(key);
+      else keys.add(key);
+    }
+    return Array.from(keys);
+  }
+
+  getChanges(): { set: Array<[string, string]>; removed: string[] } {
+    const set: Array<[string, string]> = [];
+    const removed: string[] = [];
+    for (const [key, value] of this.staged) {
+      if (value === null) removed.push(key);
+      else set.push([key, value]);
+    }
+    return { set, removed };
+  }
+
+  /**
+   * Write staged changes; on failure restore every touched key to its original value
+   */
+  async commit(): Promise<void> {
+    const keys = Array.from(this.staged.keys());
+    const originals = await this.backend.multiGet(keys);
+    const { set, removed } = this.getChanges();
+
+    try {
+      if (set.length > 0) await this.backend.multiSet(set);
+      if (removed.length > 0) await this.backend.multiRemove(removed);
+    } catch (error) {
+      const restore = originals.filter(([, value]) => value !== null) as Array<[string, string]>;
+      const remove = originals.filter(([, value]) => value === null).map(([key]) => key);
+      try {
+        if (restore.length > 0) await this.backend.multiSet(restore);
+        if (remove.length > 0) await this.backend.multiRemove(remove);
+      } catch (restoreError) {
+        console.error('❌ Failed to roll back storage migration:', restoreError);
+      }
+      throw error;
+    }
+  }
+}
+
+// ===== MIGRATION RUNNER =====
+
+export class StorageMigrationRunner {
+  private migrations: StorageMigration[];
+  private migratePromise?: Promise<StorageMigrationReport>;
+
+  constructor(
+    private store: string,
+    migrations: StorageMigration[],
+    private backend: KeyValueStore = asyncStorageStore
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    for (let i = 0; i < this.migrations.length; i++) {
+      if (this.migrations[i].version !== i + 1) {
+        throw new Error(`Migrations for "${store}" must be numbered 1..n without gaps`);
+      }
+    }
+  }
+
+  /**
+   * Latest schema version this build knows about
+   */
+  getTargetVersion(): number {
+    return this.migrations.length;
+  }
+
+  /**
+   * Schema version recorded in storage (0 for installs that predate versioning)
+   */
+  async getCurrentVersion(): Promise<number> {
+    const record = await this.getVersionRecord();
+    return record?.version || 0;
+  }
+
+  async getVersionRecord(): Promise<SchemaVersionRecord | null> {
+    const stored = await this.backend.getItem(this.getVersionKey());
+    return stored ? JSON.parse(stored) as SchemaVersionRecord : null;
+  }
+
+  /**
+   * Run pending migrations once per runner; later calls share the first result
+   */
+  ensureMigrated(): Promise<StorageMigrationReport> {
+    if (!this.migratePromise) {
+      this.migratePromise = this.migrate().then(report => {
+        // Allow another attempt on the next call if this one failed
+        if (report.status === 'rolled_back') this.migratePromise = undefined;
+        return report;
+      });
+    }
+    return this.migratePromise;
+  }
+
+  /**
+   * Apply pending migrations. With dryRun nothing is written.
+   */
+  async migrate(options: StorageMigrationOptions = {}): Promise<StorageMigrationReport> {
+    const dryRun = !!options.dryRun;
+    const record = await this.getVersionRecord();
+    const fromVersion = record?.version || 0;
+    const targetVersion = this.getTargetVersion();
+
+    const report: StorageMigrationReport = {
+      store: this.store,
+      status: 'up_to_date',
+      fromVersion,
+      toVersion: fromVersion,
+      dryRun,
+      applied: [],
+      changedKeys: [],
+      removedKeys: [],
+    };
+
+    if (fromVersion > targetVersion) {
+      // Written by a newer build - leave it alone rather than guess
+      console.warn(`⚠️ ${this.store} schema v${fromVersion} is newer than supported v${targetVersion}`);
+      return { ...report, status: 'newer_schema' };
+    }
+
+    const pending = this.migrations.filter(migration => migration.version > fromVersion);
+    if (pending.length === 0) {
+      return report;
+    }
+
+    const storage = new StagedStorage(this.backend);
+    const now = new Date().toISOString();
+
+    try {
+      for (const migration of pending) {
+        await migration.up(storage);
+        report.applied.push({ version: migration.version, description: migration.description });
+      }
+
+      const newRecord: SchemaVersionRecord = {
+        version: targetVersion,
+        updatedAt: now,
+        history: [
+          ...(record?.history || []),
+          ...report.applied.map(applied => ({ ...applied, appliedAt: now })),
+        ],
+      };
+      await storage.setItem(this.getVersionKey(), JSON.stringify(newRecord));
+
+      const changes = storage.getChanges();
+      report.changedKeys = changes.set.map(([key]) => key).filter(key => key !== this.getVersionKey());
+      report.removedKeys = changes.removed;
+      report.toVersion = targetVersion;
+
+      if (dryRun) {
+        report.status = 'dry_run';
+        return report;
+      }
+
+      await storage.commit();
+      report.status = 'migrated';
+      console.log(`✅ Migrated ${this.store} schema v${fromVersion} → v${targetVersion}`);
+      return report;
+    } catch (error) {
+      console.error(`❌ ${this.store} schema migration failed, rolled back:`, error);
+      return {
+        ...report,
+        status: 'rolled_back',
+        toVersion: fromVersion,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private getVersionKey(): string {
+    return `${SCHEMA_VERSION_KEY_PREFIX}${this.store}`;
+  }
+}
+
+// ===== HELPERS =====
+
+/**
+ * Parse a stored JSON value, returning null for missing or corrupt entries
+ */
+export function parseStoredJSON<T = any>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
@@ -22,28 +22,25 @@
  * - Optimized storage operations
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-// Simple EventEmitter implementation for React Native
-class EventEmitter {
-  private events: { [key: string]: Function[] } = {};
-
-  on(event: string, listener: Function) {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    this.events[event].push(listener);
-  }
-
-  off(event: string, listener: Function) {
-    if (!this.events[event]) return;
-    this.events[event] = this.events[event].filter(l => l !== listener);
-  }
-
-  emit(event: string, ...args: any[]) {
-    if (!this.events[event]) return;
-    this.events[event].forEach(listener => listener(...args));
-  }
-}
+import {
+  BattleLogQueryTerm,
+  ParsedBattleLogQuery,
+  isEmptyBattleLogQuery,
+  matchesBattleFilter,
+  parseBattleLogQuery,
+  scoreBattleMessage,
+  tokenizeBattleLogText,
+} from './BattleLogQuery';
+import type { BattleLogTransport, BattleMessageAck } from './BattleLogTransport';
+import { asyncStorageStore, type KeyValueStore } from './KeyValueStore';
+import {
+  StorageMigration,
+  StorageMigrationRunner,
+  StorageMigrationOptions,
+  StorageMigrationReport,
+  parseStoredJSON,
+} from './StorageMigrations';
+import { EventEmitter } from './EventEmitter';
 
 // Import lz-string for compression with fallback
 let LZString: any;
@@ -74,6 +71,19 @@ export interface BattleLogConfig {
   maxIndexTokens: number; // Max tokens to index per message
   maxIndexPositions: number; // Max positions per token in search index
   
+  // Persistence
+  storage: KeyValueStore; // Backend (AsyncStorage, in-memory, IndexedDB for large logs on web)
+  
+  // Server sync
+  sendBatchSize: number; // Messages per transport send
+  ackTimeout: number; // Resend when no ack arrives within X ms
+  maxSendRetries: number; // Then the message is marked 'failed'
+  retryDelay: number; // Base delay for exponential backoff
+  maxRetryDelay: number; // Backoff ceiling
+  
+  // Editing
+  maxEditHistory: number; // Revisions kept per message
+  
   // Debug
   debug: boolean;
   enableTelemetry: boolean;
@@ -90,6 +100,13 @@ const DEFAULT_CONFIG: BattleLogConfig = {
   enableCompression: true,
   maxIndexTokens: 20,
   maxIndexPositions: 200,
+  storage: asyncStorageStore,
+  sendBatchSize: 20,
+  ackTimeout: 5000,
+  maxSendRetries: 5,
+  retryDelay: 1000,
+  maxRetryDelay: 30000,
+  maxEditHistory: 10,
   debug: false,
   enableTelemetry: false,
 };
@@ -110,6 +127,22 @@ export interface BattleMessage {
   editVersion?: number;
   isRead: boolean;
   metadata?: Record<string, any>;
+  editedAt?: number;
+  editHistory?: BattleMessageRevision[]; // Previous contents, oldest first
+  redaction?: BattleMessageRedaction;
+}
+
+export interface BattleMessageRevision {
+  editVersion: number; // Version this content had
+  content: string;
+  editedAt: number; // When it was replaced
+  editedBy?: string;
+}
+
+export interface BattleMessageRedaction {
+  redactedAt: number;
+  redactedBy?: string;
+  reason?: string;
 }
 
 export interface BattleMeta {
@@ -140,6 +173,9 @@ export interface QueuedMessage {
   clientTimestamp: number;
   status: 'pending' | 'sent' | 'ack' | 'failed';
   retryCount: number;
+  sentAt?: number; // Send awaiting an ack
+  nextAttemptAt?: number; // Backoff - not sent before this time (ms)
+  lastError?: string;
 }
 
 export interface SearchResult {
@@ -150,6 +186,20 @@ export interface SearchResult {
   relevanceScore: number;
 }
 
+export interface BattleMessagePageOptions {
+  before?: string; // olderCursor from a previous page
+  after?: string; // newerCursor from a previous page
+  beforeServerSeq?: number; // Messages older than this server sequence
+  afterServerSeq?: number; // Messages newer than this server sequence
+  limit?: number;
+}
+
+export interface BattleMessagePage {
+  messages: BattleMessage[]; // Oldest first
+  olderCursor?: string; // Set when older messages exist
+  newerCursor?: string; // Set when newer messages exist
+}
+
 export interface StorageStats {
   totalBattles: number;
   totalChunks: number;
@@ -169,6 +219,31 @@ export interface TelemetryData {
   averageCompressionRatio: number;
 }
 
+// Token -> message positions for one battle, plus the last chunk it covers
+interface BattleSearchIndex {
+  tokens: Map<string, Array<{ chunkIndex: number; messageIndex: number }>>;
+  truncatedTokens: Set<string>; // Dropped positions past maxIndexPositions; searches scan chunks for these
+  lastIndexedChunk: number;
+}
+
+// Stored form of BattleSearchIndex (positions as [chunkIndex, messageIndex] pairs)
+interface StoredSearchIndex {
+  version: number;
+  lastIndexedChunk: number;
+  tokens: Record<string, Array<[number, number]>>;
+  truncatedTokens: string[];
+}
+
+// A stored message and where it lives
+interface MessagePosition {
+  chunkIndex: number;
+  messageIndex: number;
+}
+
+interface PositionedMessage extends MessagePosition {
+  message: BattleMessage;
+}
+
 // ===== UTILITY CLASSES =====
 
 class LRUCache<T> {
@@ -295,19 +370,161 @@ class CompressionUtils {
       return false;
     }
   }
+
+  /**
+   * Parse a stored value that may or may not be compressed
+   */
+  static parseJSON<T>(data: string): T | null {
+    const plain = parseStoredJSON<T>(data);
+    if (plain) return plain;
+    return LZString ? parseStoredJSON<T>(LZString.decompressFromUTF16(data)) : null;
+  }
+}
+
+// ===== SCHEMA MIGRATIONS =====
+
+const META_KEY_PREFIX = 'battle_log_meta_';
+const CHUNK_KEY_PREFIX = 'battle_log_chunk_';
+const GLOBAL_INDEX_KEY = 'battle_logs_index';
+const SEARCH_INDEX_KEY_PREFIX = 'battle_log_search_';
+const SEARCH_INDEX_VERSION = 3; // Bump when tokenization changes so stored indexes get rebuilt
+
+/**
+ * Numbered migrations for battle_log_meta_* / battle_log_chunk_* / battle_logs_index.
+ * Append new entries; never edit one that has shipped.
+ */
+const BATTLE_LOG_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Normalize chunks and metas, recreate missing metas, rebuild global index',
+    up: async storage => {
+      const keys = await storage.getAllKeys();
+      const battles = new Map<string, { chunks: MessageChunk[]; meta: any }>();
+      const getBattle = (battleId: string) => {
+        if (!battles.has(battleId)) battles.set(battleId, { chunks: [], meta: null });
+        return battles.get(battleId)!;
+      };
+
+      for (const key of keys.filter(k => k.startsWith(CHUNK_KEY_PREFIX))) {
+        const raw = await storage.getItem(key);
+        const chunk = raw ? CompressionUtils.parseJSON<any>(raw) : null;
+        if (!chunk) continue; // Unreadable - leave it untouched
+
+        // battleId may itself contain underscores; the chunk index is the last segment
+        const rest = key.slice(CHUNK_KEY_PREFIX.length);
+        const separator = rest.lastIndexOf('_');
+        const battleId = rest.slice(0, separator);
+        const chunkIndex = parseInt(rest.slice(separator + 1), 10);
+        if (!battleId || isNaN(chunkIndex)) continue;
+
+        const messages: BattleMessage[] = (Array.isArray(chunk.messages) ? chunk.messages : [])
+          .filter((message: any) => message && typeof message.content === 'string')
+          .map((message: any, index: number) => {
+            const timestamp = Number(message.timestamp) || Number(chunk.createdAt) || Date.now();
+            return {
+              ...message,
+              id: message.id || `${battleId}_${chunkIndex}_${index}`,
+              battleId,
+              senderId: message.senderId || 'system',
+              senderName: message.senderName || 'System',
+              type: message.type || 'system',
+              timestamp,
+              clientTimestamp: Number(message.clientTimestamp) || timestamp,
+              isRead: !!message.isRead,
+            };
+          });
+
+        const normalized: MessageChunk = {
+          battleId,
+          chunkIndex,
+          messages,
+          compressed: !!chunk.compressed,
+          size: JSON.stringify(messages).length,
+          createdAt: Number(chunk.createdAt) || messages[0]?.timestamp || Date.now(),
+        };
+
+        const serialized = JSON.stringify(normalized);
+        await storage.setItem(key, normalized.compressed ? CompressionUtils.compress(serialized) : serialized);
+        getBattle(battleId).chunks.push(normalized);
+      }
+
+      for (const key of keys.filter(k => k.startsWith(META_KEY_PREFIX))) {
+        const meta = parseStoredJSON(await storage.getItem(key));
+        if (meta) getBattle(key.slice(META_KEY_PREFIX.length)).meta = meta;
+      }
+
+      for (const [battleId, { chunks, meta }] of battles) {
+        const messages = chunks.flatMap(chunk => chunk.messages);
+        const lastChunkIndex = chunks.reduce((max, chunk) => Math.max(max, chunk.chunkIndex), -1);
+        const startTime = Number(meta?.startTime) ||
+          messages.reduce((min, message) => Math.min(min, message.timestamp), Infinity);
+
+        // Counts are derived from the chunks when they exist, so metas that drifted are corrected
+        const normalized: BattleMeta = {
+          ...meta,
+          battleId,
+          startTime: isFinite(startTime) ? startTime : Date.now(),
+          lastChunkIndex: chunks.length > 0 ? lastChunkIndex : Number(meta?.lastChunkIndex ?? -1),
+          lastUpdated: Number(meta?.lastUpdated) || Date.now(),
+          participants: Array.isArray(meta?.participants)
+            ? meta.participants
+            : Array.from(new Set(messages.map(message => message.senderId))),
+          totalMessages: chunks.length > 0 ? messages.length : Number(meta?.totalMessages) || 0,
+          unreadCount: chunks.length > 0
+            ? messages.filter(message => !message.isRead).length
+            : Number(meta?.unreadCount) || 0,
+          isArchived: !!meta?.isArchived,
+          compressionUsed: chunks.some(chunk => chunk.compressed) || !!meta?.compressionUsed,
+        };
+
+        await storage.setItem(`${META_KEY_PREFIX}${battleId}`, JSON.stringify(normalized));
+      }
+
+      // Keep the existing order and append battles that were missing from the index
+      const existingIndex = parseStoredJSON<string[]>(await storage.getItem(GLOBAL_INDEX_KEY)) || [];
+      const index = existingIndex.filter(battleId => battles.has(battleId));
+      const sortedBattles = Array.from(battles.entries())
+        .sort(([, a], [, b]) => (a.meta?.startTime || 0) - (b.meta?.startTime || 0))
+        .map(([battleId]) => battleId);
+      for (const battleId of sortedBattles) {
+        if (!index.includes(battleId)) index.push(battleId);
+      }
+      await storage.setItem(GLOBAL_INDEX_KEY, JSON.stringify(index));
+    },
+  },
+];
+
+// Shared by every instance on the same backend - they all read and write the same keys
+const schemaMigrationsByStore = new WeakMap<KeyValueStore, StorageMigrationRunner>();
+
+function getSchemaMigrations(storage: KeyValueStore): StorageMigrationRunner {
+  let runner = schemaMigrationsByStore.get(storage);
+  if (!runner) {
+    runner = new StorageMigrationRunner('battle_logs', BATTLE_LOG_MIGRATIONS, storage);
+    schemaMigrationsByStore.set(storage, runner);
+  }
+  return runner;
 }
 
 // ===== MAIN BATTLE LOG CLASS =====
 
 export class UnifiedBattleLogSystem extends EventEmitter {
   private config: BattleLogConfig;
+  private storage: KeyValueStore;
+  private schemaMigrations: StorageMigrationRunner;
   private cache: LRUCache<{ meta: BattleMeta; chunks: Map<number, MessageChunk> }>;
   private writeQueues = new Map<string, BattleMessage[]>();
   private flushTimers = new Map<string, NodeJS.Timeout>();
-  private messageQueue: QueuedMessage[] = [];
+  private messageQueue: QueuedMessage[] = []; // Outbox for server sync
+  private transport?: BattleLogTransport;
+  private transportSubscriptions: Array<() => void> = [];
+  private ackTimers = new Set<NodeJS.Timeout>();
+  private outboxRetryTimer?: NodeJS.Timeout;
   private mutexes = new Map<string, Mutex>();
-  private searchIndex = new Map<string, Map<string, Array<{ chunkIndex: number; messageIndex: number }>>>();
+  private searchIndex = new Map<string, BattleSearchIndex>(); // Loaded lazily per battle
+  private searchIndexLoads = new Map<string, Promise<BattleSearchIndex>>();
   private globalMetaIndex: string[] = []; // Global index of all battle IDs
+  private readyPromise?: Promise<void>; // Started on first use, see `ready`
   
   private stats = {
     cacheHits: 0,
@@ -321,15 +538,29 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   constructor(config: Partial<BattleLogConfig> = {}) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.storage = this.config.storage;
+    this.schemaMigrations = getSchemaMigrations(this.storage);
     this.cache = new LRUCache(this.config.cacheSize);
-    this.initializeGlobalMetaIndex();
   }
 
   // ===== INITIALIZATION =====
 
+  /**
+   * Storage setup, started on first use so importing the singleton does no storage I/O
+   */
+  private get ready(): Promise<void> {
+    return this.readyPromise ??= this.initializeGlobalMetaIndex();
+  }
+
   private async initializeGlobalMetaIndex(): Promise<void> {
     try {
-      const indexData = await AsyncStorage.getItem('battle_logs_index');
+      // Bring stored data up to the current schema before anything reads it
+      const migration = await this.schemaMigrations.ensureMigrated();
+      if (migration.status === 'rolled_back') {
+        this.emit('migrationFailed', migration);
+      }
+
+      const indexData = await this.storage.getItem('battle_logs_index');
       if (indexData) {
         this.globalMetaIndex = JSON.parse(indexData);
       }
@@ -341,7 +572,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
 
   private async updateGlobalMetaIndex(): Promise<void> {
     try {
-      await AsyncStorage.setItem('battle_logs_index', JSON.stringify(this.globalMetaIndex));
+      await this.storage.setItem('battle_logs_index', JSON.stringify(this.globalMetaIndex));
     } catch (error) {
       console.warn('Failed to update global meta index:', error);
     }
@@ -350,6 +581,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   // ===== MESSAGE MANAGEMENT =====
 
   async enqueueMessage(battleId: string, message: Omit<BattleMessage, 'id' | 'timestamp' | 'clientTimestamp' | 'isRead'>): Promise<string> {
+    await this.ready;
     const messageId = this.generateMessageId();
     const now = Date.now();
     
@@ -390,6 +622,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
       status: 'pending',
       retryCount: 0,
     });
+    this.processOutbox();
 
     // Emit events
     this.emit('messageEnqueued', fullMessage);
@@ -403,7 +636,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
     const metaKey = `battle_log_meta_${battleId}`;
     
     try {
-      const existingMeta = await AsyncStorage.getItem(metaKey);
+      const existingMeta = await this.storage.getItem(metaKey);
       if (!existingMeta) {
         const newMeta: BattleMeta = {
           battleId,
@@ -417,7 +650,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
           compressionUsed: false,
         };
         
-        await AsyncStorage.setItem(metaKey, JSON.stringify(newMeta));
+        await this.storage.setItem(metaKey, JSON.stringify(newMeta));
         
         // Update global index
         if (!this.globalMetaIndex.includes(battleId)) {
@@ -434,14 +667,14 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   private async updateUnreadCountInMemory(battleId: string, delta: number): Promise<void> {
     try {
       const metaKey = `battle_log_meta_${battleId}`;
-      const metaData = await AsyncStorage.getItem(metaKey);
+      const metaData = await this.storage.getItem(metaKey);
       
       if (metaData) {
         const meta: BattleMeta = JSON.parse(metaData);
         meta.unreadCount = Math.max(0, meta.unreadCount + delta);
         meta.lastUpdated = Date.now();
         
-        await AsyncStorage.setItem(metaKey, JSON.stringify(meta));
+        await this.storage.setItem(metaKey, JSON.stringify(meta));
       }
     } catch (error) {
       console.warn('Failed to update unread count:', error);
@@ -534,13 +767,20 @@ export class UnifiedBattleLogSystem extends EventEmitter {
       // Add chunk to cache
       battleData.chunks.set(newChunkIndex, newChunk);
 
+      // Messages acked while queued may belong before ones already stored
+      const reordered = this.applyServerOrder(battleData.chunks);
+      const chunksToSave = [newChunk, ...Array.from(reordered)
+        .filter(chunkIndex => chunkIndex !== newChunkIndex)
+        .map(chunkIndex => battleData!.chunks.get(chunkIndex)!)];
+
+      // Index the chunk; the stored index is written together with it
+      const battleIndex = await this.getSearchIndex(battleId);
+      this.reindexChunks(battleIndex, chunksToSave);
+
       // Save to storage
-      await this.saveBattleChunks(battleId, [newChunk]);
+      await this.saveBattleChunks(battleId, chunksToSave, [this.serializeSearchIndex(battleId, battleIndex)]);
       await this.saveBattleMeta(battleData.meta);
 
-      // Update search index
-      this.updateSearchIndex(newChunk);
-
       // Clear queue
       this.writeQueues.set(battleId, []);
 
@@ -559,15 +799,21 @@ export class UnifiedBattleLogSystem extends EventEmitter {
     } catch (error) {
       console.error('Failed to flush battle:', error);
       this.stats.errors++;
+      // The in-memory index may cover a chunk that never reached storage
+      this.searchIndex.delete(battleId);
       this.emit('flushError', { battleId, error });
     } finally {
       mutex.release();
     }
   }
 
-  private async saveBattleChunks(battleId: string, chunks: MessageChunk[]): Promise<void> {
+  private async saveBattleChunks(
+    battleId: string,
+    chunks: MessageChunk[],
+    extraWrites: Array<[string, string]> = []
+  ): Promise<void> {
     try {
-      const operations: Array<[string, string]> = [];
+      const operations: Array<[string, string]> = [...extraWrites];
       
       for (const chunk of chunks) {
         const chunkKey = `battle_log_chunk_${battleId}_${chunk.chunkIndex}`;
@@ -580,7 +826,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
         operations.push([chunkKey, chunkData]);
       }
       
-      await AsyncStorage.multiSet(operations);
+      await this.storage.multiSet(operations);
     } catch (error) {
       console.error('Failed to save battle chunks:', error);
       throw error;
@@ -590,7 +836,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   private async saveBattleMeta(meta: BattleMeta): Promise<void> {
     try {
       const metaKey = `battle_log_meta_${meta.battleId}`;
-      await AsyncStorage.setItem(metaKey, JSON.stringify(meta));
+      await this.storage.setItem(metaKey, JSON.stringify(meta));
     } catch (error) {
       console.error('Failed to save battle meta:', error);
       throw error;
@@ -600,45 +846,24 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   // ===== LOADING AND CACHING =====
 
   private async loadBattleFromStorage(battleId: string): Promise<{ meta: BattleMeta; chunks: Map<number, MessageChunk> } | null> {
+    await this.ready;
     try {
       // Load meta
       const metaKey = `battle_log_meta_${battleId}`;
-      const metaData = await AsyncStorage.getItem(metaKey);
+      const metaData = await this.storage.getItem(metaKey);
       
       if (!metaData) {
         return null;
       }
 
       const meta: BattleMeta = JSON.parse(metaData);
-      const chunks = new Map<number, MessageChunk>();
 
       // Load chunks using meta.lastChunkIndex instead of getAllKeys()
-      if (meta.lastChunkIndex >= 0) {
-        const chunkKeys: string[] = [];
-        for (let i = 0; i <= meta.lastChunkIndex; i++) {
-          chunkKeys.push(`battle_log_chunk_${battleId}_${i}`);
-        }
-
-        const chunkDataArray = await AsyncStorage.multiGet(chunkKeys);
-        
-        for (const [key, value] of chunkDataArray) {
-          if (value) {
-            const chunkIndex = parseInt(key.split('_').pop()!);
-            let chunkData = value;
-            
-            // Try to decompress if needed
-            if (CompressionUtils.isCompressed(chunkData)) {
-              chunkData = CompressionUtils.decompress(chunkData);
-            }
-            
-            const chunk: MessageChunk = JSON.parse(chunkData);
-            chunks.set(chunkIndex, chunk);
-          }
-        }
+      const chunkIndices: number[] = [];
+      for (let i = 0; i <= meta.lastChunkIndex; i++) {
+        chunkIndices.push(i);
       }
-
-      // Rebuild search index from loaded chunks
-      this.rebuildSearchIndexFromChunks(battleId, chunks);
+      const chunks = await this.loadChunks(battleId, chunkIndices);
 
       return { meta, chunks };
     } catch (error) {
@@ -648,92 +873,205 @@ export class UnifiedBattleLogSystem extends EventEmitter {
     }
   }
 
-  private rebuildSearchIndexFromChunks(battleId: string, chunks: Map<number, MessageChunk>): void {
-    if (!this.searchIndex.has(battleId)) {
-      this.searchIndex.set(battleId, new Map());
+  /**
+   * Load specific chunks; missing or unreadable chunks are left out
+   */
+  private async loadChunks(battleId: string, chunkIndices: number[]): Promise<Map<number, MessageChunk>> {
+    const chunks = new Map<number, MessageChunk>();
+    if (chunkIndices.length === 0) return chunks;
+
+    const chunkDataArray = await this.storage.multiGet(
+      chunkIndices.map(chunkIndex => `${CHUNK_KEY_PREFIX}${battleId}_${chunkIndex}`)
+    );
+
+    chunkDataArray.forEach(([, value], i) => {
+      if (!value) return;
+
+      // Chunks are only compressed when that saved space, so try plain JSON first
+      const chunk = CompressionUtils.parseJSON<MessageChunk>(value);
+      if (chunk) {
+        chunks.set(chunkIndices[i], chunk);
+      }
+    });
+
+    return chunks;
+  }
+
+  // ===== SEARCH FUNCTIONALITY =====
+
+  /**
+   * In-memory search index for a battle, loaded from storage on first use.
+   * Concurrent callers share one load.
+   */
+  private getSearchIndex(battleId: string): Promise<BattleSearchIndex> {
+    const loaded = this.searchIndex.get(battleId);
+    if (loaded) return Promise.resolve(loaded);
+
+    let pending = this.searchIndexLoads.get(battleId);
+    if (!pending) {
+      pending = this.loadSearchIndex(battleId).finally(() => this.searchIndexLoads.delete(battleId));
+      this.searchIndexLoads.set(battleId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Read the stored index and index any chunks it does not cover yet
+   * (all of them when the index is missing, unreadable or outdated)
+   */
+  private async loadSearchIndex(battleId: string): Promise<BattleSearchIndex> {
+    const [[, storedIndex], [, metaData]] = await this.storage.multiGet([
+      `${SEARCH_INDEX_KEY_PREFIX}${battleId}`,
+      `${META_KEY_PREFIX}${battleId}`,
+    ]);
+    const lastChunkIndex = parseStoredJSON<BattleMeta>(metaData)?.lastChunkIndex ?? -1;
+
+    let battleIndex = this.deserializeSearchIndex(storedIndex);
+    if (!battleIndex || battleIndex.lastIndexedChunk > lastChunkIndex) {
+      battleIndex = { tokens: new Map(), truncatedTokens: new Set(), lastIndexedChunk: -1 };
     }
 
-    const battleIndex = this.searchIndex.get(battleId)!;
-    
-    for (const [chunkIndex, chunk] of chunks) {
-      for (let messageIndex = 0; messageIndex < chunk.messages.length; messageIndex++) {
-        const message = chunk.messages[messageIndex];
-        this.indexMessage(battleIndex, message, chunkIndex, messageIndex);
+    if (battleIndex.lastIndexedChunk < lastChunkIndex) {
+      const chunkIndices: number[] = [];
+      for (let i = battleIndex.lastIndexedChunk + 1; i <= lastChunkIndex; i++) {
+        chunkIndices.push(i);
       }
+
+      const chunks = await this.loadChunks(battleId, chunkIndices);
+      for (const chunkIndex of chunkIndices) {
+        const chunk = chunks.get(chunkIndex);
+        if (chunk) this.updateSearchIndex(battleIndex, { ...chunk, chunkIndex });
+      }
+      battleIndex.lastIndexedChunk = lastChunkIndex;
+
+      try {
+        await this.storage.multiSet([this.serializeSearchIndex(battleId, battleIndex)]);
+      } catch (error) {
+        console.warn('Failed to save rebuilt search index:', error);
+      }
+      this.emit('searchIndexRebuilt', { battleId, chunksIndexed: chunks.size });
     }
+
+    this.searchIndex.set(battleId, battleIndex);
+    return battleIndex;
   }
 
-  // ===== SEARCH FUNCTIONALITY =====
+  private serializeSearchIndex(battleId: string, battleIndex: BattleSearchIndex): [string, string] {
+    const stored: StoredSearchIndex = {
+      version: SEARCH_INDEX_VERSION,
+      lastIndexedChunk: battleIndex.lastIndexedChunk,
+      tokens: {},
+      truncatedTokens: Array.from(battleIndex.truncatedTokens),
+    };
+    for (const [token, positions] of battleIndex.tokens) {
+      stored.tokens[token] = positions.map(({ chunkIndex, messageIndex }) => [chunkIndex, messageIndex]);
+    }
 
-  private updateSearchIndex(chunk: MessageChunk): void {
-    if (!this.searchIndex.has(chunk.battleId)) {
-      this.searchIndex.set(chunk.battleId, new Map());
+    const serialized = JSON.stringify(stored);
+    return [
+      `${SEARCH_INDEX_KEY_PREFIX}${battleId}`,
+      this.config.enableCompression ? CompressionUtils.compress(serialized) : serialized,
+    ];
+  }
+
+  private deserializeSearchIndex(data: string | null): BattleSearchIndex | null {
+    if (!data) return null;
+
+    const stored = CompressionUtils.parseJSON<StoredSearchIndex>(data);
+    if (
+      !stored ||
+      stored.version !== SEARCH_INDEX_VERSION ||
+      typeof stored.tokens !== 'object' ||
+      !Array.isArray(stored.truncatedTokens)
+    ) {
+      return null;
     }
 
-    const battleIndex = this.searchIndex.get(chunk.battleId)!;
-    
+    const tokens = new Map<string, Array<{ chunkIndex: number; messageIndex: number }>>();
+    for (const [token, positions] of Object.entries(stored.tokens)) {
+      tokens.set(token, positions.map(([chunkIndex, messageIndex]) => ({ chunkIndex, messageIndex })));
+    }
+    return { tokens, truncatedTokens: new Set(stored.truncatedTokens), lastIndexedChunk: stored.lastIndexedChunk };
+  }
+
+  private updateSearchIndex(battleIndex: BattleSearchIndex, chunk: MessageChunk): void {
     for (let messageIndex = 0; messageIndex < chunk.messages.length; messageIndex++) {
       const message = chunk.messages[messageIndex];
       this.indexMessage(battleIndex, message, chunk.chunkIndex, messageIndex);
     }
+    battleIndex.lastIndexedChunk = Math.max(battleIndex.lastIndexedChunk, chunk.chunkIndex);
+  }
+
+  /**
+   * Replace the positions of the given chunks (after messages moved or changed)
+   */
+  private reindexChunks(battleIndex: BattleSearchIndex, chunks: MessageChunk[]): void {
+    const chunkIndices = new Set(chunks.map(chunk => chunk.chunkIndex));
+    for (const [token, positions] of battleIndex.tokens) {
+      const kept = positions.filter(position => !chunkIndices.has(position.chunkIndex));
+      if (kept.length === 0) {
+        battleIndex.tokens.delete(token);
+      } else if (kept.length !== positions.length) {
+        battleIndex.tokens.set(token, kept);
+      }
+    }
+    chunks.forEach(chunk => this.updateSearchIndex(battleIndex, chunk));
   }
 
-  private indexMessage(battleIndex: Map<string, Array<{ chunkIndex: number; messageIndex: number }>>, message: BattleMessage, chunkIndex: number, messageIndex: number): void {
+  private indexMessage(battleIndex: BattleSearchIndex, message: BattleMessage, chunkIndex: number, messageIndex: number): void {
     const tokens = this.extractTokens(message);
     
     for (const token of tokens) {
-      if (!battleIndex.has(token)) {
-        battleIndex.set(token, []);
+      if (!battleIndex.tokens.has(token)) {
+        battleIndex.tokens.set(token, []);
       }
       
-      const positions = battleIndex.get(token)!;
+      const positions = battleIndex.tokens.get(token)!;
       positions.push({ chunkIndex, messageIndex });
       
-      // Limit positions per token to prevent memory bloat
+      // Limit positions per token to prevent memory bloat; the token is no
+      // longer complete, so searches for it fall back to scanning chunks
       if (positions.length > this.config.maxIndexPositions) {
         positions.splice(0, positions.length - this.config.maxIndexPositions);
+        battleIndex.truncatedTokens.add(token);
       }
     }
   }
 
   private extractTokens(message: BattleMessage): string[] {
-    const tokens: string[] = [];
-    const text = `${message.senderName} ${message.content}`.toLowerCase();
-    
-    // Simple tokenization
-    const words = text.split(/\s+/).filter(word => word.length > 2);
-    tokens.push(...words.slice(0, this.config.maxIndexTokens));
-    
-    return tokens;
+    if (message.redaction) return []; // Tombstones are not searchable
+
+    // Same tokenizer as queries; each token is indexed once per message
+    const words = new Set(tokenizeBattleLogText(`${message.senderName} ${message.content}`));
+    return Array.from(words).slice(0, this.config.maxIndexTokens);
   }
 
+  /**
+   * Search with the BattleLogQuery syntax, e.g. `fire* -miss type:damage sender:Rimuru after:1h`.
+   * Invalid filters are ignored; use parseBattleLogQuery() to show them to the user.
+   */
   async searchMessages(query: string, options: { battleId?: string; limit?: number } = {}): Promise<SearchResult[]> {
+    await this.ready;
     const { battleId, limit = 50 } = options;
     const results: SearchResult[] = [];
-    const queryTokens = query.toLowerCase().split(/\s+/).filter(token => token.length > 2);
+    const parsedQuery = parseBattleLogQuery(query);
 
-    if (battleId) {
-      // Search specific battle
-      const battleIndex = this.searchIndex.get(battleId);
-      if (battleIndex) {
-        results.push(...this.searchInBattleIndex(battleIndex, queryTokens, battleId, limit));
-      }
-    } else {
-      // Search all battles using parallel processing
-      const searchPromises = this.globalMetaIndex.map(async (id) => {
-        const battleIndex = this.searchIndex.get(id);
-        if (battleIndex) {
-          return this.searchInBattleIndex(battleIndex, queryTokens, id, limit);
-        }
-        return [];
-      });
+    if (isEmptyBattleLogQuery(parsedQuery)) return [];
 
-      const allResults = await Promise.allSettled(searchPromises);
-      
-      for (const result of allResults) {
-        if (result.status === 'fulfilled') {
-          results.push(...result.value);
-        }
+    const battleIds = (battleId ? [battleId] : this.globalMetaIndex)
+      .filter(id => matchesBattleFilter(parsedQuery, id));
+
+    // Search battles using parallel processing
+    const searchPromises = battleIds.map(async (id) => {
+      const battleIndex = await this.getSearchIndex(id);
+      return this.searchInBattleIndex(battleIndex, parsedQuery, id, limit);
+    });
+
+    const allResults = await Promise.allSettled(searchPromises);
+    
+    for (const result of allResults) {
+      if (result.status === 'fulfilled') {
+        results.push(...result.value);
       }
     }
 
@@ -748,99 +1086,458 @@ export class UnifiedBattleLogSystem extends EventEmitter {
     return results.slice(0, limit);
   }
 
-  private searchInBattleIndex(battleIndex: Map<string, Array<{ chunkIndex: number; messageIndex: number }>>, queryTokens: string[], battleId: string, limit: number): SearchResult[] {
+  private async searchInBattleIndex(battleIndex: BattleSearchIndex, query: ParsedBattleLogQuery, battleId: string, limit: number): Promise<SearchResult[]> {
     const results: SearchResult[] = [];
-    const messageScores = new Map<string, number>();
 
-    for (const token of queryTokens) {
-      const positions = battleIndex.get(token);
-      if (positions) {
-        for (const { chunkIndex, messageIndex } of positions) {
-          const messageKey = `${chunkIndex}-${messageIndex}`;
-          messageScores.set(messageKey, (messageScores.get(messageKey) || 0) + 1);
+    // Narrow down with the index; the loaded messages decide the final match and score
+    const candidates = this.findCandidateMessages(battleIndex, query);
+    const chunkIndices = candidates
+      ? Array.from(new Set(Array.from(candidates, key => Number(key.split('-')[0]))))
+      : Array.from({ length: battleIndex.lastIndexedChunk + 1 }, (_, i) => i);
+
+    // Use cached chunks where possible, load the rest from storage
+    const cachedChunks = this.cache.get(battleId)?.chunks;
+    const loadedChunks = await this.loadChunks(
+      battleId,
+      chunkIndices.filter(chunkIndex => !cachedChunks?.has(chunkIndex))
+    );
+
+    for (const chunkIndex of chunkIndices) {
+      const chunk = cachedChunks?.get(chunkIndex) || loadedChunks.get(chunkIndex);
+      if (!chunk) continue;
+
+      chunk.messages.forEach((message, messageIndex) => {
+        if (candidates && !candidates.has(`${chunkIndex}-${messageIndex}`)) return;
+        if (message.redaction) return;
+
+        const score = scoreBattleMessage(query, message);
+        if (score !== null) {
+          results.push({ battleId, chunkIndex, messageIndex, message, relevanceScore: score });
         }
-      }
+      });
     }
 
-    // Convert scores to results
-    for (const [messageKey, score] of messageScores) {
-      const [chunkIndex, messageIndex] = messageKey.split('-').map(Number);
-      
-      // Load message from cache or storage
-      const battleData = this.cache.get(battleId);
-      if (battleData) {
-        const chunk = battleData.chunks.get(chunkIndex);
-        if (chunk && chunk.messages[messageIndex]) {
-          results.push({
-            battleId,
-            chunkIndex,
-            messageIndex,
-            message: chunk.messages[messageIndex],
-            relevanceScore: score / queryTokens.length,
-          });
+    results.sort((a, b) => b.relevanceScore - a.relevanceScore || b.message.timestamp - a.message.timestamp);
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Positions ("chunk-message") containing every required term and phrase word,
+   * or null when no required text can narrow the search (every message is a candidate).
+   * Terms matching a truncated token are skipped: its positions are incomplete.
+   */
+  private findCandidateMessages(battleIndex: BattleSearchIndex, query: ParsedBattleLogQuery): Set<string> | null {
+    const required: BattleLogQueryTerm[] = [
+      ...query.terms,
+      ...query.phrases.flat().map(value => ({ value, prefix: false })),
+    ];
+
+    const matchSets: Array<Set<string>> = [];
+    for (const term of required) {
+      const matches = new Set<string>();
+      let complete = true;
+      for (const [token, positions] of battleIndex.tokens) {
+        if (token !== term.value && !(term.prefix && token.startsWith(term.value))) continue;
+        if (battleIndex.truncatedTokens.has(token)) {
+          complete = false;
+          break;
+        }
+        for (const { chunkIndex, messageIndex } of positions) {
+          matches.add(`${chunkIndex}-${messageIndex}`);
         }
       }
+      if (complete) matchSets.push(matches);
     }
+    if (matchSets.length === 0) return null;
 
-    return results.slice(0, limit);
+    // AND: keep only positions matching every term
+    const [first, ...rest] = matchSets;
+    return new Set(Array.from(first).filter(key => rest.every(matches => matches.has(key))));
   }
 
   // ===== MESSAGE RETRIEVAL =====
 
   async getRecentMessages(battleId: string, limit: number = 50): Promise<BattleMessage[]> {
-    // Check cache first
-    let battleData = this.cache.get(battleId);
-    if (battleData) {
-      this.stats.cacheHits++;
-      return this.getMessagesFromBattleData(battleData, limit);
+    const page = await this.getMessagePage(battleId, { limit });
+    return page.messages;
+  }
+
+  /**
+   * Flushed messages older than a timestamp (newest `limit` of them, oldest first)
+   */
+  async getMessagesBefore(battleId: string, beforeTimestamp: number, limit: number = 50): Promise<BattleMessage[]> {
+    await this.ready;
+    const reader = await this.createChunkReader(battleId);
+    if (!reader) return [];
+
+    const messages: BattleMessage[] = [];
+    await this.walkMessages(reader, { chunkIndex: reader.lastChunkIndex + 1, messageIndex: 0 }, 'older', ({ message }) => {
+      if (message.timestamp < beforeTimestamp) messages.push(message);
+      return messages.length >= limit;
+    });
+    return messages.reverse();
+  }
+
+  /**
+   * Cursor pagination over a battle's flushed messages, loading only the chunks
+   * a page touches. Without a cursor the newest page is returned; pass
+   * `olderCursor` as `before` to scroll back and `newerCursor` as `after` to
+   * scroll forward. Cursors follow their message if server ordering moves it.
+   */
+  async getMessagePage(battleId: string, options: BattleMessagePageOptions = {}): Promise<BattleMessagePage> {
+    await this.ready;
+    const limit = Math.max(1, options.limit ?? 50);
+
+    const reader = await this.createChunkReader(battleId);
+    if (!reader) return { messages: [] };
+
+    // Resolve the anchor: reading starts next to it (exclusive)
+    let anchor: MessagePosition;
+    let direction: 'older' | 'newer';
+
+    if (options.before !== undefined) {
+      anchor = await this.resolveCursor(reader, options.before);
+      direction = 'older';
+    } else if (options.after !== undefined) {
+      anchor = await this.resolveCursor(reader, options.after);
+      direction = 'newer';
+    } else if (options.beforeServerSeq !== undefined) {
+      const target = options.beforeServerSeq;
+      anchor = { chunkIndex: -1, messageIndex: 0 };
+      // Newest message sequenced below the target; the page starts with it
+      await this.walkMessages(reader, { chunkIndex: reader.lastChunkIndex + 1, messageIndex: 0 }, 'older', entry => {
+        if (entry.message.serverSeq === undefined || entry.message.serverSeq >= target) return false;
+        anchor = { chunkIndex: entry.chunkIndex, messageIndex: entry.messageIndex + 1 };
+        return true;
+      });
+      direction = 'older';
+    } else if (options.afterServerSeq !== undefined) {
+      const target = options.afterServerSeq;
+      anchor = { chunkIndex: reader.lastChunkIndex + 1, messageIndex: 0 };
+      // Oldest message sequenced above the target; the page starts with it
+      await this.walkMessages(reader, { chunkIndex: -1, messageIndex: 0 }, 'newer', entry => {
+        if (entry.message.serverSeq === undefined || entry.message.serverSeq <= target) return false;
+        anchor = { chunkIndex: entry.chunkIndex, messageIndex: entry.messageIndex - 1 };
+        return true;
+      });
+      direction = 'newer';
+    } else {
+      anchor = { chunkIndex: reader.lastChunkIndex + 1, messageIndex: 0 };
+      direction = 'older';
     }
 
-    this.stats.cacheMisses++;
-    
-    // Load from storage
-    battleData = await this.loadBattleFromStorage(battleId);
-    if (!battleData) {
-      return [];
+    // Read one extra message to know whether the page is the last one
+    const entries: PositionedMessage[] = [];
+    await this.walkMessages(reader, anchor, direction, entry => {
+      entries.push(entry);
+      return entries.length > limit;
+    });
+    const hasMore = entries.length > limit;
+    const pageEntries = entries.slice(0, limit);
+    if (direction === 'older') pageEntries.reverse();
+
+    const oldest = pageEntries[0];
+    const newest = pageEntries[pageEntries.length - 1];
+
+    // Peek one message past the page on the side we started from
+    let hasOppositeSide = false;
+    const boundary = direction === 'older' ? newest : oldest;
+    if (boundary) {
+      await this.walkMessages(reader, boundary, direction === 'older' ? 'newer' : 'older', () => {
+        hasOppositeSide = true;
+        return true;
+      });
     }
 
-    // Cache the loaded data
-    this.cache.set(battleId, battleData);
-    
-    return this.getMessagesFromBattleData(battleData, limit);
+    return {
+      messages: pageEntries.map(entry => entry.message),
+      olderCursor: (direction === 'older' ? hasMore : hasOppositeSide) && oldest
+        ? this.encodeMessageCursor(battleId, oldest)
+        : undefined,
+      newerCursor: (direction === 'newer' ? hasMore : hasOppositeSide) && newest
+        ? this.encodeMessageCursor(battleId, newest)
+        : undefined,
+    };
   }
 
-  private getMessagesFromBattleData(battleData: { meta: BattleMeta; chunks: Map<number, MessageChunk> }, limit: number): BattleMessage[] {
-    const messages: BattleMessage[] = [];
-    const { meta, chunks } = battleData;
+  /**
+   * Chunk access for pagination: cached chunks when the battle is cached,
+   * otherwise single chunks loaded on demand (not added to the LRU cache)
+   */
+  private async createChunkReader(battleId: string): Promise<{
+    battleId: string;
+    lastChunkIndex: number;
+    getChunk: (chunkIndex: number) => Promise<MessageChunk | undefined>;
+  } | null> {
+    const cached = this.cache.get(battleId);
+    if (cached) {
+      this.stats.cacheHits++;
+    } else {
+      this.stats.cacheMisses++;
+    }
 
-    // Iterate from newest chunks downward
-    for (let chunkIndex = meta.lastChunkIndex; chunkIndex >= 0 && messages.length < limit; chunkIndex--) {
-      const chunk = chunks.get(chunkIndex);
-      if (chunk) {
-        // Add messages in reverse order (newest first)
-        for (let i = chunk.messages.length - 1; i >= 0 && messages.length < limit; i--) {
-          messages.push(chunk.messages[i]);
+    const meta = cached?.meta || parseStoredJSON<BattleMeta>(await this.storage.getItem(`${META_KEY_PREFIX}${battleId}`));
+    if (!meta) return null;
+
+    const loaded = new Map<number, MessageChunk | undefined>();
+    return {
+      battleId,
+      lastChunkIndex: meta.lastChunkIndex,
+      getChunk: async (chunkIndex: number) => {
+        if (chunkIndex < 0 || chunkIndex > meta.lastChunkIndex) return undefined;
+        if (cached?.chunks.has(chunkIndex)) return cached.chunks.get(chunkIndex);
+        if (!loaded.has(chunkIndex)) {
+          loaded.set(chunkIndex, (await this.loadChunks(battleId, [chunkIndex])).get(chunkIndex));
         }
+        return loaded.get(chunkIndex);
+      },
+    };
+  }
+
+  /**
+   * Visit messages one by one starting next to `from` (exclusive), loading
+   * chunks as the walk reaches them. Missing chunks are skipped.
+   * `visit` returns true to stop.
+   */
+  private async walkMessages(
+    reader: { lastChunkIndex: number; getChunk: (chunkIndex: number) => Promise<MessageChunk | undefined> },
+    from: MessagePosition,
+    direction: 'older' | 'newer',
+    visit: (entry: PositionedMessage) => boolean
+  ): Promise<void> {
+    const step = direction === 'older' ? -1 : 1;
+    let chunkIndex = from.chunkIndex;
+    let chunk = await reader.getChunk(chunkIndex);
+    let messageIndex = from.messageIndex + step;
+
+    while (true) {
+      if (!chunk || messageIndex < 0 || messageIndex >= chunk.messages.length) {
+        chunkIndex += step;
+        if (chunkIndex < 0 || chunkIndex > reader.lastChunkIndex) return;
+        chunk = await reader.getChunk(chunkIndex);
+        messageIndex = direction === 'older' ? (chunk?.messages.length ?? 0) - 1 : 0;
+        continue;
       }
+
+      if (visit({ message: chunk.messages[messageIndex], chunkIndex, messageIndex })) return;
+      messageIndex += step;
     }
+  }
 
-    // Reverse to get chronological order (oldest first)
-    return messages.reverse();
+  private encodeMessageCursor(battleId: string, entry: PositionedMessage): string {
+    return encodeURIComponent(JSON.stringify([battleId, entry.chunkIndex, entry.messageIndex, entry.message.id]));
   }
 
-  async getMessagesBefore(battleId: string, beforeTimestamp: number, limit: number = 50): Promise<BattleMessage[]> {
-    const allMessages = await this.getRecentMessages(battleId, 1000); // Get more to filter
-    return allMessages
-      .filter(msg => msg.timestamp < beforeTimestamp)
-      .slice(-limit);
+  /**
+   * Position a cursor refers to. If its message moved (server reordering),
+   * the message is looked up by id; otherwise the stored position is used.
+   */
+  private async resolveCursor(
+    reader: { battleId: string; lastChunkIndex: number; getChunk: (chunkIndex: number) => Promise<MessageChunk | undefined> },
+    cursor: string
+  ): Promise<MessagePosition> {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(decodeURIComponent(cursor));
+    } catch {
+      decoded = null;
+    }
+
+    if (
+      !Array.isArray(decoded) || decoded.length !== 4 ||
+      typeof decoded[0] !== 'string' || !Number.isInteger(decoded[1]) ||
+      !Number.isInteger(decoded[2]) || typeof decoded[3] !== 'string'
+    ) {
+      throw new Error('Invalid battle log cursor');
+    }
+
+    const [battleId, chunkIndex, messageIndex, messageId] = decoded as [string, number, number, string];
+    if (battleId !== reader.battleId) {
+      throw new Error(`Cursor belongs to battle ${battleId}, not ${reader.battleId}`);
+    }
+
+    const chunk = await reader.getChunk(chunkIndex);
+    if (chunk?.messages[messageIndex]?.id === messageId) {
+      return { chunkIndex, messageIndex };
+    }
+
+    // Reordering only moves messages between nearby slots, so search outward
+    for (let distance = 0; distance <= reader.lastChunkIndex + 1; distance++) {
+      for (const candidate of distance === 0 ? [chunkIndex] : [chunkIndex - distance, chunkIndex + distance]) {
+        const candidateChunk = await reader.getChunk(candidate);
+        const index = candidateChunk?.messages.findIndex(message => message.id === messageId) ?? -1;
+        if (index !== -1) return { chunkIndex: candidate, messageIndex: index };
+      }
+    }
+
+    return { chunkIndex, messageIndex };
+  }
+
+  // ===== EDITING AND REDACTION =====
+
+  /**
+   * Replace a message's content, keeping the previous content in its edit history
+   */
+  async editMessage(
+    battleId: string,
+    messageId: string,
+    content: string,
+    options: { editorId?: string } = {}
+  ): Promise<BattleMessage> {
+    const message = await this.updateStoredMessage(battleId, messageId, current => {
+      if (current.redaction) {
+        throw new Error(`Message ${messageId} was redacted and cannot be edited`);
+      }
+
+      const now = Date.now();
+      const previousVersion = current.editVersion || 0;
+      const history = [...(current.editHistory || []), {
+        editVersion: previousVersion,
+        content: current.content,
+        editedAt: now,
+        editedBy: options.editorId,
+      }];
+
+      return {
+        ...current,
+        content,
+        editVersion: previousVersion + 1,
+        editedAt: now,
+        editHistory: history.slice(-this.config.maxEditHistory),
+      };
+    });
+
+    this.emit('messageEdited', { battleId, message, editorId: options.editorId });
+    return message;
+  }
+
+  /**
+   * Remove a message's content and edit history for good (moderation).
+   * The message stays in place as a tombstone so ordering and counts hold.
+   */
+  async redactMessage(
+    battleId: string,
+    messageId: string,
+    options: { moderatorId?: string; reason?: string } = {}
+  ): Promise<BattleMessage> {
+    const message = await this.updateStoredMessage(battleId, messageId, current => ({
+      ...current,
+      content: '',
+      metadata: undefined,
+      editHistory: undefined,
+      editVersion: (current.editVersion || 0) + 1,
+      editedAt: Date.now(),
+      redaction: {
+        redactedAt: Date.now(),
+        redactedBy: options.moderatorId,
+        reason: options.reason,
+      },
+    }));
+
+    this.emit('messageRedacted', {
+      battleId,
+      messageId,
+      moderatorId: options.moderatorId,
+      reason: options.reason,
+    });
+    return message;
+  }
+
+  /**
+   * Previous contents of a message, oldest first (empty once redacted)
+   */
+  async getMessageHistory(battleId: string, messageId: string): Promise<BattleMessageRevision[]> {
+    await this.ready;
+    const queued = (this.writeQueues.get(battleId) || []).find(message => message.id === messageId);
+    if (queued) return [...(queued.editHistory || [])];
+
+    const battleData = this.cache.get(battleId) || await this.loadBattleFromStorage(battleId);
+    const location = battleData ? this.findMessage(battleData.chunks, messageId) : null;
+    if (!location) {
+      throw new Error(`Message ${messageId} not found in battle ${battleId}`);
+    }
+    return [...(location.chunk.messages[location.messageIndex].editHistory || [])];
+  }
+
+  /**
+   * Replace a message wherever it lives (write queue or stored chunk).
+   * Stored chunks are rewritten together with their search index.
+   */
+  private async updateStoredMessage(
+    battleId: string,
+    messageId: string,
+    update: (message: BattleMessage) => BattleMessage
+  ): Promise<BattleMessage> {
+    await this.ready;
+    const mutex = this.getMutex(battleId);
+    await mutex.acquire();
+
+    try {
+      // Not flushed yet - the chunk gets written with the new version
+      const queue = this.writeQueues.get(battleId) || [];
+      const queueIndex = queue.findIndex(message => message.id === messageId);
+      if (queueIndex !== -1) {
+        queue[queueIndex] = update(queue[queueIndex]);
+        this.replaceOutboxPayload(queue[queueIndex]);
+        return queue[queueIndex];
+      }
+
+      const battleData = this.cache.get(battleId) || await this.loadBattleFromStorage(battleId);
+      const location = battleData ? this.findMessage(battleData.chunks, messageId) : null;
+      if (!battleData || !location) {
+        throw new Error(`Message ${messageId} not found in battle ${battleId}`);
+      }
+
+      const { chunk, messageIndex } = location;
+      const previous = chunk.messages[messageIndex];
+      const updated = update(previous);
+      const battleIndex = await this.getSearchIndex(battleId);
+
+      chunk.messages[messageIndex] = updated;
+      this.reindexChunks(battleIndex, [chunk]);
+
+      try {
+        await this.saveBattleChunks(battleId, [chunk], [this.serializeSearchIndex(battleId, battleIndex)]);
+      } catch (error) {
+        chunk.messages[messageIndex] = previous;
+        this.reindexChunks(battleIndex, [chunk]);
+        throw error;
+      }
+
+      this.cache.set(battleId, battleData);
+      this.replaceOutboxPayload(updated);
+      return updated;
+    } finally {
+      mutex.release();
+    }
+  }
+
+  private findMessage(
+    chunks: Map<number, MessageChunk>,
+    messageId: string
+  ): { chunk: MessageChunk; messageIndex: number } | null {
+    for (const chunk of chunks.values()) {
+      const messageIndex = chunk.messages.findIndex(message => message.id === messageId);
+      if (messageIndex !== -1) return { chunk, messageIndex };
+    }
+    return null;
+  }
+
+  /**
+   * Messages not yet acked go out with their latest content
+   */
+  private replaceOutboxPayload(message: BattleMessage): void {
+    const queued = this.messageQueue.find(candidate => candidate.id === message.id);
+    if (queued) queued.payload = message;
   }
 
   // ===== UNREAD COUNTS =====
 
   async getUnreadCount(battleId: string): Promise<number> {
+    await this.ready;
     try {
       const metaKey = `battle_log_meta_${battleId}`;
-      const metaData = await AsyncStorage.getItem(metaKey);
+      const metaData = await this.storage.getItem(metaKey);
       
       if (metaData) {
         const meta: BattleMeta = JSON.parse(metaData);
@@ -855,12 +1552,13 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   }
 
   async getGlobalUnreadCount(): Promise<number> {
+    await this.ready;
     try {
       let totalUnread = 0;
       
       // Use global index for efficiency
       const metaKeys = this.globalMetaIndex.map(id => `battle_log_meta_${id}`);
-      const metaDataArray = await AsyncStorage.multiGet(metaKeys);
+      const metaDataArray = await this.storage.multiGet(metaKeys);
       
       for (const [, metaData] of metaDataArray) {
         if (metaData) {
@@ -877,6 +1575,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   }
 
   async markMessagesAsRead(battleId: string, messageIds?: string[]): Promise<void> {
+    await this.ready;
     try {
       if (messageIds) {
         // Mark specific messages as read
@@ -911,9 +1610,10 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   // ===== BATTLE MANAGEMENT =====
 
   async getAllMetas(): Promise<BattleMeta[]> {
+    await this.ready;
     try {
       const metaKeys = this.globalMetaIndex.map(id => `battle_log_meta_${id}`);
-      const metaDataArray = await AsyncStorage.multiGet(metaKeys);
+      const metaDataArray = await this.storage.multiGet(metaKeys);
       
       const metas: BattleMeta[] = [];
       for (const [, metaData] of metaDataArray) {
@@ -930,6 +1630,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   }
 
   async clearBattleLog(battleId: string): Promise<void> {
+    await this.ready;
     try {
       const mutex = this.getMutex(battleId);
       await mutex.acquire();
@@ -961,12 +1662,12 @@ export class UnifiedBattleLogSystem extends EventEmitter {
       const battleData = await this.loadBattleFromStorage(battleId);
       
       if (battleData) {
-        const keysToRemove = [metaKey];
+        const keysToRemove = [metaKey, `${SEARCH_INDEX_KEY_PREFIX}${battleId}`];
         for (let i = 0; i <= battleData.meta.lastChunkIndex; i++) {
           keysToRemove.push(`battle_log_chunk_${battleId}_${i}`);
         }
         
-        await AsyncStorage.multiRemove(keysToRemove);
+        await this.storage.multiRemove(keysToRemove);
       }
 
       this.emit('battleCleared', battleId);
@@ -979,6 +1680,7 @@ export class UnifiedBattleLogSystem extends EventEmitter {
   }
 
   async clearAllLogs(): Promise<void> {
+    await this.ready;
     try {
       // Clear all battle logs
       for (const battleId of this.globalMetaIndex) {
@@ -1081,6 +1783,307 @@ export class UnifiedBattleLogSystem extends EventEmitter {
     await Promise.allSettled(flushPromises);
   }
 
+  // ===== SERVER SYNC =====
+
+  /**
+   * Deliver queued messages through a transport (e.g. WebSocketBattleLogTransport).
+   * Messages stored without a serverSeq (sent before a restart) are queued again;
+   * the server dedupes by message id.
+   */
+  async attachTransport(transport: BattleLogTransport): Promise<void> {
+    this.detachTransport();
+    this.transport = transport;
+    this.transportSubscriptions = [
+      transport.onAcks(acks => this.handleAcks(acks)),
+      transport.onConnectionChange(connected => {
+        if (!connected) return;
+        // Acks for sends on the old connection will not arrive
+        this.requeueInFlight();
+        this.processOutbox();
+      }),
+    ];
+
+    await this.requeueUnacknowledged();
+    this.processOutbox();
+  }
+
+  detachTransport(): void {
+    this.transportSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.transportSubscriptions = [];
+    this.transport = undefined;
+
+    this.ackTimers.forEach(timer => clearTimeout(timer));
+    this.ackTimers.clear();
+    if (this.outboxRetryTimer) {
+      clearTimeout(this.outboxRetryTimer);
+      this.outboxRetryTimer = undefined;
+    }
+    this.requeueInFlight();
+  }
+
+  /**
+   * Messages not yet acknowledged by the server
+   */
+  getOutbox(): QueuedMessage[] {
+    return this.messageQueue.map(queued => ({ ...queued }));
+  }
+
+  /**
+   * Give messages that ran out of retries another round; returns how many
+   */
+  retryFailedMessages(): number {
+    const failed = this.messageQueue.filter(queued => queued.status === 'failed');
+    failed.forEach(queued => {
+      queued.status = 'pending';
+      queued.retryCount = 0;
+      queued.nextAttemptAt = undefined;
+    });
+    this.processOutbox();
+    return failed.length;
+  }
+
+  private processOutbox(): void {
+    if (!this.transport || !this.transport.isConnected()) return;
+
+    const now = Date.now();
+    const due = this.messageQueue.filter(queued =>
+      queued.status === 'pending' && (!queued.nextAttemptAt || queued.nextAttemptAt <= now)
+    );
+
+    for (let i = 0; i < due.length; i += this.config.sendBatchSize) {
+      const batch = due.slice(i, i + this.config.sendBatchSize);
+
+      try {
+        this.transport.send(batch.map(queued => queued.payload));
+      } catch (error) {
+        batch.forEach(queued => this.handleSendFailure(queued, String(error)));
+        continue;
+      }
+
+      const sentAt = Date.now();
+      batch.forEach(queued => {
+        queued.status = 'sent';
+        queued.sentAt = sentAt;
+      });
+
+      const timer = setTimeout(() => {
+        this.ackTimers.delete(timer);
+        this.handleAckTimeout(batch, sentAt);
+      }, this.config.ackTimeout);
+      this.ackTimers.add(timer);
+
+      this.emit('messagesSent', batch.map(queued => queued.payload));
+    }
+
+    this.scheduleOutboxRetry();
+  }
+
+  private handleAckTimeout(batch: QueuedMessage[], sentAt: number): void {
+    // Skip messages acked or resent since
+    const timedOut = batch.filter(queued => queued.status === 'sent' && queued.sentAt === sentAt);
+    timedOut.forEach(queued => this.handleSendFailure(queued, 'Ack timeout'));
+    if (timedOut.length > 0) this.scheduleOutboxRetry();
+  }
+
+  private handleSendFailure(queued: QueuedMessage, error: string): void {
+    queued.retryCount++;
+    queued.lastError = error;
+    queued.sentAt = undefined;
+
+    if (queued.retryCount > this.config.maxSendRetries) {
+      queued.status = 'failed';
+      this.emit('messageFailed', { messageId: queued.id, battleId: queued.battleId, error });
+      return;
+    }
+
+    queued.status = 'pending';
+    queued.nextAttemptAt = Date.now() + this.getRetryDelay(queued.retryCount);
+  }
+
+  /**
+   * Exponential backoff with jitter: half fixed, half random
+   */
+  private getRetryDelay(retryCount: number): number {
+    const exponential = this.config.retryDelay * Math.pow(2, Math.max(0, retryCount - 1));
+    const capped = Math.min(this.config.maxRetryDelay, exponential);
+    return Math.round(capped / 2 + Math.random() * (capped / 2));
+  }
+
+  /**
+   * Wake up when the earliest backed-off message becomes due
+   */
+  private scheduleOutboxRetry(): void {
+    if (this.outboxRetryTimer) {
+      clearTimeout(this.outboxRetryTimer);
+      this.outboxRetryTimer = undefined;
+    }
+    if (!this.transport) return;
+
+    const nextAttempts = this.messageQueue
+      .filter(queued => queued.status === 'pending' && queued.nextAttemptAt !== undefined)
+      .map(queued => queued.nextAttemptAt!);
+    if (nextAttempts.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...nextAttempts) - Date.now());
+    this.outboxRetryTimer = setTimeout(() => {
+      this.outboxRetryTimer = undefined;
+      this.processOutbox();
+    }, delay);
+  }
+
+  private requeueInFlight(): void {
+    for (const queued of this.messageQueue) {
+      if (queued.status === 'sent') {
+        queued.status = 'pending';
+        queued.sentAt = undefined;
+      }
+    }
+  }
+
+  private async requeueUnacknowledged(): Promise<void> {
+    await this.ready;
+    const queuedIds = new Set(this.messageQueue.map(queued => queued.id));
+
+    for (const battleId of [...this.globalMetaIndex]) {
+      const battleData = this.cache.get(battleId) || await this.loadBattleFromStorage(battleId);
+      if (!battleData) continue;
+
+      const chunkIndices = Array.from(battleData.chunks.keys()).sort((a, b) => a - b);
+      for (const chunkIndex of chunkIndices) {
+        for (const message of battleData.chunks.get(chunkIndex)!.messages) {
+          if (message.serverSeq !== undefined || queuedIds.has(message.id)) continue;
+          queuedIds.add(message.id);
+          this.messageQueue.push({
+            id: message.id,
+            battleId,
+            payload: message,
+            clientTimestamp: message.clientTimestamp,
+            status: 'pending',
+            retryCount: 0,
+          });
+        }
+      }
+    }
+  }
+
+  private handleAcks(acks: BattleMessageAck[]): void {
+    const acceptedByBattle = new Map<string, BattleMessageAck[]>();
+
+    for (const ack of acks) {
+      // Unknown ids are duplicates of acks already applied
+      const queued = this.messageQueue.find(candidate => candidate.id === ack.messageId);
+      if (!queued || queued.status === 'ack') continue;
+
+      if (!ack.success) {
+        this.handleSendFailure(queued, ack.error || 'Rejected by server');
+        continue;
+      }
+
+      queued.status = 'ack';
+      if (!acceptedByBattle.has(queued.battleId)) {
+        acceptedByBattle.set(queued.battleId, []);
+      }
+      acceptedByBattle.get(queued.battleId)!.push(ack);
+    }
+
+    this.messageQueue = this.messageQueue.filter(queued => queued.status !== 'ack');
+    this.scheduleOutboxRetry();
+
+    for (const [battleId, battleAcks] of acceptedByBattle) {
+      this.applyServerSequence(battleId, battleAcks).catch(error => {
+        console.error('Failed to apply server acks:', error);
+        this.stats.errors++;
+      });
+    }
+  }
+
+  /**
+   * Record serverSeq / serverTimestamp on stored messages and restore server order
+   */
+  private async applyServerSequence(battleId: string, acks: BattleMessageAck[]): Promise<void> {
+    const acksById = new Map(acks.map(ack => [ack.messageId, ack]));
+    const applyAck = (message: BattleMessage): boolean => {
+      const ack = acksById.get(message.id);
+      if (!ack) return false;
+      message.serverSeq = ack.serverSeq;
+      message.serverTimestamp = ack.serverTimestamp;
+      return true;
+    };
+
+    const mutex = this.getMutex(battleId);
+    await mutex.acquire();
+
+    try {
+      // Not flushed yet - the chunk gets written with the sequence
+      (this.writeQueues.get(battleId) || []).forEach(applyAck);
+
+      const battleData = this.cache.get(battleId) || await this.loadBattleFromStorage(battleId);
+      if (battleData) {
+        const changed = new Set<number>();
+        for (const [chunkIndex, chunk] of battleData.chunks) {
+          let touched = false;
+          chunk.messages.forEach(message => { touched = applyAck(message) || touched; });
+          if (touched) changed.add(chunkIndex);
+        }
+
+        const reordered = this.applyServerOrder(battleData.chunks);
+        reordered.forEach(chunkIndex => changed.add(chunkIndex));
+
+        if (changed.size > 0) {
+          const chunks = Array.from(changed).map(chunkIndex => battleData.chunks.get(chunkIndex)!);
+          const extraWrites: Array<[string, string]> = [];
+
+          if (reordered.size > 0) {
+            const battleIndex = await this.getSearchIndex(battleId);
+            this.reindexChunks(battleIndex, chunks);
+            extraWrites.push(this.serializeSearchIndex(battleId, battleIndex));
+          }
+
+          await this.saveBattleChunks(battleId, chunks, extraWrites);
+          this.cache.set(battleId, battleData);
+
+          if (reordered.size > 0) {
+            this.emit('messagesReordered', { battleId, chunkIndices: Array.from(reordered).sort((a, b) => a - b) });
+          }
+        }
+      }
+    } finally {
+      mutex.release();
+    }
+
+    this.emit('messagesAcknowledged', { battleId, acks });
+  }
+
+  /**
+   * Put server-sequenced messages in serverSeq order. They are sorted among
+   * the slots they already occupy, so unsequenced messages keep their place.
+   * Returns the chunk indices that changed.
+   */
+  private applyServerOrder(chunks: Map<number, MessageChunk>): Set<number> {
+    const slots: Array<{ chunkIndex: number; messageIndex: number }> = [];
+    const sequenced: BattleMessage[] = [];
+
+    for (const chunkIndex of Array.from(chunks.keys()).sort((a, b) => a - b)) {
+      chunks.get(chunkIndex)!.messages.forEach((message, messageIndex) => {
+        if (message.serverSeq === undefined) return;
+        slots.push({ chunkIndex, messageIndex });
+        sequenced.push(message);
+      });
+    }
+
+    const changed = new Set<number>();
+    const ordered = [...sequenced].sort((a, b) => a.serverSeq! - b.serverSeq!);
+    ordered.forEach((message, i) => {
+      const { chunkIndex, messageIndex } = slots[i];
+      const chunk = chunks.get(chunkIndex)!;
+      if (chunk.messages[messageIndex] !== message) {
+        chunk.messages[messageIndex] = message;
+        changed.add(chunkIndex);
+      }
+    });
+    return changed;
+  }
+
   // ===== DEV TOOLS AND DIAGNOSTICS =====
 
   getStorageStats(): StorageStats {
@@ -1149,14 +2152,17 @@ export class UnifiedBattleLogSystem extends EventEmitter {
 
   // ===== MIGRATION =====
 
-  async migrateFromOldFormat(): Promise<void> {
-    try {
-      // Implementation would depend on the old format
-      console.log('Migration from old format not implemented yet');
-    } catch (error) {
-      console.error('Migration failed:', error);
-      throw error;
+  /**
+   * Run pending schema migrations for stored battle logs.
+   * Runs automatically on construction; call with dryRun to preview changes.
+   */
+  async migrateFromOldFormat(options: StorageMigrationOptions = {}): Promise<StorageMigrationReport> {
+    if (options.dryRun) {
+      return this.schemaMigrations.migrate(options);
     }
+
+    await this.ready;
+    return this.schemaMigrations.ensureMigrated();
   }
 }
 
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BattleEngine, type CombatantInput, type SkillUsageRecorder } from '../BattleEngine';
+import type { BattleSkill } from '../ClientsideSkillStorage';
+
+const stats = { maxHp: 100, maxMana: 50, attack: 10, defense: 5, speed: 10 };
+
+const fireBolt: BattleSkill = {
+  skillId: 'fire-bolt',
+  summary: {
+    id: 'fire-bolt',
+    name: 'Fire Bolt',
+    description: '',
+    category: 'magic',
+    rarity: 'common',
+    abilities: [{ id: 'bolt', name: 'Bolt', description: '', damage: 30 }],
+    isTemplate: true,
+    createdAt: '',
+    updatedAt: '',
+  },
+  runtimeState: { skillId: 'fire-bolt', level: 1, experience: 0, isActive: true, acquiredAt: '' },
+  isReady: true,
+};
+
+const combatant = (id: string, isPlayer: boolean): CombatantInput => ({
+  id,
+  name: id,
+  stats,
+  skills: [fireBolt],
+  isPlayer,
+});
+
+test('abilities used by players are recorded as skill usage, NPC abilities are not', async () => {
+  const recorded: Array<[string, string, string | undefined]> = [];
+  const skillUsage: SkillUsageRecorder = {
+    markSkillAsUsed: async (playerUUID, skillId, battle) => {
+      recorded.push([playerUUID, skillId, battle?.battleId]);
+    },
+  };
+
+  const engine = new BattleEngine([
+    { teamId: 'players', combatants: [combatant('player-1', true)] },
+    { teamId: 'enemies', combatants: [combatant('npc-1', false)] },
+  ], { battleId: 'battle-1', seed: 42, battleLog: null, skillUsage });
+
+  const result = engine.run();
+  await engine.flushSkillUsage();
+
+  const playerUses = result.transitions.filter(t => t.type === 'action' && t.actorId === 'player-1' && t.skillId);
+  assert.ok(playerUses.length > 0);
+  assert.deepEqual(recorded, playerUses.map(() => ['player-1', 'fire-bolt', 'battle-1']));
+});
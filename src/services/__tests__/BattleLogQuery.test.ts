@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { UnifiedBattleLogSystem, type BattleMessage } from '../UnifiedBattleLogSystem';
+import { parseBattleLogQuery, scoreBattleMessage } from '../BattleLogQuery';
+
+const NOW = Date.parse('2024-05-02T12:00:00Z');
+
+const stored = (overrides: Partial<BattleMessage>): BattleMessage => ({
+  id: 'm1',
+  battleId: 'battle-1',
+  senderId: 'rimuru',
+  senderName: 'Rimuru Tempest',
+  content: '',
+  type: 'damage',
+  timestamp: NOW,
+  clientTimestamp: NOW,
+  isRead: false,
+  ...overrides,
+});
+
+test('filters, phrases, negation and prefixes are parsed', () => {
+  const query = parseBattleLogQuery(
+    'fire* "critical hit" -miss -"status effect" type:damage -type:system sender:"Rimuru Tempest" battle:b1 after:2h',
+    NOW
+  );
+
+  assert.deepEqual(query.terms, [{ value: 'fire', prefix: true }]);
+  assert.deepEqual(query.phrases, [['critical', 'hit']]);
+  assert.deepEqual(query.excludedTerms, [{ value: 'miss', prefix: false }]);
+  assert.deepEqual(query.excludedPhrases, [['status', 'effect']]);
+  assert.deepEqual(query.types, ['damage']);
+  assert.deepEqual(query.excludedTypes, ['system']);
+  assert.deepEqual(query.senders, ['Rimuru Tempest']);
+  assert.deepEqual(query.battleIds, ['b1']);
+  assert.equal(query.after, NOW - 2 * 60 * 60 * 1000);
+  assert.deepEqual(query.issues, []);
+});
+
+test('invalid filter values are reported and unknown fields are searched as text', () => {
+  const query = parseBattleLogQuery('type:explosion before:someday -after:1h hp:10', NOW);
+  assert.deepEqual(query.issues, [
+    'Unknown message type "explosion" (expected system, player, action, damage, heal, status)',
+    'Invalid before time "someday"',
+    '"after:" cannot be negated',
+  ]);
+  assert.deepEqual(query.phrases, [['hp', '10']]);
+  assert.equal(query.before, undefined);
+});
+
+test('sender matches outrank content matches, exact hits outrank prefixes', () => {
+  const bySender = stored({ senderName: 'Fire Golem', content: 'Smash' });
+  const byContent = stored({ content: 'Fire rains down' });
+  const byPrefix = stored({ content: 'Fireball hits' });
+
+  const exact = parseBattleLogQuery('fire*', NOW);
+  const scores = [bySender, byContent, byPrefix].map(message => scoreBattleMessage(exact, message));
+  assert.deepEqual(scores, [2, 1, 0.5]);
+
+  // Without "*" only whole words match
+  assert.equal(scoreBattleMessage(parseBattleLogQuery('fire', NOW), byPrefix), null);
+});
+
+test('messages failing a filter or matching an exclusion do not match', () => {
+  const message = stored({ content: 'Critical hit for 120', timestamp: NOW - 60 * 1000 });
+
+  assert.ok(scoreBattleMessage(parseBattleLogQuery('"critical hit" sender:rimuru', NOW), message));
+  assert.ok(scoreBattleMessage(parseBattleLogQuery('sender:"rimuru tempest" after:5m', NOW), message));
+  assert.equal(scoreBattleMessage(parseBattleLogQuery('"hit critical"', NOW), message), null);
+  assert.equal(scoreBattleMessage(parseBattleLogQuery('critical -120', NOW), message), null);
+  assert.equal(scoreBattleMessage(parseBattleLogQuery('critical type:heal', NOW), message), null);
+  assert.equal(scoreBattleMessage(parseBattleLogQuery('critical after:30s', NOW), message), null);
+  assert.equal(scoreBattleMessage(parseBattleLogQuery('critical -battle:battle-1', NOW), message), null);
+});
+
+test('searchMessages applies the query syntax across battles', async () => {
+  const battleLog = new UnifiedBattleLogSystem({ storage: new MemoryKeyValueStore() });
+  const add = (battleId: string, senderName: string, type: BattleMessage['type'], content: string) =>
+    battleLog.enqueueMessage(battleId, { battleId, senderId: senderName.toLowerCase(), senderName, type, content });
+
+  await add('battle-1', 'Rimuru', 'damage', 'Fireball hits goblin for 40');
+  await add('battle-1', 'Rimuru', 'heal', 'Healing light restores 20');
+  await add('battle-1', 'Goblin', 'damage', 'Club misses Rimuru');
+  await add('battle-2', 'Shion', 'damage', 'Fireball hits ogre for 55');
+  await add('battle-2', 'System', 'system', 'Fireball cooldown reset');
+  await battleLog.flush();
+
+  const contents = async (query: string) =>
+    (await battleLog.searchMessages(query)).map(result => result.message.content);
+
+  assert.deepEqual((await contents('fireball -type:system')).sort(), [
+    'Fireball hits goblin for 40',
+    'Fireball hits ogre for 55',
+  ]);
+  assert.deepEqual(await contents('fire* battle:battle-2 sender:shion'), ['Fireball hits ogre for 55']);
+  assert.deepEqual(await contents('type:damage -fireball'), ['Club misses Rimuru']);
+  assert.deepEqual(await contents('"hits ogre"'), ['Fireball hits ogre for 55']);
+
+  // Mentioning Rimuru in the content scores below being the sender
+  assert.deepEqual(await contents('rimuru type:damage'), ['Fireball hits goblin for 40', 'Club misses Rimuru']);
+});
@@ -0,0 +1,112 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket as NodeWebSocket } from 'ws';
+import { SkillSyncServer } from '../../../server/SkillSyncServer';
+import { WebSocketBattleLogTransport, type BattleMessageAck } from '../BattleLogTransport';
+import type { BattleMessage } from '../UnifiedBattleLogSystem';
+
+const originalWebSocket = globalThis.WebSocket;
+const { log } = console;
+let server: SkillSyncServer;
+
+before(async () => {
+  (globalThis as any).WebSocket = NodeWebSocket;
+  console.log = () => {};
+  server = new SkillSyncServer({ port: 0 });
+  await server.start();
+});
+
+after(async () => {
+  await server.stop();
+  (globalThis as any).WebSocket = originalWebSocket;
+  console.log = log;
+});
+
+const message = (id: string, battleId = 'battle-1'): BattleMessage => ({
+  id,
+  battleId,
+  senderId: 'player-1',
+  senderName: 'Player One',
+  content: `Message ${id}`,
+  type: 'player',
+  timestamp: Date.now(),
+  clientTimestamp: Date.now(),
+  isRead: false,
+});
+
+async function connect(): Promise<WebSocketBattleLogTransport> {
+  const transport = new WebSocketBattleLogTransport({
+    url: `ws://localhost:${server.getPort()}/battle-log`,
+    maxReconnectAttempts: 0,
+  });
+  const connected = new Promise<void>(resolve => {
+    const stop = transport.onConnectionChange(isConnected => {
+      if (isConnected) {
+        stop();
+        resolve();
+      }
+    });
+  });
+  transport.connect();
+  await connected;
+  return transport;
+}
+
+function nextAcks(transport: WebSocketBattleLogTransport): Promise<BattleMessageAck[]> {
+  return new Promise(resolve => {
+    const stop = transport.onAcks(acks => {
+      stop();
+      resolve(acks);
+    });
+  });
+}
+
+test('sent batches come back as acks with per-battle server sequence numbers', async () => {
+  const transport = await connect();
+  try {
+    let acks = nextAcks(transport);
+    transport.send([message('m1'), message('m2'), message('x1', 'battle-2')]);
+    assert.deepEqual((await acks).map(ack => [ack.messageId, ack.success, ack.serverSeq]), [
+      ['m1', true, 1],
+      ['m2', true, 2],
+      ['x1', true, 1],
+    ]);
+
+    // A resend after a lost ack keeps its original position
+    const first = (await acks)[0];
+    acks = nextAcks(transport);
+    transport.send([message('m1'), message('m3')]);
+    const resent = await acks;
+    assert.deepEqual(resent.map(ack => [ack.messageId, ack.serverSeq]), [['m1', 1], ['m3', 3]]);
+    assert.equal(resent[0].serverTimestamp, first.serverTimestamp);
+
+    assert.equal(server.getBattleLogStore().get('battle-1')?.lastSeq, 3);
+  } finally {
+    transport.disconnect();
+  }
+});
+
+test('malformed messages are rejected per message', async () => {
+  const transport = await connect();
+  try {
+    const acks = nextAcks(transport);
+    transport.send([message('ok-1', 'battle-3'), { ...message('bad-1'), battleId: undefined as unknown as string }]);
+    assert.deepEqual((await acks).map(ack => [ack.messageId, ack.success, ack.error]), [
+      ['ok-1', true, undefined],
+      ['bad-1', false, 'Malformed battle message'],
+    ]);
+  } finally {
+    transport.disconnect();
+  }
+});
+
+test('sending requires a connection and disconnects are reported', async () => {
+  const transport = await connect();
+  const changes: boolean[] = [];
+  transport.onConnectionChange(connected => changes.push(connected));
+
+  transport.disconnect();
+  assert.equal(transport.isConnected(), false);
+  assert.deepEqual(changes, [false]);
+  assert.throws(() => transport.send([message('m4')]), /not connected/);
+});
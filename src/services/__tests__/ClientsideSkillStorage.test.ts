@@ -0,0 +1,66 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { ClientsideSkillStorage, type PlayerSkillState, type SkillUsageEvent } from '../ClientsideSkillStorage';
+
+const state = (skillId: string): PlayerSkillState => ({
+  skillId,
+  level: 1,
+  experience: 0,
+  isActive: true,
+  acquiredAt: new Date().toISOString(),
+});
+
+let storage: MemoryKeyValueStore;
+
+beforeEach(() => {
+  storage = new MemoryKeyValueStore();
+  ClientsideSkillStorage.configureSync({ enabled: false });
+  ClientsideSkillStorage.configureStorage(storage);
+});
+
+test('skill states are stored in the configured store', async () => {
+  await ClientsideSkillStorage.storePlayerSkillStates('player-1', [state('fire-bolt')]);
+  await ClientsideSkillStorage.addSkillState('player-1', state('ice-shard'));
+  await ClientsideSkillStorage.updateSkillState('player-1', 'fire-bolt', { level: 3 });
+
+  const states = await ClientsideSkillStorage.getPlayerSkillStates('player-1');
+  assert.deepEqual(states.map(s => [s.skillId, s.level]), [['fire-bolt', 3], ['ice-shard', 1]]);
+  assert.ok(Object.keys(storage.toJSON()).some(key => key.endsWith('player-1')));
+
+  // A fresh store sees none of it
+  ClientsideSkillStorage.configureStorage(new MemoryKeyValueStore());
+  assert.deepEqual(await ClientsideSkillStorage.getPlayerSkillStates('player-1'), []);
+});
+
+test('markSkillAsUsed records lastUsed and emits skillUsed with the battle', async () => {
+  await ClientsideSkillStorage.storePlayerSkillStates('player-1', [state('fire-bolt')]);
+
+  const events: SkillUsageEvent[] = [];
+  const listener = (event: SkillUsageEvent) => events.push(event);
+  ClientsideSkillStorage.on('skillUsed', listener);
+  try {
+    await ClientsideSkillStorage.markSkillAsUsed('player-1', 'fire-bolt', { battleId: 'battle-1' });
+  } finally {
+    ClientsideSkillStorage.off('skillUsed', listener);
+  }
+
+  const [used] = await ClientsideSkillStorage.getPlayerSkillStates('player-1');
+  assert.ok(used.lastUsed);
+  assert.deepEqual(events, [{ playerUUID: 'player-1', skillId: 'fire-bolt', battleId: 'battle-1' }]);
+});
+
+test('addSkillStates appends without dropping concurrent writes and skips known skills', async () => {
+  await ClientsideSkillStorage.storePlayerSkillStates('player-1', [state('fire-bolt')]);
+
+  await Promise.all([
+    ClientsideSkillStorage.updateSkillState('player-1', 'fire-bolt', { level: 4 }),
+    ClientsideSkillStorage.addSkillStates('player-1', [state('fire-bolt'), state('ice-shard')]),
+  ]);
+
+  const states = await ClientsideSkillStorage.getPlayerSkillStates('player-1');
+  assert.deepEqual(states.map(s => [s.skillId, s.level]), [['fire-bolt', 4], ['ice-shard', 1]]);
+
+  await ClientsideSkillStorage.removeSkillStates('player-1', ['ice-shard', 'unknown']);
+  assert.deepEqual((await ClientsideSkillStorage.getPlayerSkillStates('player-1')).map(s => s.skillId), ['fire-bolt']);
+});
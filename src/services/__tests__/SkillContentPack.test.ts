@@ -0,0 +1,145 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { SkillsDB } from '../SkillsDB';
+import {
+  ContentPackProgress,
+  ContentPackValidationError,
+  SkillContentPackLoader,
+  createBundledContentPack,
+} from '../SkillContentPack';
+
+const template = (id: string, name: string) => ({
+  id,
+  name,
+  rarity: 'common',
+  abilities: [{ id: 'strike', name: 'Strike', cooldown: 1000 }],
+  engineData: { cooldowns: { strike: 1000 } },
+});
+
+const manifest = {
+  packId: 'test',
+  version: 1,
+  categories: {
+    combat: { file: 'combat.json', templateIds: ['test.combat.cleave', 'test.combat.bash'] },
+    magic: { file: 'magic.json', templateIds: ['test.magic.firebolt'] },
+  },
+};
+
+const combatFile = {
+  category: 'combat',
+  templates: [template('test.combat.cleave', 'Cleave'), template('test.combat.bash', 'Bash')],
+};
+
+const magicFile = {
+  category: 'magic',
+  templates: [template('test.magic.firebolt', 'Firebolt')],
+};
+
+let db: SkillsDB;
+
+beforeEach(async () => {
+  db = new SkillsDB({ storage: new MemoryKeyValueStore() });
+  await db.initialize();
+});
+
+test('categories load lazily, import under their authored IDs and report progress', async () => {
+  const reads: string[] = [];
+  const loader = new SkillContentPackLoader(createBundledContentPack(manifest, {
+    'combat.json': () => { reads.push('combat.json'); return combatFile; },
+    'magic.json': () => { reads.push('magic.json'); return JSON.stringify(magicFile); },
+  }), db);
+
+  const progress: ContentPackProgress[] = [];
+  loader.on('progress', (event: ContentPackProgress) => progress.push(event));
+
+  assert.deepEqual(await loader.getCategories(), ['combat', 'magic']);
+  assert.equal(await loader.getTotalTemplates(), 3);
+  assert.deepEqual(reads, []);
+
+  const firebolt = await loader.loadTemplate('test.magic.firebolt');
+  assert.equal(firebolt?.name, 'Firebolt');
+  assert.equal(firebolt?.category, 'magic');
+  assert.deepEqual(reads, ['magic.json']);
+  assert.equal(loader.isCategoryLoaded('combat'), false);
+
+  // Concurrent loads of the same category share one read
+  await Promise.all([loader.loadCategory('combat'), loader.loadCategory('combat')]);
+  await loader.loadAll();
+  assert.deepEqual(reads, ['magic.json', 'combat.json']);
+
+  assert.deepEqual(progress.map(p => [p.category, p.templatesLoaded, p.totalTemplates]), [
+    ['magic', 1, 3],
+    ['combat', 3, 3],
+  ]);
+  assert.deepEqual(progress[1].loadedCategories, ['magic', 'combat']);
+
+  const stored = await db.getSkillSummaries(['test.combat.cleave', 'test.combat.bash', 'test.magic.firebolt']);
+  assert.equal(stored.size, 3);
+});
+
+test('an invalid category file is rejected without importing anything', async () => {
+  const loader = new SkillContentPackLoader(createBundledContentPack(manifest, {
+    'combat.json': () => ({
+      category: 'combat',
+      templates: [{ ...template('test.combat.cleave', 'Cleave'), rarity: 'mythic', abilities: [] }],
+    }),
+    'magic.json': () => magicFile,
+  }), db);
+
+  const error = await loader.loadCategory('combat').then(
+    () => assert.fail('expected a validation error'),
+    (e: unknown) => e
+  );
+  assert.ok(error instanceof ContentPackValidationError);
+  assert.equal(error.file, 'combat.json');
+  assert.deepEqual(error.issues.map(issue => issue.path).sort(), ['templates.0.abilities', 'templates.0.rarity']);
+
+  assert.equal(loader.isCategoryLoaded('combat'), false);
+  assert.equal((await db.getSkillSummaries(['test.combat.cleave'])).size, 0);
+
+  // A bad file does not poison the rest of the pack
+  assert.equal((await loader.loadCategory('magic')).length, 1);
+});
+
+test('a category file must match its manifest entry', async () => {
+  const loader = new SkillContentPackLoader(createBundledContentPack(manifest, {
+    'combat.json': () => ({
+      category: 'magic',
+      templates: [template('test.combat.cleave', 'Cleave'), template('test.combat.uppercut', 'Uppercut')],
+    }),
+  }), db);
+
+  const error = await loader.loadCategory('combat').then(
+    () => assert.fail('expected a validation error'),
+    (e: unknown) => e
+  );
+  assert.ok(error instanceof ContentPackValidationError);
+  assert.deepEqual(error.issues.map(issue => issue.message), [
+    'Expected "combat", found "magic"',
+    'Missing templates listed in the manifest: test.combat.bash',
+    'Templates not listed in the manifest: test.combat.uppercut',
+  ]);
+
+  await assert.rejects(loader.loadCategory('magic'), /magic\.json is not bundled/);
+  await assert.rejects(loader.loadCategory('stealth'), /no category "stealth"/);
+});
+
+test('an invalid manifest is reported before any file is read', async () => {
+  const loader = new SkillContentPackLoader(createBundledContentPack({
+    ...manifest,
+    categories: {
+      combat: manifest.categories.combat,
+      magic: { file: 'magic.json', templateIds: ['test.combat.cleave'] },
+    },
+  }, {
+    'combat.json': () => assert.fail('files must not be read'),
+  }), db);
+
+  await assert.rejects(loader.loadAll(), (error: unknown) => {
+    assert.ok(error instanceof ContentPackValidationError);
+    assert.equal(error.file, 'manifest');
+    assert.match(error.message, /Duplicate template ID test\.combat\.cleave/);
+    return true;
+  });
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RANDOM_SKILL_ID_LENGTH, generateRandomSkillId, isValidSkillId } from '../SkillIds';
+
+test('random IDs are URL-safe and unique', () => {
+  const ids = new Set(Array.from({ length: 1000 }, () => generateRandomSkillId()));
+  assert.equal(ids.size, 1000);
+  for (const id of ids) {
+    assert.equal(id.length, RANDOM_SKILL_ID_LENGTH);
+    assert.ok(isValidSkillId(id));
+  }
+});
+
+test('random IDs are refused without a secure random source', () => {
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+  const random = Math.random;
+  Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+  Math.random = () => assert.fail('Math.random must not be used for skill IDs');
+  try {
+    assert.throws(() => generateRandomSkillId(), /crypto\.getRandomValues is unavailable/);
+  } finally {
+    Object.defineProperty(globalThis, 'crypto', descriptor);
+    Math.random = random;
+  }
+  assert.ok(isValidSkillId(generateRandomSkillId()));
+});
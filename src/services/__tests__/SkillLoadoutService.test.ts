@@ -0,0 +1,82 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { ClientsideSkillStorage, type PlayerSkillState } from '../ClientsideSkillStorage';
+import { SkillsDB, type SkillSummary } from '../SkillsDB';
+import { SkillLoadoutService, LoadoutValidationError } from '../SkillLoadoutService';
+
+const state = (skillId: string): PlayerSkillState => ({
+  skillId,
+  level: 1,
+  experience: 0,
+  isActive: true,
+  acquiredAt: new Date().toISOString(),
+});
+
+const skill = (name: string, rarity: SkillSummary['rarity']): Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'> => ({
+  name,
+  description: '',
+  category: 'magic',
+  rarity,
+  abilities: [],
+  isTemplate: false,
+  ownerId: 'player-1',
+});
+
+let storage: MemoryKeyValueStore;
+let loadouts: SkillLoadoutService;
+let ids: Record<string, string>;
+
+beforeEach(async () => {
+  storage = new MemoryKeyValueStore();
+  ClientsideSkillStorage.configureSync({ enabled: false });
+  ClientsideSkillStorage.configureStorage(storage);
+
+  const db = new SkillsDB({ storage: new MemoryKeyValueStore() });
+  await db.initialize();
+  ids = {};
+  for (const [name, rarity] of [['Fire Bolt', 'common'], ['Ice Shard', 'common'], ['Meteor', 'legendary'], ['Nova', 'legendary']] as const) {
+    ids[name] = (await db.createSkill(skill(name, rarity))).summary.id;
+  }
+  await ClientsideSkillStorage.storePlayerSkillStates('player-1', Object.values(ids).map(state));
+
+  loadouts = new SkillLoadoutService({ skillsDB: db });
+});
+
+test('loadouts are stored in the configured store and activation flips isActive', async () => {
+  const pvp = await loadouts.createLoadout('player-1', { name: 'PvP', slots: [ids['Fire Bolt'], ids['Meteor']] });
+  await loadouts.activateLoadout('player-1', pvp.id);
+
+  assert.ok(await storage.getItem('player_loadouts_player-1'));
+  assert.equal((await loadouts.getActiveLoadout('player-1'))?.name, 'PvP');
+
+  const states = await ClientsideSkillStorage.getPlayerSkillStates('player-1');
+  const active = states.filter(s => s.isActive).map(s => s.skillId).sort();
+  assert.deepEqual(active, [ids['Fire Bolt'], ids['Meteor']].sort());
+
+  // One write for the whole loadout: one pending operation per changed flag, same inventory version
+  const operations = await ClientsideSkillStorage.getPendingOperations('player-1');
+  assert.equal(operations.length, 2);
+  assert.equal(new Set(operations.map(op => op.version)).size, 1);
+});
+
+test('editing the active loadout keeps isActive in step', async () => {
+  const pve = await loadouts.createLoadout('player-1', { name: 'PvE', slots: [ids['Fire Bolt']] });
+  await loadouts.activateLoadout('player-1', pve.id);
+  await loadouts.setSlot('player-1', pve.id, 1, ids['Ice Shard']);
+
+  const active = (await ClientsideSkillStorage.getActiveSkillStates('player-1')).map(s => s.skillId).sort();
+  assert.deepEqual(active, [ids['Fire Bolt'], ids['Ice Shard']].sort());
+});
+
+test('rule violations are reported and nothing is saved', async () => {
+  await assert.rejects(
+    loadouts.createLoadout('player-1', { name: 'Greedy', slots: [ids['Meteor'], ids['Nova'], 'someone-elses-skill'] }),
+    (error: unknown) => {
+      assert.ok(error instanceof LoadoutValidationError);
+      assert.deepEqual(error.issues.map(issue => issue.code).sort(), ['not_owned', 'rarity_limit']);
+      return true;
+    }
+  );
+  assert.deepEqual(await loadouts.getLoadouts('player-1'), []);
+});
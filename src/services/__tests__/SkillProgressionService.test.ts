@@ -0,0 +1,35 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { ClientsideSkillStorage } from '../ClientsideSkillStorage';
+import { SkillProgressionService } from '../SkillProgressionService';
+
+const xpCurve = { baseXp: 100, growth: 1, maxLevel: 5 };
+
+beforeEach(async () => {
+  ClientsideSkillStorage.configureSync({ enabled: false });
+  ClientsideSkillStorage.configureStorage(new MemoryKeyValueStore());
+  await ClientsideSkillStorage.storePlayerSkillStates('player-1', [
+    { skillId: 'fire-bolt', level: 1, experience: 0, isActive: true, acquiredAt: new Date().toISOString() },
+  ]);
+});
+
+test('concurrent awards and state writes all land', async () => {
+  const progression = new SkillProgressionService({
+    xpCurves: { common: xpCurve, uncommon: xpCurve, rare: xpCurve, epic: xpCurve, legendary: xpCurve },
+  });
+
+  await Promise.all([
+    progression.awardExperience('player-1', 'fire-bolt', 60),
+    ClientsideSkillStorage.updateSkillState('player-1', 'fire-bolt', { isActive: false }),
+    progression.awardExperience('player-1', 'fire-bolt', 60),
+  ]);
+
+  const [state] = await ClientsideSkillStorage.getPlayerSkillStates('player-1');
+  assert.deepEqual([state.level, state.experience, state.isActive], [2, 20, false]);
+});
+
+test('awarding XP for a skill the player lacks rejects', async () => {
+  const progression = new SkillProgressionService();
+  await assert.rejects(progression.awardExperience('player-1', 'unknown', 10), /not found/);
+});
@@ -0,0 +1,94 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { SkillsDB, type SkillSummary } from '../SkillsDB';
+
+const skill = (
+  name: string,
+  overrides: Partial<Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'>> = {}
+): Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'> => ({
+  name,
+  description: '',
+  category: 'magic',
+  rarity: 'common',
+  abilities: [],
+  isTemplate: false,
+  ownerId: 'player-1',
+  ...overrides,
+});
+
+const ability = (name: string, cooldown = 1000) => ({ id: name.toLowerCase(), name, description: '', cooldown });
+
+let db: SkillsDB;
+
+beforeEach(async () => {
+  db = new SkillsDB({ storage: new MemoryKeyValueStore() });
+  await db.initialize();
+
+  await db.createSkill(skill('Bolt Storm', { description: 'Rains lightning' }), undefined, { id: 'name-hit' });
+  await db.createSkill(skill('Tempest', { abilities: [ability('Bolt')] }), undefined, { id: 'ability-hit' });
+  await db.createSkill(skill('Static Field', { description: 'Each bolt slows' }), undefined, { id: 'description-hit' });
+  await db.createSkill(skill('Fire Bolt', { rarity: 'rare', abilities: [ability('Fireball', 4000)] }), undefined, { id: 'fire-bolt' });
+  await db.createSkill(skill('Éclair', { category: 'utility', isTemplate: true, ownerId: undefined }), undefined, { id: 'eclair' });
+});
+
+const ids = (result: { items: SkillSummary[] }) => result.items.map(item => item.id);
+
+test('name matches outrank ability names, which outrank descriptions', async () => {
+  const result = await db.searchSkills({ text: 'bolt' });
+  assert.deepEqual(ids(result), ['fire-bolt', 'name-hit', 'ability-hit', 'description-hit']);
+  assert.equal(result.total, 4);
+});
+
+test('the last term matches as a prefix, but exact hits score higher', async () => {
+  assert.deepEqual(ids(await db.searchSkills({ text: 'fire bo' })), ['fire-bolt']);
+
+  // "fire" is an exact name token of Fire Bolt; "firestorm" only matches the prefix
+  await db.createSkill(skill('Firestorm'), undefined, { id: 'firestorm' });
+  assert.deepEqual(ids(await db.searchSkills({ text: 'fire' })), ['fire-bolt', 'firestorm']);
+
+  // Single characters never prefix-match
+  assert.deepEqual(ids(await db.searchSkills({ text: 'b' })), []);
+});
+
+test('terms are ANDed and matching ignores case and accents', async () => {
+  assert.deepEqual(ids(await db.searchSkills({ text: 'bolt lightning' })), ['name-hit']);
+  assert.deepEqual(ids(await db.searchSkills({ text: 'ECLAIR' })), ['eclair']);
+  assert.deepEqual(ids(await db.searchSkills({ text: 'bolt nothing' })), []);
+});
+
+test('the index follows updates and deletes', async () => {
+  await db.updateSkill('name-hit', { name: 'Thunder Storm' }, undefined, 'player-1');
+  await db.deleteSkill('fire-bolt', 'player-1');
+
+  assert.deepEqual(ids(await db.searchSkills({ text: 'bolt' })), ['ability-hit', 'description-hit']);
+  assert.deepEqual(ids(await db.searchSkills({ text: 'thunder' })), ['name-hit']);
+});
+
+test('filters, facets and ability ranges narrow text results', async () => {
+  const result = await db.searchSkills({ text: 'bolt', rarity: 'common', includeFacets: true });
+  assert.deepEqual(ids(result), ['name-hit', 'ability-hit', 'description-hit']);
+
+  // Each facet ignores its own filter
+  assert.deepEqual(result.facets?.rarity, { common: 3, rare: 1 });
+  assert.deepEqual(result.facets?.category, { magic: 3 });
+
+  assert.deepEqual(ids(await db.searchSkills({ text: 'bolt', cooldown: { min: 2000 } })), ['fire-bolt']);
+  assert.deepEqual(ids(await db.searchSkills({ isTemplate: true })), ['eclair']);
+});
+
+test('cursors page through results in a stable order', async () => {
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await db.searchSkills({ text: 'bolt', limit: 3, cursor });
+    seen.push(...ids(page));
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+
+  assert.deepEqual(seen, ['fire-bolt', 'name-hit', 'ability-hit', 'description-hit']);
+
+  const byName = await db.searchSkills({ sortBy: 'name', ownerId: 'player-1', limit: 2 });
+  assert.deepEqual(byName.items.map(item => item.name), ['Bolt Storm', 'Fire Bolt']);
+  assert.ok(byName.nextCursor);
+});
@@ -0,0 +1,120 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { SkillWebSocketManager } from '../SkillWebSocketManager';
+
+// Stands in for the global WebSocket; every instance opens on the next tick
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  sent: string[] = [];
+  closed = false;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => this.onopen?.({}), 0);
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  /**
+   * The server (or the network) dropped the connection
+   */
+  drop(): void {
+    this.closed = true;
+    this.onclose?.({});
+  }
+}
+
+const originalWebSocket = globalThis.WebSocket;
+const { log, warn } = console;
+
+before(() => {
+  (globalThis as any).WebSocket = FakeWebSocket;
+  // Connection logs would interleave with the test runner's own output
+  console.log = () => {};
+  console.warn = () => {};
+});
+
+after(() => {
+  (globalThis as any).WebSocket = originalWebSocket;
+  console.log = log;
+  console.warn = warn;
+});
+
+function createManager(): SkillWebSocketManager {
+  FakeWebSocket.instances = [];
+  return new SkillWebSocketManager({
+    url: 'ws://skills.test',
+    enablePersistence: false,
+    reconnectInterval: 5,
+    heartbeatInterval: 20,
+    deadConnectionTimeout: 50,
+  });
+}
+
+function waitFor(manager: SkillWebSocketManager, event: string): Promise<void> {
+  return new Promise(resolve => {
+    const listener = () => {
+      manager.off(event, listener);
+      resolve();
+    };
+    manager.on(event, listener);
+  });
+}
+
+test('reconnects after the socket is closed', { timeout: 2000 }, async () => {
+  const manager = createManager();
+  try {
+    await manager.connect();
+    await waitFor(manager, 'connected');
+
+    const reconnected = waitFor(manager, 'connected');
+    FakeWebSocket.instances[0].drop();
+    await reconnected;
+
+    assert.equal(FakeWebSocket.instances.length, 2);
+    assert.equal(manager.getConnectionState().isConnected, true);
+  } finally {
+    manager.disconnect();
+  }
+});
+
+test('reconnects after a silent connection is torn down', { timeout: 2000 }, async () => {
+  const manager = createManager();
+  try {
+    await manager.connect();
+    await waitFor(manager, 'connected');
+
+    // No messages arrive, so the heartbeat declares the connection dead
+    const reconnected = waitFor(manager, 'connected');
+    await waitFor(manager, 'connectionDead');
+    await reconnected;
+
+    assert.equal(FakeWebSocket.instances[0].closed, true);
+    assert.equal(FakeWebSocket.instances.length, 2);
+  } finally {
+    manager.disconnect();
+  }
+});
+
+test('disconnect does not schedule a reconnect', { timeout: 2000 }, async () => {
+  const manager = createManager();
+  await manager.connect();
+  await waitFor(manager, 'connected');
+
+  manager.disconnect();
+  await new Promise(resolve => setTimeout(resolve, 30));
+
+  assert.equal(FakeWebSocket.instances.length, 1);
+  assert.equal(manager.getConnectionState().isConnected, false);
+});
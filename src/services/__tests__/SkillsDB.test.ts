@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { SkillsDB, type SkillSummary } from '../SkillsDB';
+
+const fireBolt: Omit<SkillSummary, 'id' | 'createdAt' | 'updatedAt'> = {
+  name: 'Fire Bolt',
+  description: 'Hurls a bolt of fire',
+  category: 'magic',
+  rarity: 'common',
+  abilities: [],
+  isTemplate: false,
+  ownerId: 'player-1',
+};
+
+async function openDB(storage: MemoryKeyValueStore): Promise<SkillsDB> {
+  const db = new SkillsDB({ storage });
+  await db.initialize();
+  return db;
+}
+
+test('skills persist to the configured store and reload', async () => {
+  const storage = new MemoryKeyValueStore();
+  const db = await openDB(storage);
+
+  const { summary } = await db.createSkill(fireBolt, { formulas: { damage: 'base * 2' } });
+  await db.updateSkill(summary.id, { name: 'Greater Fire Bolt' }, undefined, 'player-1');
+
+  const reloaded = await openDB(storage);
+  const skill = await reloaded.getSkill(summary.id, true);
+  assert.equal(skill?.summary.name, 'Greater Fire Bolt');
+  assert.equal(skill?.engineData?.formulas.damage, 'base * 2');
+  assert.equal(skill?.engineData?.version, 2);
+  assert.deepEqual(await reloaded.getSkillsByOwner('player-1').then(skills => skills.map(s => s.id)), [summary.id]);
+});
+
+test('a failed storage write rolls the change back', async () => {
+  const storage = new MemoryKeyValueStore();
+  const db = await openDB(storage);
+  db.on('persistFailed', () => {});
+
+  storage.multiSet = async () => {
+    throw new Error('disk full');
+  };
+
+  await assert.rejects(db.createSkill(fireBolt), /disk full/);
+  assert.deepEqual(await db.getSkillsByOwner('player-1'), []);
+});
+
+test('write methods called from a transaction callback throw instead of deadlocking', async () => {
+  const db = await openDB(new MemoryKeyValueStore());
+
+  await assert.rejects(
+    db.transaction(async tx => {
+      await db.createSkill(fireBolt);
+      await tx.createSkill(fireBolt);
+    }),
+    /called inside a transaction/
+  );
+  assert.deepEqual(await db.getSkillsByOwner('player-1'), []);
+
+  // The lock is released, so later writes go through
+  await db.createSkill(fireBolt);
+  assert.equal((await db.getSkillsByOwner('player-1')).length, 1);
+});
+
+test('writes from outside a transaction wait for its commit', async () => {
+  const db = await openDB(new MemoryKeyValueStore());
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const order: string[] = [];
+
+  const transaction = db.transaction(async tx => {
+    await tx.createSkill({ ...fireBolt, name: 'Inside' });
+    await gate;
+    order.push('transaction');
+  });
+
+  // Issued while the transaction holds the lock, from outside its callback
+  await new Promise(resolve => setImmediate(resolve));
+  const outside = db.createSkill({ ...fireBolt, name: 'Outside' }).then(skill => {
+    order.push('outside');
+    return skill;
+  });
+
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(order, []);
+
+  release();
+  await transaction;
+  const skill = await outside;
+
+  assert.deepEqual(order, ['transaction', 'outside']);
+  assert.equal(skill.summary.name, 'Outside');
+  assert.deepEqual((await db.getSkillsByOwner('player-1')).map(s => s.name).sort(), ['Inside', 'Outside']);
+});
+
+test('charge settings kept in the cooldowns map move to engineData.charges', async () => {
+  const storage = new MemoryKeyValueStore();
+  await storage.setItem('schema_version_skillsdb_knowledge_base', JSON.stringify({ version: 2 }));
+  await storage.setItem('skillsdb_knowledge_base_engine_fire-bolt', JSON.stringify({
+    id: 'fire-bolt',
+    formulas: {},
+    cooldowns: { bolt: 500, maxCharges: 3, rechargeInterval: 1000 },
+    internalCalculations: {},
+    version: 1,
+    lastModified: new Date().toISOString(),
+  }));
+
+  await openDB(storage);
+  const engineData = JSON.parse((await storage.getItem('skillsdb_knowledge_base_engine_fire-bolt'))!);
+  assert.deepEqual(engineData.cooldowns, { bolt: 500 });
+  assert.deepEqual(engineData.charges, { maxCharges: 3, rechargeInterval: 1000 });
+});
@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { StorageMigration, StorageMigrationRunner } from '../StorageMigrations';
+
+// v1 renames the legacy blob, v2 adds a field to it
+const migrations: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move legacy blob',
+    up: async storage => {
+      const legacy = await storage.getItem('legacy');
+      if (legacy === null) return;
+      await storage.setItem('data', legacy);
+      await storage.removeItem('legacy');
+    },
+  },
+  {
+    version: 2,
+    description: 'Add counter',
+    up: async storage => {
+      const data = JSON.parse((await storage.getItem('data')) || '{}');
+      await storage.setItem('data', JSON.stringify({ ...data, counter: (data.counter || 0) + 1 }));
+    },
+  },
+];
+
+async function legacyStore(): Promise<MemoryKeyValueStore> {
+  const storage = new MemoryKeyValueStore();
+  await storage.setItem('legacy', JSON.stringify({ name: 'old' }));
+  return storage;
+}
+
+test('pending migrations run in order and record the schema version', async () => {
+  const storage = await legacyStore();
+  const runner = new StorageMigrationRunner('test', [migrations[1], migrations[0]], storage);
+
+  const report = await runner.migrate();
+  assert.equal(report.status, 'migrated');
+  assert.equal(report.fromVersion, 0);
+  assert.equal(report.toVersion, 2);
+  assert.deepEqual(report.applied.map(m => m.version), [1, 2]);
+  assert.deepEqual(report.changedKeys, ['data']);
+  assert.deepEqual(report.removedKeys, ['legacy']);
+
+  assert.deepEqual(JSON.parse((await storage.getItem('data'))!), { name: 'old', counter: 1 });
+  assert.equal(await storage.getItem('legacy'), null);
+
+  const record = await runner.getVersionRecord();
+  assert.equal(record?.version, 2);
+  assert.deepEqual(record?.history.map(h => h.description), ['Move legacy blob', 'Add counter']);
+});
+
+test('migrating again is a no-op, and new migrations start from the recorded version', async () => {
+  const storage = await legacyStore();
+  await new StorageMigrationRunner('test', migrations.slice(0, 1), storage).migrate();
+
+  const runner = new StorageMigrationRunner('test', migrations, storage);
+  const [first, second] = await Promise.all([runner.ensureMigrated(), runner.ensureMigrated()]);
+  assert.equal(first, second);
+  assert.equal(first.status, 'migrated');
+  assert.deepEqual(first.applied.map(m => m.version), [2]);
+
+  const again = await runner.migrate();
+  assert.equal(again.status, 'up_to_date');
+  assert.deepEqual(again.applied, []);
+  assert.deepEqual(JSON.parse((await storage.getItem('data'))!), { name: 'old', counter: 1 });
+  assert.equal((await runner.getVersionRecord())?.history.length, 2);
+});
+
+test('a dry run reports the changes without writing them', async () => {
+  const storage = await legacyStore();
+  const runner = new StorageMigrationRunner('test', migrations, storage);
+
+  const report = await runner.migrate({ dryRun: true });
+  assert.equal(report.status, 'dry_run');
+  assert.equal(report.toVersion, 2);
+  assert.deepEqual(report.changedKeys, ['data']);
+  assert.deepEqual(report.removedKeys, ['legacy']);
+
+  assert.deepEqual((await storage.getAllKeys()).sort(), ['legacy']);
+  assert.equal(await runner.getCurrentVersion(), 0);
+});
+
+test('a failing migration or commit leaves storage untouched', async () => {
+  const { error } = console;
+  console.error = () => {};
+  try {
+    const storage = await legacyStore();
+    const failing = new StorageMigrationRunner('test', [
+      migrations[0],
+      { version: 2, description: 'Broken', up: async () => { throw new Error('bad data'); } },
+    ], storage);
+
+    const report = await failing.migrate();
+    assert.equal(report.status, 'rolled_back');
+    assert.equal(report.toVersion, 0);
+    assert.equal(report.error, 'bad data');
+    assert.deepEqual((await storage.getAllKeys()).sort(), ['legacy']);
+
+    // The first half of the commit lands, the removal fails: the written keys are restored
+    const multiRemove = storage.multiRemove.bind(storage);
+    storage.multiRemove = async () => {
+      storage.multiRemove = multiRemove;
+      throw new Error('disk full');
+    };
+    const runner = new StorageMigrationRunner('test', migrations, storage);
+    const commitFailure = await runner.migrate();
+    assert.equal(commitFailure.status, 'rolled_back');
+    assert.equal(commitFailure.error, 'disk full');
+    assert.deepEqual((await storage.getAllKeys()).sort(), ['legacy']);
+    assert.equal(await runner.getCurrentVersion(), 0);
+  } finally {
+    console.error = error;
+  }
+});
+
+test('a schema written by a newer build is left alone', async () => {
+  const { warn } = console;
+  console.warn = () => {};
+  try {
+    const storage = new MemoryKeyValueStore();
+    await storage.setItem('schema_version_test', JSON.stringify({ version: 5, updatedAt: '', history: [] }));
+    await storage.setItem('data', '{"future":true}');
+
+    const report = await new StorageMigrationRunner('test', migrations, storage).migrate();
+    assert.equal(report.status, 'newer_schema');
+    assert.equal(await storage.getItem('data'), '{"future":true}');
+  } finally {
+    console.warn = warn;
+  }
+});
+
+test('migrations must be numbered without gaps', () => {
+  assert.throws(() => new StorageMigrationRunner('test', [migrations[1]]), /numbered 1\.\.n without gaps/);
+});
@@ -0,0 +1,206 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryKeyValueStore } from '../KeyValueStore';
+import { UnifiedBattleLogSystem, type BattleMessage } from '../UnifiedBattleLogSystem';
+
+type NewMessage = Omit<BattleMessage, 'id' | 'timestamp' | 'clientTimestamp' | 'isRead'>;
+
+const message = (battleId: string, content: string): NewMessage => ({
+  battleId,
+  senderId: 'hero',
+  senderName: 'Hero',
+  content,
+  type: 'damage',
+});
+
+test('flushed messages are stored in the configured store and reload', async () => {
+  const storage = new MemoryKeyValueStore();
+  const battleLog = new UnifiedBattleLogSystem({ storage, flushThreshold: 2 });
+
+  for (let i = 1; i <= 5; i++) {
+    await battleLog.enqueueMessage('battle-1', message('battle-1', `Fireball hits goblin ${i}`));
+  }
+  await battleLog.flush();
+  assert.ok(Object.keys(storage.toJSON()).some(key => key.includes('battle-1')));
+
+  const reloaded = new UnifiedBattleLogSystem({ storage });
+  const recent = await reloaded.getRecentMessages('battle-1');
+  assert.deepEqual(recent.map(m => m.content), [1, 2, 3, 4, 5].map(i => `Fireball hits goblin ${i}`));
+
+  const page = await reloaded.getMessagePage('battle-1', { limit: 2 });
+  assert.deepEqual(page.messages.map(m => m.content), ['Fireball hits goblin 4', 'Fireball hits goblin 5']);
+  assert.ok(page.olderCursor);
+});
+
+test('search finds stored messages after a restart', async () => {
+  const storage = new MemoryKeyValueStore();
+  const battleLog = new UnifiedBattleLogSystem({ storage });
+
+  await battleLog.enqueueMessage('battle-1', message('battle-1', 'Fireball hits goblin'));
+  await battleLog.enqueueMessage('battle-1', message('battle-1', 'Ice shard misses'));
+  await battleLog.enqueueMessage('battle-2', message('battle-2', 'Fireball hits troll'));
+  await battleLog.flush();
+
+  const reloaded = new UnifiedBattleLogSystem({ storage });
+  const results = await reloaded.searchMessages('fireball');
+  assert.deepEqual(results.map(r => r.message.content).sort(), ['Fireball hits goblin', 'Fireball hits troll']);
+
+  const scoped = await reloaded.searchMessages('fireball', { battleId: 'battle-2' });
+  assert.deepEqual(scoped.map(r => r.message.content), ['Fireball hits troll']);
+});
+
+test('search still finds old messages after a token exceeds maxIndexPositions', async () => {
+  const storage = new MemoryKeyValueStore();
+  const battleLog = new UnifiedBattleLogSystem({ storage, chunkSize: 5, maxIndexPositions: 3 });
+
+  await battleLog.enqueueMessage('battle-1', message('battle-1', 'Fireball hits goblin'));
+  for (let i = 1; i <= 10; i++) {
+    await battleLog.enqueueMessage('battle-1', message('battle-1', `Fireball hits troll ${i}`));
+  }
+  await battleLog.flush();
+
+  const reloaded = new UnifiedBattleLogSystem({ storage, chunkSize: 5, maxIndexPositions: 3 });
+  const results = await reloaded.searchMessages('fireball goblin');
+  assert.deepEqual(results.map(r => r.message.content), ['Fireball hits goblin']);
+  assert.equal((await reloaded.searchMessages('fireball')).length, 11);
+});
+
+test('edits keep a trimmed history, persist and move the message in the search index', async () => {
+  const storage = new MemoryKeyValueStore();
+  const battleLog = new UnifiedBattleLogSystem({ storage, maxEditHistory: 2 });
+  const edited: BattleMessage[] = [];
+  battleLog.on('messageEdited', ({ message }: { message: BattleMessage }) => edited.push(message));
+
+  const messageId = await battleLog.enqueueMessage('battle-1', message('battle-1', 'Fireball hits goblin'));
+  await battleLog.flush();
+
+  await battleLog.editMessage('battle-1', messageId, 'Fireball hits troll', { editorId: 'hero' });
+  await battleLog.editMessage('battle-1', messageId, 'Fireball hits ogre');
+  const latest = await battleLog.editMessage('battle-1', messageId, 'Fireball misses');
+
+  assert.equal(latest.editVersion, 3);
+  assert.deepEqual(edited.map(m => m.content), ['Fireball hits troll', 'Fireball hits ogre', 'Fireball misses']);
+
+  const reloaded = new UnifiedBattleLogSystem({ storage, maxEditHistory: 2 });
+  const history = await reloaded.getMessageHistory('battle-1', messageId);
+  assert.deepEqual(history.map(h => [h.editVersion, h.content]), [[1, 'Fireball hits troll'], [2, 'Fireball hits ogre']]);
+  assert.deepEqual((await reloaded.getRecentMessages('battle-1')).map(m => m.content), ['Fireball misses']);
+
+  assert.deepEqual((await reloaded.searchMessages('misses')).map(r => r.message.id), [messageId]);
+  assert.deepEqual(await reloaded.searchMessages('goblin'), []);
+});
+
+test('edits to messages that are not flushed yet are written with the chunk', async () => {
+  const storage = new MemoryKeyValueStore();
+  const battleLog = new UnifiedBattleLogSystem({ storage });
+
+  const messageId = await battleLog.enqueueMessage('battle-1', message('battle-1', 'Fireball hits goblin'));
+  await battleLog.editMessage('battle-1', messageId, 'Fireball hits troll');
+  await battleLog.flush();
+
+  const reloaded = new UnifiedBattleLogSystem({ storage });
+  const [stored] = await reloaded.getRecentMessages('battle-1');
+  assert.equal(stored.content, 'Fireball hits troll');
+  assert.deepEqual(stored.editHistory?.map(h => h.content), ['Fireball hits goblin']);
+
+  await assert.rejects(reloaded.editMessage('battle-1', 'missing', 'x'), /not found in battle battle-1/);
+});
+
+test('redaction removes content and history for good but keeps the message in place', async () => {
+  const storage = new MemoryKeyValueStore();
+  const battleLog = new UnifiedBattleLogSystem({ storage });
+  const redacted: unknown[] = [];
+  battleLog.on('messageRedacted', (event: unknown) => redacted.push(event));
+
+  await battleLog.enqueueMessage('battle-1', message('battle-1', 'Fireball hits goblin'));
+  const abusiveId = await battleLog.enqueueMessage('battle-1', message('battle-1', 'Abusive taunt'));
+  await battleLog.enqueueMessage('battle-1', message('battle-1', 'Ice shard misses'));
+  await battleLog.flush();
+  await battleLog.editMessage('battle-1', abusiveId, 'Abusive taunt again');
+
+  const tombstone = await battleLog.redactMessage('battle-1', abusiveId, { moderatorId: 'mod-1', reason: 'abuse' });
+  assert.equal(tombstone.content, '');
+  assert.equal(tombstone.editHistory, undefined);
+  assert.equal(tombstone.redaction?.redactedBy, 'mod-1');
+  assert.deepEqual(redacted, [{ battleId: 'battle-1', messageId: abusiveId, moderatorId: 'mod-1', reason: 'abuse' }]);
+
+  const reloaded = new UnifiedBattleLogSystem({ storage });
+  const recent = await reloaded.getRecentMessages('battle-1');
+  assert.deepEqual(recent.map(m => m.content), ['Fireball hits goblin', '', 'Ice shard misses']);
+  assert.equal(recent[1].redaction?.reason, 'abuse');
+
+  assert.deepEqual(await reloaded.getMessageHistory('battle-1', abusiveId), []);
+  assert.deepEqual(await reloaded.searchMessages('abusive'), []);
+  assert.equal((await reloaded.searchMessages('sender:hero type:damage')).length, 2);
+  const persisted = JSON.stringify(storage.toJSON());
+  assert.ok(persisted.includes('Ice shard') && !persisted.includes('Abusive'));
+
+  await assert.rejects(reloaded.editMessage('battle-1', abusiveId, 'Back again'), /was redacted and cannot be edited/);
+});
+
+async function longBattle(storage: MemoryKeyValueStore, count: number): Promise<void> {
+  // Each flush writes one chunk: five messages per chunk
+  const battleLog = new UnifiedBattleLogSystem({ storage, flushThreshold: 5 });
+  for (let i = 1; i <= count; i++) {
+    await battleLog.enqueueMessage('battle-1', { ...message('battle-1', `Hit ${i}`), serverSeq: i });
+  }
+  await battleLog.flush();
+}
+
+test('cursors scroll through the whole history in both directions', async () => {
+  const storage = new MemoryKeyValueStore();
+  await longBattle(storage, 23);
+  const battleLog = new UnifiedBattleLogSystem({ storage });
+
+  const older: string[] = [];
+  let page = await battleLog.getMessagePage('battle-1', { limit: 4 });
+  assert.equal(page.newerCursor, undefined);
+  older.unshift(...page.messages.map(m => m.content));
+  while (page.olderCursor) {
+    page = await battleLog.getMessagePage('battle-1', { limit: 4, before: page.olderCursor });
+    older.unshift(...page.messages.map(m => m.content));
+  }
+  const all = Array.from({ length: 23 }, (_, i) => `Hit ${i + 1}`);
+  assert.deepEqual(older, all);
+
+  // Back down from the oldest page
+  const newer = page.messages.map(m => m.content);
+  while (page.newerCursor) {
+    page = await battleLog.getMessagePage('battle-1', { limit: 4, after: page.newerCursor });
+    newer.push(...page.messages.map(m => m.content));
+  }
+  assert.deepEqual(newer, all);
+});
+
+test('a page only reads the chunks it needs', async () => {
+  const storage = new MemoryKeyValueStore();
+  await longBattle(storage, 23);
+
+  const chunkReads: string[] = [];
+  const multiGet = storage.multiGet.bind(storage);
+  storage.multiGet = async keys => {
+    chunkReads.push(...keys.filter(key => key.startsWith('battle_log_chunk_')));
+    return multiGet(keys);
+  };
+
+  const battleLog = new UnifiedBattleLogSystem({ storage });
+  const page = await battleLog.getMessagePage('battle-1', { limit: 3 });
+  assert.deepEqual(page.messages.map(m => m.content), ['Hit 21', 'Hit 22', 'Hit 23']);
+  assert.ok(page.olderCursor);
+  assert.deepEqual(new Set(chunkReads), new Set(['battle_log_chunk_battle-1_3', 'battle_log_chunk_battle-1_4']));
+});
+
+test('pages can start from a server sequence number', async () => {
+  const storage = new MemoryKeyValueStore();
+  await longBattle(storage, 12);
+  const battleLog = new UnifiedBattleLogSystem({ storage });
+
+  const before = await battleLog.getMessagePage('battle-1', { beforeServerSeq: 7, limit: 3 });
+  assert.deepEqual(before.messages.map(m => m.serverSeq), [4, 5, 6]);
+  assert.ok(before.olderCursor && before.newerCursor);
+
+  const after = await battleLog.getMessagePage('battle-1', { afterServerSeq: 9, limit: 5 });
+  assert.deepEqual(after.messages.map(m => m.serverSeq), [10, 11, 12]);
+  assert.equal(after.newerCursor, undefined);
+  assert.ok(after.olderCursor);
+});
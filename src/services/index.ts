@@ -1,10 +1,21 @@
 export { AuthService } from './AuthService';
 export { SkillMigrationService } from './SkillMigrationService';
 export { SkillsDB, skillsDB } from './SkillsDB';
+export { SkillIdError, createDeterministicSkillId, generateRandomSkillId, isValidSkillId } from './SkillIds';
 export { AdvancedSkillsDB, LRUCache, WebSocketManager } from './SkillsDBAdvanced';
 export { ClientsideSkillStorage } from './ClientsideSkillStorage';
 export { BattleLog } from './BattleLog';
+export { BattleEngine, SeededRandom } from './BattleEngine';
 export { UnifiedBattleLogSystem, unifiedBattleLog } from './UnifiedBattleLogSystem';
+export { parseBattleLogQuery } from './BattleLogQuery';
+export { WebSocketBattleLogTransport } from './BattleLogTransport';
+export { StorageMigrationRunner } from './StorageMigrations';
+export { asyncStorageStore, MemoryKeyValueStore, IndexedDBKeyValueStore } from './KeyValueStore';
+export { SkillProgressionService, skillProgression } from './SkillProgressionService';
+export { SkillCooldownScheduler, skillCooldownScheduler } from './SkillCooldownScheduler';
+export { SkillLoadoutService, skillLoadouts } from './SkillLoadoutService';
+export { SkillContentPackLoader, createBundledContentPack, createRemoteContentPack } from './SkillContentPack';
+export { coreSkillPack } from './CoreSkillPack';
 export { SkillSystemManager, skillSystemManager } from './SkillSystemManager';
 export { SkillWebSocketManager, skillWebSocketManager } from './SkillWebSocketManager';
 export { examples, runAllExamples } from './SkillsDBExample';